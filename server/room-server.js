@@ -0,0 +1,273 @@
+// Focus room server: members join a room by code, share one timer and see what
+// everyone is working on. Plain Node with no dependencies, so it runs anywhere:
+//
+//   npm run room            # ws://localhost:8787
+//   PORT=9000 npm run room
+//
+// Protocol (JSON text frames), client -> server:
+//   { type: 'join', room, member: { id, name } }
+//   { type: 'presence', status: { mode, isActive, task? } | null }
+//   { type: 'timer', timer: { mode, status, plannedSeconds, remainingMs } }
+// server -> client:
+//   { type: 'joined', room, timer, members }   timer is null until someone shares one
+//   { type: 'members', members }
+//   { type: 'timer', timer, by }               by is the sender's name
+//   { type: 'error', message }
+//
+// Timers travel as "remainingMs at the moment of sending" rather than clock times,
+// so members' clocks don't have to agree. The server ages a stored timer when it
+// hands it to someone joining later.
+
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const HEARTBEAT_MS = 30_000;
+
+export const ROOM_CODE = /^[A-Z0-9]{4,12}$/;
+const MODES = ['focus', 'short', 'long'];
+const STATUSES = ['idle', 'running', 'paused', 'finished'];
+
+// --- Frames (RFC 6455, text only; browsers never fragment small messages) ---
+
+export const encodeFrame = (opcode, payload = Buffer.alloc(0), mask = false) => {
+  const length = payload.length;
+  const extended = length < 126 ? 0 : length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + extended + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (extended === 0 ? length : extended === 2 ? 126 : 127);
+  if (extended === 2) header.writeUInt16BE(length, 2);
+  if (extended === 8) header.writeBigUInt64BE(BigInt(length), 2);
+  if (!mask) return Buffer.concat([header, payload]);
+
+  // Clients must mask what they send; only tests act as a client here
+  const key = header.subarray(2 + extended);
+  key.set([0x12, 0x34, 0x56, 0x78]);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ key[i % 4]));
+  return Buffer.concat([header, masked]);
+};
+
+export const encodeText = (text, mask = false) => encodeFrame(0x1, Buffer.from(text), mask);
+
+// Pulls every complete frame off the front of the buffer; the rest waits for more data
+export const readFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      const big = buffer.readBigUInt64BE(cursor);
+      length = big > BigInt(MAX_MESSAGE_BYTES) ? Infinity : Number(big);
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) return { frames, rest: buffer.subarray(offset), tooLarge: true };
+
+    const key = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (key) for (let i = 0; i < payload.length; i++) payload[i] ^= key[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset), tooLarge: false };
+};
+
+// --- Rooms ---
+
+const isSharedTimer = (value) =>
+  !!value && typeof value === 'object'
+  && MODES.includes(value.mode)
+  && STATUSES.includes(value.status)
+  && Number.isFinite(value.plannedSeconds) && value.plannedSeconds >= 0
+  && Number.isFinite(value.remainingMs) && value.remainingMs >= 0;
+
+const isStatus = (value) =>
+  value === null || (!!value && typeof value === 'object'
+    && MODES.includes(value.mode)
+    && typeof value.isActive === 'boolean'
+    && (value.task === undefined || typeof value.task === 'string'));
+
+const clip = (text, max) => String(text).trim().slice(0, max);
+
+// A running timer keeps counting down while it sits on the server
+const agedTimer = ({ timer, storedAt }, now) =>
+  timer.status === 'running' ? { ...timer, remainingMs: Math.max(0, timer.remainingMs - (now - storedAt)) } : timer;
+
+export const createRooms = (now = () => Date.now()) => {
+  const rooms = new Map(); // code -> { timer, members: Map<client, member> }
+
+  const memberList = (room) => [...room.members.values()];
+  const send = (client, message) => client.send(JSON.stringify(message));
+  const broadcast = (room, message, except) => {
+    for (const client of room.members.keys()) if (client !== except) send(client, message);
+  };
+
+  const leave = (client) => {
+    const code = client.room;
+    const room = code && rooms.get(code);
+    client.room = null;
+    if (!room) return;
+    room.members.delete(client);
+    if (room.members.size === 0) rooms.delete(code);
+    else broadcast(room, { type: 'members', members: memberList(room) });
+  };
+
+  const join = (client, code, member) => {
+    leave(client);
+    let room = rooms.get(code);
+    if (!room) {
+      room = { timer: null, members: new Map() };
+      rooms.set(code, room);
+    }
+    client.room = code;
+    room.members.set(client, member);
+    send(client, {
+      type: 'joined',
+      room: code,
+      timer: room.timer ? agedTimer(room.timer, now()) : null,
+      members: memberList(room),
+    });
+    broadcast(room, { type: 'members', members: memberList(room) }, client);
+  };
+
+  const handle = (client, text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return send(client, { type: 'error', code: 'notJson', message: 'Messages must be JSON.' });
+    }
+    const room = client.room && rooms.get(client.room);
+
+    switch (message?.type) {
+      case 'join': {
+        const code = typeof message.room === 'string' ? message.room.toUpperCase() : '';
+        const { id, name } = message.member ?? {};
+        if (!ROOM_CODE.test(code)) return send(client, { type: 'error', code: 'badRoom', message: 'Room codes are 4 to 12 letters or digits.' });
+        if (typeof id !== 'string' || typeof name !== 'string' || !name.trim()) {
+          return send(client, { type: 'error', code: 'badMember', message: 'Joining needs a member id and name.' });
+        }
+        return join(client, code, { id: clip(id, 64), name: clip(name, 40), status: null });
+      }
+      case 'presence': {
+        if (!room) return send(client, { type: 'error', code: 'notJoined', message: 'Join a room first.' });
+        if (!isStatus(message.status)) return;
+        const { mode, isActive, task } = message.status ?? {};
+        const status = message.status && { mode, isActive, task: task === undefined ? undefined : clip(task, 200) };
+        room.members.set(client, { ...room.members.get(client), status });
+        return broadcast(room, { type: 'members', members: memberList(room) });
+      }
+      case 'timer': {
+        if (!room) return send(client, { type: 'error', code: 'notJoined', message: 'Join a room first.' });
+        if (!isSharedTimer(message.timer)) return;
+        const { mode, status, plannedSeconds, remainingMs } = message.timer;
+        const timer = { mode, status, plannedSeconds, remainingMs };
+        room.timer = { timer, storedAt: now() };
+        return broadcast(room, { type: 'timer', timer, by: room.members.get(client).name }, client);
+      }
+      default:
+        return send(client, { type: 'error', code: 'unknownType', message: 'Unknown message type.' });
+    }
+  };
+
+  return { handle, leave, size: () => rooms.size };
+};
+
+// --- HTTP + upgrade ---
+
+export const createRoomServer = () => {
+  const rooms = createRooms();
+  const clients = new Set();
+
+  const server = createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('ZenFocus focus room server. Connect over WebSocket.\n');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'));
+
+    const client = {
+      room: null,
+      alive: true,
+      send: (text) => socket.writable && socket.write(encodeText(text)),
+      close: (code = 1000) => {
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        if (socket.writable) socket.end(encodeFrame(0x8, payload));
+      },
+    };
+    clients.add(client);
+
+    let pending = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      const { frames, rest, tooLarge } = readFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      for (const { opcode, payload } of frames) {
+        if (opcode === 0x1) rooms.handle(client, payload.toString('utf8'));
+        else if (opcode === 0x8) client.close();
+        else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+        else if (opcode === 0xa) client.alive = true;
+      }
+      if (tooLarge) client.close(1009);
+    });
+
+    const drop = () => {
+      if (!clients.delete(client)) return;
+      rooms.leave(client);
+    };
+    // HTTP servers allow half-open sockets, so finish our side when the client hangs up
+    socket.on('end', () => socket.end());
+    socket.on('close', drop);
+    socket.on('error', drop);
+    client.socket = socket;
+  });
+
+  // Connections that vanish without a close frame (sleeping laptops) are dropped
+  // after missing a ping, so they don't linger in presence lists
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.alive) {
+        client.socket.destroy();
+        continue;
+      }
+      client.alive = false;
+      client.socket.write(encodeFrame(0x9));
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  server.on('close', () => clearInterval(heartbeat));
+
+  return server;
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  const host = process.env.HOST || '0.0.0.0';
+  createRoomServer().listen(port, host, () => {
+    console.log(`Focus room server listening on ws://${host === '0.0.0.0' ? 'localhost' : host}:${port}`);
+  });
+}
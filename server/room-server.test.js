@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { randomBytes } from 'node:crypto';
+import { request } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createRoomServer, createRooms, encodeText, readFrames } from './room-server.js';
+
+// Minimal client speaking the same frames a browser would
+const connect = (port) => new Promise((resolve, reject) => {
+  const req = request({
+    port,
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+      'Sec-WebSocket-Version': '13',
+    },
+  });
+  req.on('upgrade', (_res, socket, head) => {
+    const inbox = [];
+    const waiting = [];
+    let pending = Buffer.alloc(0);
+    const receive = (chunk) => {
+      const { frames, rest } = readFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      frames.filter(f => f.opcode === 0x1).forEach(f => {
+        const message = JSON.parse(f.payload.toString('utf8'));
+        if (waiting.length > 0) waiting.shift()(message);
+        else inbox.push(message);
+      });
+    };
+    socket.on('data', receive);
+    if (head.length > 0) receive(head);
+    resolve({
+      send: (message) => socket.write(encodeText(JSON.stringify(message), true)),
+      next: () => inbox.length > 0 ? Promise.resolve(inbox.shift()) : new Promise(r => waiting.push(r)),
+      close: () => socket.destroy(),
+    });
+  });
+  req.on('error', reject);
+  req.end();
+});
+
+describe('frames', () => {
+  it('round-trips masked text of every length class and waits for partial frames', () => {
+    // 7-bit, 16-bit and 64-bit lengths; 65,536 bytes is the largest message a room accepts
+    for (const [size, marker] of [[5, 5], [300, 126], [65_536, 127]]) {
+      const text = 'x'.repeat(size);
+      const frame = encodeText(text, true);
+      expect(frame[1] & 0x7f).toBe(marker);
+      expect(readFrames(frame.subarray(0, frame.length - 1)).frames).toHaveLength(0);
+      const { frames, rest } = readFrames(Buffer.concat([frame, frame.subarray(0, 3)]));
+      expect(frames.map(f => f.payload.toString())).toEqual([text]);
+      expect(rest).toHaveLength(3);
+    }
+  });
+
+  it('refuses frames over the message limit', () => {
+    expect(readFrames(encodeText('x'.repeat(70_000), true)).tooLarge).toBe(true);
+  });
+});
+
+describe('rooms', () => {
+  const client = () => {
+    const sent = [];
+    return { room: null, sent, send: (text) => sent.push(JSON.parse(text)) };
+  };
+
+  it('hands a late joiner the shared timer, aged by the time it sat on the server', () => {
+    let clock = 0;
+    const rooms = createRooms(() => clock);
+    const ann = client();
+    const bob = client();
+    rooms.handle(ann, JSON.stringify({ type: 'join', room: 'desk1', member: { id: 'a', name: 'Ann' } }));
+    rooms.handle(ann, JSON.stringify({ type: 'timer', timer: { mode: 'focus', status: 'running', plannedSeconds: 1500, remainingMs: 60_000 } }));
+    clock = 15_000;
+    rooms.handle(bob, JSON.stringify({ type: 'join', room: 'DESK1', member: { id: 'b', name: 'Bob' } }));
+
+    expect(bob.sent[0]).toMatchObject({ type: 'joined', room: 'DESK1', timer: { status: 'running', remainingMs: 45_000 } });
+    expect(ann.sent.at(-1)).toMatchObject({ type: 'members', members: [{ name: 'Ann' }, { name: 'Bob' }] });
+  });
+
+  it('rejects bad codes and drops empty rooms', () => {
+    const rooms = createRooms();
+    const ann = client();
+    rooms.handle(ann, JSON.stringify({ type: 'join', room: 'a b', member: { id: 'a', name: 'Ann' } }));
+    expect(ann.sent[0]).toMatchObject({ type: 'error', code: 'badRoom' });
+
+    rooms.handle(ann, JSON.stringify({ type: 'join', room: 'ABCD', member: { id: 'a', name: 'Ann' } }));
+    expect(rooms.size()).toBe(1);
+    rooms.leave(ann);
+    expect(rooms.size()).toBe(0);
+  });
+});
+
+describe('server', () => {
+  let server;
+  let port;
+
+  beforeEach(() => new Promise(resolve => {
+    server = createRoomServer();
+    server.listen(0, '127.0.0.1', () => {
+      port = server.address().port;
+      resolve();
+    });
+  }));
+
+  afterEach(() => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+
+  it('shares timer changes and presence between members', async () => {
+    const ann = await connect(port);
+    ann.send({ type: 'join', room: 'TEAM', member: { id: 'a', name: 'Ann' } });
+    expect(await ann.next()).toEqual({ type: 'joined', room: 'TEAM', timer: null, members: [{ id: 'a', name: 'Ann', status: null }] });
+
+    const bob = await connect(port);
+    bob.send({ type: 'join', room: 'team', member: { id: 'b', name: 'Bob' } });
+    expect((await bob.next()).members).toHaveLength(2);
+    expect((await ann.next()).members.map(m => m.name)).toEqual(['Ann', 'Bob']);
+
+    const timer = { mode: 'short', status: 'paused', plannedSeconds: 300, remainingMs: 120_000 };
+    ann.send({ type: 'timer', timer });
+    expect(await bob.next()).toEqual({ type: 'timer', timer, by: 'Ann' });
+
+    bob.send({ type: 'presence', status: { mode: 'focus', isActive: true, task: 'Write report' } });
+    expect((await ann.next()).members[1].status).toEqual({ mode: 'focus', isActive: true, task: 'Write report' });
+
+    bob.close();
+    expect((await ann.next()).members.map(m => m.name)).toEqual(['Ann']);
+    ann.close();
+  });
+});
@@ -1,275 +1,766 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useEffectEvent, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
 import {
-  Play, Pause, RotateCcw, Plus, Trash2, Check, Zap,
+  Play, Pause, RotateCcw, Plus, Zap,
   Volume2, VolumeX, Maximize2, Minimize2, Coffee, Brain,
-  Moon, Sparkles, Loader2, Lightbulb, ChevronRight,
+  Moon, Sparkles, Loader2, Lightbulb, BarChart3, Settings, AlertTriangle, Keyboard, Headphones, WifiOff, RefreshCw, PictureInPicture2, CalendarClock,
+  LayoutTemplate, X, Users,
 } from 'lucide-react';
+import type {
+  Task, TimerMode, TimerSettings, SessionStatus, AISettings, NotificationSettings, InterruptionKind, Distraction, FocusTemplate,
+} from './types';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { useShortcuts } from './hooks/useShortcuts';
+import { useSoundscape } from './hooks/useSoundscape';
+import { useFavicon } from './hooks/useFavicon';
+import { useNotificationActions, usePreEndWarnings } from './hooks/useNotifications';
+import { useOnlineStatus, useUpdatePrompt } from './hooks/usePwa';
+import { useMiniWindow } from './hooks/useMiniWindow';
+import { useTheme } from './hooks/useTheme';
+import { useFocusRoom } from './hooks/useFocusRoom';
+import { useFocusTrap } from './hooks/useFocusTrap';
+import { I18nContext } from './hooks/useI18n';
+import {
+  TASKS, PINNED_TASK, AI_SETTINGS, TIMER_SETTINGS, CYCLE_PROGRESS, SOUND_ENABLED, ACTIVE_SESSION, SHORTCUTS, SOUND_SETTINGS, NOTIFICATIONS, AI_QUEUE, DISTRACTIONS,
+  PROJECTS, TASK_VIEW, TEMPLATES, RUNNING_SEQUENCE, LOCALE, THEME, ROOM,
+} from './lib/storage';
+import { SNOOZE_MINUTES, showNotification, type AppNotification, type NotificationAction } from './lib/notify';
+import { DEFAULT_BINDINGS, formatCombo, rebind, type ShortcutAction } from './lib/shortcuts';
+import { useTimer } from './hooks/useTimer';
+import type { TimerState } from './lib/timer';
+import { toDateKey } from './lib/stats';
+import { modeSeconds, nextPhase, cyclePosition, type CyclePhase } from './lib/cycle';
+import { createProvider, describeAIError, needsNetwork, withLanguage, type AIProvider, type AIRequest } from './lib/ai';
+import { createTranslator, languageName, resolveLocale, timerAnnouncement } from './lib/i18n';
+import { requestBreakdown, stepsToSubtasks } from './lib/breakdown';
+import { moveItem, updateTask, updateSubtasks, removeSubtask, promoteSubtask, prioritizeTasks, archiveCompleted, restoreTask, pickActiveTask } from './lib/tasks';
+import { PROJECT_COLORS, allTags, filterTasks, parseTaskInput, sortTasks } from './lib/filters';
+import { renewRecurring } from './lib/recurrence';
+import { endsSequence, formatSequence, sequenceSettings, taskFromTemplate, templateFromTask } from './lib/templates';
+import { NO_INTERRUPTIONS, countInterruptions, distractionsToTasks, formatInterruptions, totalInterruptions } from './lib/distractions';
+import { applyPlan, nextQuarterHour, requestDayPlan, requestDayReview, type DaySummary, type PlanEntry } from './lib/planning';
+import {
+  serializeBackup, tasksToMarkdown, historyToCsv, planFocusBlocks, blocksToIcs, importFile, downloadFile,
+  type AppSnapshot, type ExportFormat,
+} from './lib/io';
+import { Button } from './components/Button';
+import { StatsDashboard } from './components/StatsDashboard';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TaskItem } from './components/TaskItem';
+import { PomodoroCount } from './components/PomodoroCount';
+import { NextTaskPrompt } from './components/NextTaskPrompt';
+import { CommandPalette, type PaletteItem } from './components/CommandPalette';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { SoundPanel } from './components/SoundPanel';
+import { MiniTimer } from './components/MiniTimer';
+import { DayPlanner, type DayView } from './components/DayPlanner';
+import { DistractionCapture, DistractionDialog } from './components/DistractionCapture';
+import { DistractionReview } from './components/DistractionReview';
+import { TaskFilters } from './components/TaskFilters';
+import { ArchivePanel } from './components/ArchivePanel';
+import { TemplatesPanel } from './components/TemplatesPanel';
+import { RoomPanel } from './components/RoomPanel';
 
 // --- API Configuration ---
 // FOR VERCEL DEPLOYMENT:
 // 1. Create a .env file locally with: VITE_GEMINI_API_KEY=your_key_here
 // 2. In Vercel settings, add the Environment Variable: VITE_GEMINI_API_KEY
 // 3. Uncomment the 'import.meta' line below and comment out the 'apiKey = ""' line.
+// A key entered in Settings takes precedence; other providers don't use this at all.
 
 const apiKey = import.meta.env.VITE_GEMINI_API_KEY || "";
 // const apiKey = ""; // Keep empty for immediate preview (the environment injects it)
 
-// --- Types ---
-interface SubTask {
-  id: number;
-  text: string;
-  completed: boolean;
-}
-
-interface Task {
-  id: number;
-  text: string;
-  completed: boolean;
-  subtasks?: SubTask[];
-  isExpanded?: boolean;
-}
-
-// --- Custom Hooks ---
-
-// Hook for persistent local storage
-function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T) => void] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
-
-  const setValue = (value: T) => {
-    try {
-      setStoredValue(value);
-      window.localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error(error);
-    }
-  };
-
-  return [storedValue, setValue];
-}
-
-// --- Components ---
-
-const Button = ({ onClick, children, className, variant = 'primary', disabled = false }: any) => {
-  const baseStyle = "px-4 py-2 rounded-xl font-medium transition-all duration-200 flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed";
-  const variants: any = {
-    primary: "bg-emerald-500 hover:bg-emerald-400 text-slate-900 shadow-[0_0_15px_rgba(16,185,129,0.3)]",
-    secondary: "bg-slate-700 hover:bg-slate-600 text-slate-200",
-    ghost: "text-slate-400 hover:text-emerald-400 hover:bg-slate-800/50",
-    danger: "text-rose-400 hover:bg-rose-900/20 hover:text-rose-300",
-    magic: "bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white shadow-[0_0_15px_rgba(139,92,246,0.3)]"
-  };
-
-  return (
-    <button onClick={onClick} disabled={disabled} className={`${baseStyle} ${variants[variant]} ${className}`}>
-      {children}
-    </button>
-  );
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
 export default function App() {
+  // --- Language ---
+  const [localeSetting, setLocaleSetting] = usePersistentState(LOCALE);
+  const locale = resolveLocale(localeSetting, navigator.languages);
+  const i18n = useMemo(() => ({ locale, t: createTranslator(locale) }), [locale]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   // --- State ---
-  const [tasks, setTasks] = useLocalStorage<Task[]>('zenfocus-tasks', []);
+  const [tasks, setTasks] = usePersistentState(TASKS);
   const [newTask, setNewTask] = useState('');
+  const newTaskInput = useRef<HTMLInputElement>(null);
+  const [pinnedTaskId, setPinnedTaskId] = usePersistentState(PINNED_TASK);
+
+  // Projects & Filters: the list shows one project (or all) and can be narrowed by tag and re-sorted
+  const [projects, setProjects] = usePersistentState(PROJECTS);
+  const [taskView, setTaskView] = usePersistentState(TASK_VIEW);
+  const visibleTasks = sortTasks(filterTasks(tasks, taskView), taskView.sort);
+  const activeTask = pickActiveTask(tasks, visibleTasks, pinnedTaskId);
+  const archivedTasks = tasks.filter(t => t.archivedAt);
+  // Due dates and recurring tasks go by the local calendar day, rechecked every minute
+  const [today, setToday] = useState(() => toDateKey(Date.now()));
 
   // AI State
   const [loadingTaskId, setLoadingTaskId] = useState<number | null>(null);
   const [coachTip, setCoachTip] = useState<string | null>(null);
   const [isCoachLoading, setIsCoachLoading] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [aiSettings, setAiSettings] = usePersistentState(AI_SETTINGS);
+
+  // Offline: everything but remote AI keeps working, and breakdowns wait in a queue
+  const isOnline = useOnlineStatus();
+  const aiAvailable = isOnline || !needsNetwork(aiSettings);
+  const [breakdownQueue, setBreakdownQueue] = usePersistentState(AI_QUEUE);
+  const { updateReady, applyUpdate } = useUpdatePrompt();
+
+  // Cycle Settings (a running template sequence stands in for the regular cycle)
+  const [settings, setSettings] = usePersistentState(TIMER_SETTINGS);
+  const [completedFocus, setCompletedFocus] = usePersistentState(CYCLE_PROGRESS);
+  const [templates, setTemplates] = usePersistentState(TEMPLATES);
+  const [runningSequence, setRunningSequence] = usePersistentState(RUNNING_SEQUENCE);
+  const cycleSettings = runningSequence ? sequenceSettings(settings, runningSequence.sequence) : settings;
+
+  // Timer State (persisted, so a reload resumes mid-session)
+  const timer = useTimer({
+    storageKey: 'zenfocus-timer',
+    initialMode: 'focus',
+    initialSeconds: modeSeconds(cycleSettings, 'focus'),
+    onComplete: (_finished, endedAt) => handleTimerComplete(endedAt),
+  });
+  const timerMode = timer.mode;
+  const timeLeft = timer.secondsLeft;
+  const isActive = timer.isRunning;
+  const [soundEnabled, setSoundEnabled] = usePersistentState(SOUND_ENABLED);
+  const [notificationSettings, setNotificationSettings] = usePersistentState(NOTIFICATIONS);
+  const [snoozeUntil, setSnoozeUntil] = useState<number | null>(null);
+
+  // Soundscape: the ambient mix follows the timer mode and fades with start/pause.
+  // An explicit preview from the sound panel plays even when muted.
+  const [soundSettings, setSoundSettings] = usePersistentState(SOUND_SETTINGS);
+  const [previewMode, setPreviewMode] = useState<TimerMode | null>(null);
+  const soundscape = useSoundscape(
+    (soundEnabled && isActive) || previewMode !== null,
+    soundSettings.mixes[previewMode ?? timerMode],
+    soundSettings.volume,
+  );
+
+  // Session History
+  const [history, addSessions] = useSessionHistory();
+  const [session, setSession] = usePersistentState(ACTIVE_SESSION);
 
-  // Timer State
-  const [timerMode, setTimerMode] = useState<'focus' | 'short' | 'long'>('focus');
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [soundEnabled, setSoundEnabled] = useLocalStorage('zenfocus-sound', true);
+  // Distractions: parked mid-focus, counted against the session, reviewed once it ends
+  const [distractions, setDistractions] = usePersistentState(DISTRACTIONS);
+  const [showCapture, setShowCapture] = useState(false);
+  const [reviewingDistractions, setReviewingDistractions] = useState(false);
+  const zenCaptureInput = useRef<HTMLInputElement>(null);
+  const focusStartedAt = session?.mode === 'focus' ? session.startedAt : undefined;
+  const sessionInterruptions = focusStartedAt !== undefined ? countInterruptions(distractions, focusStartedAt) : NO_INTERRUPTIONS;
+  const pendingDistractions = distractions.filter(d => focusStartedAt === undefined || d.sessionStartedAt !== focusStartedAt);
 
   // UI State
   const [zenMode, setZenMode] = useState(false);
-  const timerRef = useRef<number | null>(null);
+  const zenOverlay = useFocusTrap<HTMLDivElement>(zenMode, () => setZenMode(false));
+  const [showStats, setShowStats] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showSounds, setShowSounds] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [dayView, setDayView] = useState<DayView | null>(null);
+  const [finishedTask, setFinishedTask] = useState<Task | null>(null);
+  const mini = useMiniWindow();
+  const [themeSettings, setThemeSettings] = usePersistentState(THEME);
+  const { accents } = useTheme(themeSettings, mini.miniWindow);
+
+  // Keyboard State
+  const [bindings, setBindings] = usePersistentState(SHORTCUTS);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+
+  // Focus Room: one shared timer and a presence list for everyone on the same code
+  const [roomSettings, setRoomSettings] = usePersistentState(ROOM);
+  const [showRoom, setShowRoom] = useState(false);
+  const room = useFocusRoom(roomSettings, {
+    timer: timer.state,
+    presence: { mode: timerMode, isActive, task: timerMode === 'focus' ? activeTask?.text : undefined },
+    onTimer: (next) => applyRoomTimer(next),
+  });
 
   // --- Constants ---
   const MODES = {
-    focus: { time: 25 * 60, color: 'text-emerald-400', bg: 'bg-emerald-500', label: 'Focus Flow' },
-    short: { time: 5 * 60, color: 'text-cyan-400', bg: 'bg-cyan-500', label: 'Short Break' },
-    long: { time: 15 * 60, color: 'text-indigo-400', bg: 'bg-indigo-500', label: 'Long Break' }
+    focus: { time: modeSeconds(cycleSettings, 'focus'), color: 'text-mode-focus', bg: 'bg-mode-focus', accent: accents.focus, label: t('mode.focus') },
+    short: { time: modeSeconds(cycleSettings, 'short'), color: 'text-mode-short', bg: 'bg-mode-short', accent: accents.short, label: t('mode.short') },
+    long: { time: modeSeconds(cycleSettings, 'long'), color: 'text-mode-long', bg: 'bg-mode-long', accent: accents.long, label: t('mode.long') }
   };
 
-  // --- Gemini API Helper ---
-  const callGemini = async (prompt: string) => {
-    // Safety check for missing API key
-    // Note: In the preview environment, apiKey is empty but injected by the system.
-    // In production/Vercel, you must set the environment variable.
-
+  // --- AI Helper ---
+  // Every AI feature goes through here so errors surface inline, whatever the provider
+  const runAI = async <T,>(job: (provider: AIProvider) => Promise<T>) => {
+    setAiError(null);
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }]
-          })
-        }
-      );
-
-      if (!response.ok) throw new Error('AI Response failed');
-      const data = await response.json();
-      return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      return await job(withLanguage(createProvider(aiSettings, apiKey), languageName(locale)));
     } catch (error) {
-      console.error("Gemini API Error:", error);
-      alert("AI Error: Check console for details (likely API quota or key issue).");
+      console.error("AI Error:", error);
+      setAiError(describeAIError(error, t));
       return null;
     }
   };
 
+  const callAI = (request: AIRequest) => runAI(provider => provider.generate(request));
+
   // --- AI Features ---
   const handleSmartBreakdown = async (taskId: number, taskText: string) => {
+    // Clicking a queued task again takes it off the queue
+    if (!aiAvailable) {
+      setBreakdownQueue(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+      return;
+    }
     setLoadingTaskId(taskId);
 
-    const prompt = `Act as a productivity expert. Break down the task "${taskText}" into 3 to 5 small, actionable, concrete sub-steps. Return ONLY a raw JSON array of strings (e.g. ["Step 1", "Step 2"]). Do not include markdown formatting or "json" tags.`;
-
-    const result = await callGemini(prompt);
-
-    if (result) {
-      try {
-        // Clean up potential markdown formatting if the model adds it despite instructions
-        const cleanJson = result.replace(/```json/g, '').replace(/```/g, '').trim();
-        const steps = JSON.parse(cleanJson);
-
-        if (Array.isArray(steps)) {
-          const newSubtasks = steps.map((step: string) => ({
-            id: Date.now() + Math.random(),
-            text: step,
-            completed: false
-          }));
-
-          setTasks(tasks.map(t =>
-            t.id === taskId
-              ? { ...t, subtasks: [...(t.subtasks || []), ...newSubtasks], isExpanded: true }
-              : t
-          ));
-        }
-      } catch (e) {
-        console.error("Failed to parse AI response", e);
-        alert("Couldn't break down this task automatically. Try again!");
-      }
+    const steps = await runAI(provider => requestBreakdown(provider, taskText));
+
+    if (steps) {
+      const newSubtasks = stepsToSubtasks(steps, () => Date.now() + Math.random());
+      // The list may have changed while we waited, so update whatever is stored now
+      setTasks(prev => updateTask(prev, taskId, t => ({ ...t, subtasks: [...(t.subtasks || []), ...newSubtasks], isExpanded: true })));
     }
     setLoadingTaskId(null);
   };
 
+  // Work through queued breakdowns one at a time once the provider is reachable
+  const flushBreakdownQueue = useEffectEvent(async () => {
+    for (const id of breakdownQueue) {
+      setBreakdownQueue(prev => prev.filter(queued => queued !== id));
+      const task = tasks.find(t => t.id === id && !t.completed);
+      if (task) await handleSmartBreakdown(task.id, task.text);
+    }
+  });
+
+  const hasQueuedBreakdowns = breakdownQueue.length > 0;
+  useEffect(() => {
+    if (aiAvailable && hasQueuedBreakdowns) flushBreakdownQueue();
+  }, [aiAvailable, hasQueuedBreakdowns]);
+
   const getZenCoachTip = async () => {
     setIsCoachLoading(true);
-    const activeTaskText = tasks.find(t => !t.completed)?.text || "general focus";
-    const prompt = `I am using a focus timer app. My current main task is: "${activeTaskText}". Give me one single, short, powerful sentence of advice (Stoic, productivity, or motivational) to help me start or focus on this specific task. Keep it under 20 words.`;
+    const activeTaskText = activeTask?.text || t('coach.generalFocus');
+    const prompt = t('coach.prompt', { task: activeTaskText });
 
-    const tip = await callGemini(prompt);
+    const tip = await callAI({ purpose: 'coach', prompt, subject: activeTaskText });
     if (tip) setCoachTip(tip);
     setIsCoachLoading(false);
   };
 
+  // Both return a proposal; nothing changes until it's accepted in the planner
+  const planDay = (hours: number) =>
+    runAI(provider => requestDayPlan(provider, tasks, hours, settings, completedFocus));
+
+  const reviewDay = (day: DaySummary) => runAI(provider => requestDayReview(provider, day));
+
+  // A pin would hide the new order, so the top of the list becomes the active task again
+  const acceptPlan = (entries: PlanEntry[]) => {
+    setTasks(prev => applyPlan(prev, entries));
+    setPinnedTaskId(null);
+  };
+
+  const carryOver = (taskIds: number[]) => {
+    setTasks(prev => prioritizeTasks(prev, taskIds));
+    setPinnedTaskId(null);
+  };
+
   // --- Effects ---
+  // Inside a warning window the title gets a marker, which also covers users without notifications
+  const isEndingSoon = isActive && notificationSettings.warnings.some(minutes => timeLeft <= minutes * 60);
   useEffect(() => {
-    if (isActive && timeLeft > 0) {
-      timerRef.current = window.setTimeout(() => {
-        setTimeLeft((prev) => prev - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      setIsActive(false);
-      if (soundEnabled) playNotification();
+    // Update document title with timer
+    document.title = `${isEndingSoon ? '⏳ ' : ''}${formatTime(timeLeft)} - ZenFocus`;
+  }, [timeLeft, isEndingSoon]);
+
+  // --- Session Logging ---
+  const logSession = (status: SessionStatus, endedAt: number, secondsLeft = timeLeft) => {
+    if (!session) return;
+    const actualSeconds = session.plannedSeconds - secondsLeft;
+    setSession(null);
+    if (session.mode === 'focus' && distractions.length > 0) setReviewingDistractions(true);
+    // An abandoned run that never ticked isn't worth a history entry
+    if (status === 'abandoned' && actualSeconds <= 0) return;
+
+    addSessions([{
+      id: endedAt,
+      mode: session.mode,
+      status,
+      startedAt: session.startedAt,
+      endedAt,
+      plannedSeconds: session.plannedSeconds,
+      actualSeconds,
+      taskId: session.taskId,
+      taskText: session.taskText,
+      projectId: session.projectId,
+      tags: session.tags,
+      interruptions: session.mode === 'focus' ? countInterruptions(distractions, session.startedAt) : undefined,
+    }]);
+  };
+
+  const switchMode = (mode: TimerMode) => {
+    room.shareTimer();
+    logSession('abandoned', timer.load(mode, MODES[mode].time));
+  };
+
+  const beginSession = (mode: TimerMode, startedAt: number, plannedSeconds = MODES[mode].time, task = activeTask) => {
+    setSession({
+      mode,
+      startedAt,
+      plannedSeconds,
+      taskId: task?.id,
+      taskText: task?.text,
+      projectId: task?.projectId,
+      tags: task?.tags,
+    });
+  };
+
+  const toggleTimer = () => {
+    room.shareTimer();
+    if (isActive) {
+      timer.pause();
+      return;
     }
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-    };
-  }, [isActive, timeLeft]);
+    const startedAt = timer.start();
+    setSnoozeUntil(null);
+    if (!session && timeLeft > 0) beginSession(timerMode, startedAt);
+  };
 
-  useEffect(() => {
-    // Update document title with timer
-    document.title = `${formatTime(timeLeft)} - ZenFocus`;
-  }, [timeLeft]);
+  // Someone in the focus room started, paused or switched the timer: follow along and
+  // keep our own history as if we had pressed the button, without sharing it back
+  const applyRoomTimer = (next: TimerState) => {
+    const modeChanged = next.mode !== timerMode;
+    const at = timer.replace(next);
+    if (session && (modeChanged || next.status === 'idle')) logSession('abandoned', at);
+    if (next.status === 'running' && (!session || modeChanged)) {
+      setSnoozeUntil(null);
+      beginSession(next.mode, at, next.plannedSeconds);
+    }
+  };
+
+  const handleTimerComplete = (endedAt: number) => {
+    logSession('completed', endedAt, 0);
+    if (session?.mode === 'focus' && session.taskId !== undefined) {
+      const { taskId } = session;
+      setTasks(prev => updateTask(prev, taskId, t => ({ ...t, completedPomodoros: (t.completedPomodoros || 0) + 1 })));
+    }
+    if (soundEnabled) soundscape.chime(soundSettings.chime, soundSettings.chimeVolume);
+    const next = advanceCycle(endedAt);
+    notifyPhaseEnd(t(timerMode === 'focus' ? 'notify.focusDone' : 'notify.breakDone'), next.mode, next.autoStart);
+  };
+
+  // Jump straight to the next phase; the cut-short run is logged but earns no pomodoro
+  const skipPhase = () => {
+    room.shareTimer();
+    const { phase: next, seconds } = followingPhase();
+    setCompletedFocus(next.completedFocus);
+    const endedAt = timer.load(next.mode, seconds, next.autoStart);
+    logSession('abandoned', endedAt);
+    if (next.autoStart) beginSession(next.mode, endedAt, seconds);
+  };
+
+  // --- Distractions ---
+  const captureDistraction = (text: string, kind: InterruptionKind) => {
+    setDistractions(prev => {
+      const capturedAt = Date.now();
+      return [...prev, { id: capturedAt, text, kind, capturedAt, sessionStartedAt: focusStartedAt }];
+    });
+  };
+
+  // Everything on the review list is cleared; only the picked ones become tasks
+  const convertDistractions = (picked: Distraction[]) => {
+    const reviewed = pendingDistractions.map(d => d.id);
+    setTasks(prev => [...prev, ...distractionsToTasks(picked, () => Date.now() + Math.random())]);
+    setDistractions(prev => prev.filter(d => !reviewed.includes(d.id)));
+    setReviewingDistractions(false);
+  };
 
-  // --- Helpers ---
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  // --- Cycle Engine ---
+  // A template sequence that just played its last break hands back to the regular cycle
+  const followingPhase = (): { phase: CyclePhase; seconds: number } => {
+    if (runningSequence && endsSequence(timerMode, completedFocus, runningSequence.sequence)) {
+      setRunningSequence(null);
+      return { phase: { mode: 'focus', completedFocus: 0, autoStart: false }, seconds: modeSeconds(settings, 'focus') };
+    }
+    const phase = nextPhase(timerMode, completedFocus, cycleSettings);
+    return { phase, seconds: MODES[phase.mode].time };
   };
 
-  const playNotification = () => {
-    // Simple oscillator beep for "shippable" audio without external assets
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
+  const advanceCycle = (endedAt: number) => {
+    const { phase: next, seconds } = followingPhase();
+    setCompletedFocus(next.completedFocus);
+    if (next.autoStart) beginSession(next.mode, endedAt, seconds);
+    timer.load(next.mode, seconds, next.autoStart);
+    return next;
+  };
 
-    osc.connect(gain);
-    gain.connect(ctx.destination);
+  const stopSequence = () => {
+    room.shareTimer();
+    setRunningSequence(null);
+    setCompletedFocus(0);
+    if (!session) timer.load(timerMode, modeSeconds(settings, timerMode));
+  };
 
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(880, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(440, ctx.currentTime + 0.5);
+  // --- Templates & Recurring Tasks ---
+  // One click: the template's task goes on top, gets pinned and its first focus block starts
+  const startTemplate = (template: FocusTemplate) => {
+    room.shareTimer();
+    const task = taskFromTemplate(template, () => Date.now() + Math.random());
+    const { sequence } = template;
+    const seconds = modeSeconds(sequence ? sequenceSettings(settings, sequence) : settings, 'focus');
+    setTasks(prev => [task, ...prev]);
+    setPinnedTaskId(task.id);
+    setRunningSequence(sequence ? { templateId: template.id, name: template.name, sequence } : null);
+    if (sequence) setCompletedFocus(0);
+    setShowTemplates(false);
+    setSnoozeUntil(null);
+
+    const startedAt = timer.load('focus', seconds, true);
+    logSession('abandoned', startedAt);
+    beginSession('focus', startedAt, seconds, task);
+  };
 
-    gain.gain.setValueAtTime(0.5, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
+  const saveTemplate = (task: Task) => {
+    setTemplates(prev => [...prev, templateFromTask(task, Date.now())]);
+    setShowTemplates(true);
+  };
 
-    osc.start();
-    osc.stop(ctx.currentTime + 0.5);
+  const updateTemplate = (id: number, changes: Partial<FocusTemplate>) => {
+    setTemplates(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
   };
 
-  const switchMode = (mode: 'focus' | 'short' | 'long') => {
-    setIsActive(false);
-    setTimerMode(mode);
-    setTimeLeft(MODES[mode].time);
+  const deleteTemplate = (id: number) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
   };
 
-  const toggleTimer = () => setIsActive(!isActive);
+  // Recurring tasks renew when the app opens on a new day, and at midnight if it stays open
+  const renewForToday = useEffectEvent(() => {
+    const day = toDateKey(Date.now());
+    setToday(day);
+    setTasks(prev => renewRecurring(prev, day, () => Date.now() + Math.random()));
+  });
+
+  useEffect(() => {
+    renewForToday();
+    const id = window.setInterval(renewForToday, 60_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // --- Notifications ---
+  // Only when the user opted in and isn't looking at the app already
+  const notify = (notification: AppNotification) => {
+    if (notificationSettings.enabled && !document.hasFocus()) showNotification(notification);
+  };
+
+  const notifyPhaseEnd = (title: string, nextMode: TimerMode, started: boolean) => {
+    notify({
+      title,
+      body: started
+        ? t('notify.started', { mode: MODES[nextMode].label })
+        : t(nextMode === 'focus' ? 'notify.readyFocus' : nextMode === 'short' ? 'notify.timeForShort' : 'notify.timeForLong'),
+      tag: 'zenfocus-phase',
+      actions: started ? [] : [
+        { action: 'start-next', title: t(nextMode === 'focus' ? 'notify.startFocus' : 'notify.startBreak') },
+        { action: 'snooze', title: t('notify.snooze', { minutes: SNOOZE_MINUTES }) },
+      ],
+    });
+  };
+
+  const handleNotificationAction = (action: NotificationAction) => {
+    setSnoozeUntil(() => action === 'snooze' ? Date.now() + SNOOZE_MINUTES * 60_000 : null);
+    if (action === 'start-next' && !isActive) toggleTimer();
+  };
+
+  useNotificationActions(handleNotificationAction);
+
+  // A snoozed prompt comes back unless the next session was started meanwhile
+  const remindSnoozed = useEffectEvent(() => {
+    setSnoozeUntil(null);
+    if (!isActive) notifyPhaseEnd(t('notify.reminder'), timerMode, false);
+  });
+
+  useEffect(() => {
+    if (snoozeUntil === null) return;
+    const id = window.setTimeout(remindSnoozed, Math.max(0, snoozeUntil - Date.now()));
+    return () => window.clearTimeout(id);
+  }, [snoozeUntil]);
+
+  usePreEndWarnings(timeLeft, isActive, notificationSettings.warnings, (minutes) => notify({
+    title: t('notify.minutesLeft', { count: minutes }),
+    body: timerMode === 'focus' && activeTask ? t('notify.wrapUp', { task: activeTask.text }) : t('notify.almostOver', { mode: MODES[timerMode].label }),
+    tag: 'zenfocus-warning',
+  }));
+
+  const saveSettings = (next: TimerSettings, nextAi: AISettings, nextNotifications: NotificationSettings) => {
+    setSettings(next);
+    setAiSettings(nextAi);
+    setNotificationSettings(nextNotifications);
+    // Only an untouched timer picks up the new duration; a running session or template sequence keeps its plan
+    if (!session && !runningSequence) timer.load(timerMode, modeSeconds(next, timerMode));
+  };
+
+  // --- Import / Export ---
+  const exportData = (format: ExportFormat) => {
+    const now = new Date();
+    const stamp = toDateKey(now.getTime());
+    switch (format) {
+      case 'json':
+        return downloadFile(`zenfocus-backup-${stamp}.json`, serializeBackup(snapshot, now), 'application/json');
+      case 'markdown':
+        return downloadFile(`zenfocus-tasks-${stamp}.md`, tasksToMarkdown(tasks), 'text/markdown');
+      case 'csv':
+        return downloadFile(`zenfocus-history-${stamp}.csv`, historyToCsv(history), 'text/csv');
+      case 'ics': {
+        const blocks = planFocusBlocks(tasks, settings, nextQuarterHour(now.getTime()), completedFocus, task => t('export.icsTitle', { task: task.text }));
+        return downloadFile(`zenfocus-plan-${stamp}.ics`, blocksToIcs(blocks, now.getTime()), 'text/calendar');
+      }
+    }
+  };
+
+  const importData = async (file: File) => {
+    const result = importFile(file.name, await file.text(), snapshot, () => Date.now() + Math.random());
+    const next = result.snapshot;
+    setTasks(next.tasks);
+    setProjects(next.projects);
+    setTemplates(next.templates);
+    addSessions(next.history);
+    setSettings(next.settings);
+    setAiSettings(next.aiSettings);
+    setSoundEnabled(next.soundEnabled);
+    setThemeSettings(next.theme);
+    return result;
+  };
 
   const resetTimer = () => {
-    setIsActive(false);
-    setTimeLeft(MODES[timerMode].time);
+    room.shareTimer();
+    logSession('abandoned', timer.load(timerMode, MODES[timerMode].time));
   };
 
   // --- Task Handlers ---
+  // New tasks land in the project and tag being viewed, plus any typed #tags and !priority
   const addTask = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTask.trim()) return;
-    setTasks([...tasks, { id: Date.now(), text: newTask, completed: false, subtasks: [], isExpanded: false }]);
+    const { text, tags, priority } = parseTaskInput(newTask);
+    if (taskView.tag && !tags.includes(taskView.tag)) tags.push(taskView.tag);
+    const task: Task = {
+      id: Date.now(),
+      text,
+      completed: false,
+      subtasks: [],
+      isExpanded: false,
+      projectId: typeof taskView.project === 'number' ? taskView.project : undefined,
+      tags: tags.length ? tags : undefined,
+      priority,
+    };
+    setTasks(prev => [...prev, task]);
     setNewTask('');
   };
 
   const toggleTask = (id: number) => {
-    setTasks(tasks.map(t => t.id === id ? { ...t, completed: !t.completed } : t));
+    const task = tasks.find(t => t.id === id);
+    setTasks(prev => updateTask(prev, id, t => ({ ...t, completed: !t.completed })));
+    if (!task || task.completed) return;
+
+    setPinnedTaskId(prev => prev === id ? null : prev);
+    // Finishing the task we're focusing on mid-session: ask what to pick up next
+    if (id === activeTask?.id && isActive && timerMode === 'focus') setFinishedTask(task);
+  };
+
+  const pinTask = (id: number) => {
+    setPinnedTaskId(prev => prev === id ? null : id);
+  };
+
+  // The running session stays credited to the task it started on
+  const pickNextTask = (id: number) => {
+    setPinnedTaskId(id);
+    setFinishedTask(null);
+  };
+
+  const setEstimate = (id: number, estimatedPomodoros: number) => {
+    setTasks(prev => updateTask(prev, id, t => ({ ...t, estimatedPomodoros: estimatedPomodoros || undefined })));
   };
 
   const toggleSubtask = (taskId: number, subtaskId: number) => {
-    setTasks(tasks.map(t => {
-      if (t.id !== taskId) return t;
-      return {
-        ...t,
-        subtasks: t.subtasks?.map(st => st.id === subtaskId ? { ...st, completed: !st.completed } : st)
-      };
-    }));
+    setTasks(prev => updateSubtasks(prev, taskId, subtasks => subtasks.map(st => st.id === subtaskId ? { ...st, completed: !st.completed } : st)));
+  };
+
+  const renameTask = (id: number, text: string) => {
+    setTasks(prev => updateTask(prev, id, t => ({ ...t, text })));
+  };
+
+  const updateTaskFields = (id: number, changes: Partial<Task>) => {
+    setTasks(prev => updateTask(prev, id, t => ({ ...t, ...changes })));
+  };
+
+  // Order in "Current Priorities" decides which task is active. Indexes come from the
+  // filtered list, so the move lands next to the task shown at that spot; sorted views have no manual order.
+  const moveTask = (id: number, toIndex: number) => {
+    if (taskView.sort !== 'manual') return;
+    const target = visibleTasks[toIndex];
+    if (!target) return;
+    setTasks(prev => moveItem(prev, prev.findIndex(t => t.id === id), prev.findIndex(t => t.id === target.id)));
+  };
+
+  const addSubtask = (taskId: number, text: string) => {
+    setTasks(prev => updateTask(prev, taskId, t => ({
+      ...t,
+      subtasks: [...(t.subtasks || []), { id: Date.now(), text, completed: false }],
+      isExpanded: true,
+    })));
+  };
+
+  const renameSubtask = (taskId: number, subtaskId: number, text: string) => {
+    setTasks(prev => updateSubtasks(prev, taskId, subtasks => subtasks.map(st => st.id === subtaskId ? { ...st, text } : st)));
+  };
+
+  const deleteSubtask = (taskId: number, subtaskId: number) => {
+    setTasks(prev => updateSubtasks(prev, taskId, subtasks => removeSubtask(subtasks, subtaskId)));
+  };
+
+  const moveSubtask = (taskId: number, subtaskId: number, toIndex: number) => {
+    setTasks(prev => updateSubtasks(prev, taskId, subtasks => moveItem(subtasks, subtasks.findIndex(st => st.id === subtaskId), toIndex)));
+  };
+
+  const promoteToTask = (taskId: number, subtaskId: number) => {
+    setTasks(prev => promoteSubtask(prev, taskId, subtaskId, () => Date.now()));
   };
 
   const deleteTask = (id: number) => {
-    setTasks(tasks.filter(t => t.id !== id));
+    setTasks(prev => prev.filter(t => t.id !== id));
+    setPinnedTaskId(prev => prev === id ? null : prev);
   };
 
   const toggleExpand = (id: number) => {
-    setTasks(tasks.map(t => t.id === id ? { ...t, isExpanded: !t.isExpanded } : t));
+    setTasks(prev => updateTask(prev, id, t => ({ ...t, isExpanded: !t.isExpanded })));
+  };
+
+  // --- Projects & Archive ---
+  const addProject = (name: string) => {
+    const id = Date.now();
+    setProjects(prev => [...prev, { id, name, color: PROJECT_COLORS[prev.length % PROJECT_COLORS.length] }]);
+    setTaskView(prev => ({ ...prev, project: id }));
+  };
+
+  const renameProject = (id: number, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  // Tasks outlive their project and fall back to the Inbox
+  const deleteProject = (id: number) => {
+    setProjects(prev => prev.filter(p => p.id !== id));
+    setTasks(prev => prev.map(t => t.projectId === id ? { ...t, projectId: undefined } : t));
+    setTaskView(prev => prev.project === id ? { ...prev, project: 'all' } : prev);
+  };
+
+  const archiveDone = () => {
+    setTasks(prev => archiveCompleted(prev, Date.now()));
+  };
+
+
+  const snapshot: AppSnapshot = { tasks, projects, templates, history, settings, aiSettings, soundEnabled, theme: themeSettings };
+
+  // --- Keyboard ---
+  // j/k move a selection through the list; task shortcuts act on it, or on the active task
+  const targetTask = tasks.find(t => t.id === selectedTaskId) || activeTask;
+
+  const moveSelection = (step: number) => {
+    if (visibleTasks.length === 0) return;
+    const current = visibleTasks.findIndex(t => t.id === targetTask?.id);
+    const next = current < 0 ? 0 : Math.max(0, Math.min(visibleTasks.length - 1, current + step));
+    setSelectedTaskId(visibleTasks[next].id);
   };
 
-  const activeTask = tasks.find(t => !t.completed);
+  const focusNewTask = () => {
+    setZenMode(false);
+    newTaskInput.current?.focus();
+  };
+
+  const shortcutHandlers: Record<ShortcutAction, () => void> = {
+    toggleTimer,
+    reset: resetTimer,
+    focusMode: () => switchMode('focus'),
+    shortMode: () => switchMode('short'),
+    longMode: () => switchMode('long'),
+    zen: () => setZenMode(z => !z),
+    newTask: focusNewTask,
+    nextTask: () => moveSelection(1),
+    prevTask: () => moveSelection(-1),
+    completeTask: () => targetTask && !targetTask.completed && toggleTask(targetTask.id),
+    pinTask: () => targetTask && !targetTask.completed && pinTask(targetTask.id),
+    breakdown: () => targetTask && !targetTask.completed && handleSmartBreakdown(targetTask.id, targetTask.text),
+    distraction: () => zenMode ? zenCaptureInput.current?.focus() : setShowCapture(true),
+    palette: () => setShowPalette(open => !open),
+    help: () => setShowHelp(true),
+  };
+
+  const overlayOpen = showPalette || showHelp || showSettings || showSounds || showStats || showArchive || showTemplates || dayView !== null || showCapture || reviewingDistractions || finishedTask !== null;
+  useShortcuts(bindings, shortcutHandlers, { enabled: !overlayOpen, always: ['palette'] });
+
+  const command = (action: ShortcutAction, label = t(`shortcut.${action}`)): PaletteItem => ({
+    id: action,
+    label,
+    group: 'commands',
+    hint: formatCombo(bindings[action]),
+    run: () => shortcutHandlers[action](),
+  });
+
+  // Selection-driven actions read better in the palette when they name their task
+  const paletteCommands: PaletteItem[] = [
+    ...(['toggleTimer', 'reset', 'focusMode', 'shortMode', 'longMode', 'zen', 'newTask', 'distraction', 'help'] as const).map(action => command(action)),
+    ...(targetTask && !targetTask.completed ? [
+      command('breakdown', t('palette.breakdown', { task: targetTask.text })),
+      command('completeTask', t('palette.complete', { task: targetTask.text })),
+    ] : []),
+    { id: 'stats', label: t('palette.stats'), group: 'commands', run: () => setShowStats(true) },
+    { id: 'settings', label: t('palette.settings'), group: 'commands', run: () => setShowSettings(true) },
+    { id: 'soundscape', label: t('palette.soundscape'), group: 'commands', run: () => setShowSounds(true) },
+    { id: 'sound', label: t(soundEnabled ? 'header.mute' : 'header.unmute'), group: 'commands', run: () => setSoundEnabled(prev => !prev) },
+    { id: 'coach', label: t('palette.coach'), group: 'commands', run: getZenCoachTip },
+    { id: 'plan', label: t('palette.plan'), group: 'commands', run: () => setDayView('plan') },
+    { id: 'review', label: t('palette.review'), group: 'commands', run: () => setDayView('review') },
+    { id: 'templates', label: t('palette.templates'), group: 'commands', run: () => setShowTemplates(true) },
+    { id: 'room', label: t('palette.room'), group: 'commands', run: () => setShowRoom(true) },
+    ...(runningSequence ? [{ id: 'stop-sequence', label: t('palette.stopSequence', { name: runningSequence.name }), group: 'commands' as const, run: stopSequence }] : []),
+    { id: 'archive', label: t('palette.archive'), group: 'commands', run: archiveDone },
+    { id: 'mini', label: t('header.mini'), group: 'commands', run: mini.open },
+    { id: 'skip', label: t('palette.skip'), group: 'commands', run: skipPhase },
+  ];
+  const paletteItems: PaletteItem[] = [
+    ...paletteCommands,
+    ...templates.map(template => ({
+      id: `template-${template.id}`,
+      label: template.name,
+      group: 'templates' as const,
+      hint: template.sequence ? formatSequence(template.sequence) : t('palette.start'),
+      run: () => startTemplate(template),
+    })),
+    ...tasks.filter(task => !task.completed).map(task => ({
+      id: `task-${task.id}`,
+      label: task.text,
+      group: 'tasks' as const,
+      hint: t('palette.focusOn'),
+      run: () => {
+        setPinnedTaskId(task.id);
+        setSelectedTaskId(task.id);
+      },
+    })),
+  ];
 
   // --- Render Helpers ---
-  const progress = 100 - (timeLeft / MODES[timerMode].time) * 100;
+  const progress = 100 - (timeLeft / timer.plannedSeconds) * 100;
+  useFavicon(progress / 100, MODES[timerMode].accent, isActive, notificationSettings.favicon);
+  const cycleLabel = `${cyclePosition(timerMode, completedFocus, cycleSettings)}/${cycleSettings.longBreakInterval}`;
 
   return (
+    <I18nContext value={i18n}>
     <div className={`min-h-screen bg-slate-950 text-slate-200 font-sans selection:bg-emerald-500/30 selection:text-emerald-200 transition-all duration-700 ${zenMode ? 'overflow-hidden' : ''}`}>
 
       {/* Background Ambient Glow */}
@@ -291,18 +782,71 @@ export default function App() {
             </h1>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" onClick={getZenCoachTip} disabled={isCoachLoading}>
+            <Button variant="ghost" onClick={() => setShowStats(true)} label={t('header.stats')}>
+              <BarChart3 size={20} />
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={getZenCoachTip}
+              disabled={isCoachLoading || !aiAvailable}
+              title={t(aiAvailable ? 'header.coach' : 'header.coachOffline')}
+              label={t('header.coach')}
+            >
               {isCoachLoading ? <Loader2 className="animate-spin" size={20} /> : <Lightbulb size={20} />}
             </Button>
-            <Button variant="ghost" onClick={() => setSoundEnabled(!soundEnabled)}>
+            <Button variant="ghost" onClick={() => setShowTemplates(true)} title={t('header.templates')} label={t('header.templates')}>
+              <LayoutTemplate size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setShowRoom(true)} title={t('header.room')} label={t('header.room')}>
+              <Users size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setDayView('plan')} title={t('header.plan')} label={t('header.plan')}>
+              <CalendarClock size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setShowSettings(true)} label={t('header.settings')}>
+              <Settings size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setShowSounds(true)} title={t('header.soundscape')} label={t('header.soundscape')}>
+              <Headphones size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setSoundEnabled(prev => !prev)} label={t(soundEnabled ? 'header.mute' : 'header.unmute')}>
               {soundEnabled ? <Volume2 size={20} /> : <VolumeX size={20} />}
             </Button>
-            <Button variant="ghost" onClick={() => setZenMode(true)}>
+            <Button variant="ghost" onClick={() => setShowHelp(true)} title={t('header.shortcuts', { combo: formatCombo(bindings.help) })} label={t('shortcut.help')}>
+              <Keyboard size={20} />
+            </Button>
+            <Button variant="ghost" onClick={mini.open} title={t('header.mini')} label={t('header.mini')}>
+              <PictureInPicture2 size={20} />
+            </Button>
+            <Button variant="ghost" onClick={() => setZenMode(true)} label={t('header.zen')}>
               <Maximize2 size={20} />
             </Button>
           </div>
         </header>
 
+        {/* Update Prompt */}
+        {updateReady && !zenMode && (
+          <div className="mb-8 p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-xl flex items-center gap-3 animate-in fade-in slide-in-from-top-4">
+            <RefreshCw className="text-emerald-400 flex-shrink-0" size={18} />
+            <p className="flex-1 text-sm text-emerald-200">{t('banner.update')}</p>
+            <Button variant="ghost" onClick={applyUpdate} className="text-sm py-1">
+              {t('banner.reload')}
+            </Button>
+          </div>
+        )}
+
+        {/* Offline Banner */}
+        {!isOnline && !zenMode && (
+          <div className="mb-8 p-4 bg-slate-800/40 border border-slate-700/50 rounded-xl flex items-start gap-3 animate-in fade-in slide-in-from-top-4">
+            <WifiOff className="text-slate-400 flex-shrink-0 mt-0.5" size={18} />
+            <p className="flex-1 text-sm text-slate-300">
+              {aiAvailable ? t('banner.offline') : breakdownQueue.length > 0
+                ? t('banner.offlineQueued', { count: breakdownQueue.length })
+                : t('banner.offlineWaiting')}
+            </p>
+          </div>
+        )}
+
         {/* Coach Tip Banner */}
         {coachTip && !zenMode && (
           <div className="mb-8 p-4 bg-gradient-to-r from-violet-500/10 to-fuchsia-500/10 border border-violet-500/20 rounded-xl flex items-start gap-3 animate-in fade-in slide-in-from-top-4">
@@ -310,7 +854,18 @@ export default function App() {
             <div className="flex-1">
               <p className="text-sm text-violet-200 font-medium italic">"{coachTip}"</p>
             </div>
-            <button onClick={() => setCoachTip(null)} className="text-slate-500 hover:text-slate-300">
+            <button onClick={() => setCoachTip(null)} className="text-slate-500 hover:text-slate-300" aria-label={t('banner.dismiss')}>
+              <Minimize2 size={14} />
+            </button>
+          </div>
+        )}
+
+        {/* AI Error Banner */}
+        {aiError && !zenMode && (
+          <div className="mb-8 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-start gap-3 animate-in fade-in slide-in-from-top-4">
+            <AlertTriangle className="text-rose-400 flex-shrink-0 mt-0.5" size={18} />
+            <p className="flex-1 text-sm text-rose-200">{aiError}</p>
+            <button onClick={() => setAiError(null)} className="text-slate-500 hover:text-slate-300" aria-label={t('banner.dismiss')}>
               <Minimize2 size={14} />
             </button>
           </div>
@@ -322,7 +877,7 @@ export default function App() {
           {/* Timer Circle */}
           <div className="relative group mb-12">
             {/* Outer Glow */}
-            <div className={`absolute -inset-4 bg-gradient-to-r from-emerald-500 to-cyan-500 rounded-full blur opacity-20 transition duration-1000 ${isActive ? 'animate-pulse' : ''}`}></div>
+            <div className={`absolute -inset-4 bg-gradient-to-r from-emerald-500 to-cyan-500 rounded-full blur opacity-20 transition duration-1000 ${isActive ? 'animate-pulse motion-reduce:animate-none' : ''}`}></div>
 
             <div className="relative w-72 h-72 rounded-full bg-slate-900 border-4 border-slate-800 flex flex-col items-center justify-center shadow-2xl">
               {/* Progress Ring SVG */}
@@ -342,37 +897,74 @@ export default function App() {
                 />
               </svg>
 
-              <span className={`text-6xl font-mono font-bold tracking-tighter mb-2 ${isActive ? 'text-slate-100' : 'text-slate-400'}`}>
+              {/* Screen readers hear milestones here, not every tick */}
+              <div role="status" aria-live="polite" className="sr-only">
+                {timerAnnouncement({ mode: timerMode, isActive, secondsLeft: timeLeft, plannedSeconds: timer.plannedSeconds }, t)}
+              </div>
+
+              <span aria-hidden="true" className={`text-6xl font-mono font-bold tracking-tighter mb-2 ${isActive ? 'text-slate-100' : 'text-slate-400'}`}>
                 {formatTime(timeLeft)}
               </span>
               <span className={`text-sm font-medium uppercase tracking-widest ${MODES[timerMode].color} bg-slate-800/50 px-3 py-1 rounded-full`}>
-                {isActive ? 'Flowing' : 'Paused'}
+                {t(isActive ? 'timer.flowing' : 'timer.paused')}
+              </span>
+              <span className="absolute bottom-12 text-xs font-mono text-slate-500" title={t('timer.cycleHint')}>
+                {t('timer.cycle', { position: cycleLabel })}
               </span>
+              {totalInterruptions(sessionInterruptions) > 0 && (
+                <span className="absolute top-12 text-xs font-mono text-amber-400/80" title={formatInterruptions(sessionInterruptions, t)}>
+                  {t('timer.interrupted', { count: totalInterruptions(sessionInterruptions) })}
+                </span>
+              )}
             </div>
           </div>
 
           {/* Controls */}
           <div className={`flex flex-col items-center gap-8 w-full transition-all duration-500 ${zenMode ? 'opacity-0 scale-95 pointer-events-none absolute bottom-0' : 'opacity-100'}`}>
 
+            {/* Running Template Sequence */}
+            {runningSequence && (
+              <div className="-mb-4 flex items-center gap-2 text-xs text-slate-400 bg-slate-900/50 border border-slate-800 rounded-full pl-3 pr-1 py-1">
+                <LayoutTemplate size={12} className="text-emerald-400" />
+                {runningSequence.name} · {formatSequence(runningSequence.sequence)}
+                <button onClick={stopSequence} className="p-1 text-slate-500 hover:text-rose-400" title={t('sequence.stop')} aria-label={t('sequence.stop')}>
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+
+            {/* Focus Room */}
+            {roomSettings.code && (
+              <button
+                onClick={() => setShowRoom(true)}
+                className="-mb-4 flex items-center gap-2 text-xs text-slate-400 bg-slate-900/50 border border-slate-800 rounded-full px-3 py-1 hover:text-slate-200"
+              >
+                <Users size={12} className={room.status === 'connected' ? 'text-emerald-400' : 'text-amber-400 animate-pulse motion-reduce:animate-none'} />
+                {room.status === 'connected'
+                  ? t('room.chip', { code: roomSettings.code, count: room.members.length })
+                  : t('room.connecting', { code: roomSettings.code })}
+              </button>
+            )}
+
             {/* Timer Toggles */}
-            <div className="flex bg-slate-900/50 p-1.5 rounded-2xl border border-slate-800 backdrop-blur-sm">
-              <button onClick={() => switchMode('focus')} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'focus' ? 'bg-slate-800 text-emerald-400 shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
-                <div className="flex items-center gap-2"><Brain size={16} /> Focus</div>
+            <div role="group" aria-label={t('timer.modes')} className="flex bg-slate-900/50 p-1.5 rounded-2xl border border-slate-800 backdrop-blur-sm">
+              <button onClick={() => switchMode('focus')} aria-pressed={timerMode === 'focus'} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'focus' ? 'bg-slate-800 text-mode-focus shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
+                <div className="flex items-center gap-2"><Brain size={16} /> {t('tab.focus')}</div>
               </button>
-              <button onClick={() => switchMode('short')} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'short' ? 'bg-slate-800 text-cyan-400 shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
-                <div className="flex items-center gap-2"><Coffee size={16} /> Short Break</div>
+              <button onClick={() => switchMode('short')} aria-pressed={timerMode === 'short'} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'short' ? 'bg-slate-800 text-mode-short shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
+                <div className="flex items-center gap-2"><Coffee size={16} /> {t('tab.short')}</div>
               </button>
-              <button onClick={() => switchMode('long')} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'long' ? 'bg-slate-800 text-indigo-400 shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
-                <div className="flex items-center gap-2"><Moon size={16} /> Long Break</div>
+              <button onClick={() => switchMode('long')} aria-pressed={timerMode === 'long'} className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${timerMode === 'long' ? 'bg-slate-800 text-mode-long shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>
+                <div className="flex items-center gap-2"><Moon size={16} /> {t('tab.long')}</div>
               </button>
             </div>
 
             {/* Main Actions */}
             <div className="flex gap-4">
               <Button onClick={toggleTimer} className="w-32 justify-center py-4 text-lg">
-                {isActive ? <><Pause fill="currentColor" /> Pause</> : <><Play fill="currentColor" /> Start</>}
+                {isActive ? <><Pause fill="currentColor" /> {t('timer.pause')}</> : <><Play fill="currentColor" /> {t('timer.start')}</>}
               </Button>
-              <Button variant="secondary" onClick={resetTimer} className="w-16 justify-center">
+              <Button variant="secondary" onClick={resetTimer} className="w-16 justify-center" label={t('timer.reset')}>
                 <RotateCcw size={20} />
               </Button>
             </div>
@@ -380,91 +972,77 @@ export default function App() {
             {/* Tasks Section */}
             <div className="w-full max-w-md mt-8">
               <div className="flex items-center justify-between mb-4">
-                <h2 className="text-slate-400 text-sm font-semibold uppercase tracking-wider">Current Priorities</h2>
-                <span className="text-slate-600 text-xs">{tasks.filter(t => t.completed).length}/{tasks.length} Done</span>
+                <h2 className="text-slate-400 text-sm font-semibold uppercase tracking-wider">{t('tasks.heading')}</h2>
+                <span className="text-slate-600 text-xs">{t('tasks.done', { done: visibleTasks.filter(task => task.completed).length, total: visibleTasks.length })}</span>
               </div>
 
+              <TaskFilters
+                view={taskView}
+                projects={projects}
+                tags={allTags(tasks)}
+                completedCount={tasks.filter(t => t.completed && !t.archivedAt).length}
+                archivedCount={archivedTasks.length}
+                onViewChange={setTaskView}
+                onAddProject={addProject}
+                onRenameProject={renameProject}
+                onDeleteProject={deleteProject}
+                onArchiveCompleted={archiveDone}
+                onShowArchive={() => setShowArchive(true)}
+              />
+
               <form onSubmit={addTask} className="relative mb-6 group">
                 <input
+                  ref={newTaskInput}
                   type="text"
                   value={newTask}
                   onChange={(e) => setNewTask(e.target.value)}
-                  placeholder="What are you working on?"
+                  placeholder={t('tasks.placeholder')}
+                  aria-label={t('tasks.placeholder')}
                   className="w-full bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 pr-12 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/50 transition-all"
                 />
-                <button type="submit" className="absolute right-2 top-2 p-1.5 bg-slate-800 text-slate-400 rounded-lg hover:text-emerald-400 transition-colors">
+                <button type="submit" aria-label={t('tasks.add')} className="absolute right-2 top-2 p-1.5 bg-slate-800 text-slate-400 rounded-lg hover:text-emerald-400 transition-colors">
                   <Plus size={20} />
                 </button>
               </form>
 
               <div className="space-y-3">
-                {tasks.length === 0 && (
+                {visibleTasks.length === 0 && (
                   <div className="text-center py-8 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-xl">
-                    No tasks yet. Add one to start flowing.
+                    {t(tasks.length === archivedTasks.length ? 'tasks.empty' : 'tasks.filteredEmpty')}
                   </div>
                 )}
-                {tasks.map(task => (
-                  <div key={task.id} className="flex flex-col gap-2">
-                    <div
-                      className={`group flex items-center gap-3 p-4 rounded-xl border transition-all duration-300 ${task.completed
-                        ? 'bg-slate-900/30 border-slate-900 text-slate-600'
-                        : 'bg-slate-800/40 border-slate-700/50 text-slate-200 hover:border-emerald-500/30'
-                        }`}
-                    >
-                      <button
-                        onClick={() => toggleExpand(task.id)}
-                        className={`text-slate-500 hover:text-slate-300 transition-transform ${task.isExpanded ? 'rotate-90' : ''}`}
-                      >
-                        {task.subtasks && task.subtasks.length > 0 ? <ChevronRight size={16} /> : <div className="w-4" />}
-                      </button>
-
-                      <button
-                        onClick={() => toggleTask(task.id)}
-                        className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${task.completed ? 'border-emerald-900 bg-emerald-900/20 text-emerald-700' : 'border-slate-600 hover:border-emerald-500 text-transparent'
-                          }`}
-                      >
-                        <Check size={14} strokeWidth={3} />
-                      </button>
-
-                      <span className={`flex-1 text-sm ${task.completed ? 'line-through' : ''}`}>{task.text}</span>
-
-                      {!task.completed && (
-                        <button
-                          onClick={() => handleSmartBreakdown(task.id, task.text)}
-                          disabled={loadingTaskId === task.id}
-                          className="opacity-0 group-hover:opacity-100 p-2 text-violet-400 hover:bg-violet-500/10 rounded-lg transition-all"
-                          title="Auto-generate subtasks with Gemini"
-                        >
-                          {loadingTaskId === task.id ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
-                        </button>
-                      )}
-
-                      <button
-                        onClick={() => deleteTask(task.id)}
-                        className="opacity-0 group-hover:opacity-100 p-2 text-slate-500 hover:text-rose-400 transition-all"
-                      >
-                        <Trash2 size={16} />
-                      </button>
-                    </div>
-
-                    {/* Subtasks List */}
-                    {task.isExpanded && task.subtasks && task.subtasks.length > 0 && (
-                      <div className="pl-12 pr-4 space-y-2 animate-in slide-in-from-top-2">
-                        {task.subtasks.map(st => (
-                          <div key={st.id} className="flex items-center gap-3 text-sm text-slate-400">
-                            <button
-                              onClick={() => toggleSubtask(task.id, st.id)}
-                              className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center transition-all ${st.completed ? 'border-emerald-900 bg-emerald-900/20 text-emerald-700' : 'border-slate-600 hover:border-emerald-500 text-transparent'
-                                }`}
-                            >
-                              <Check size={10} strokeWidth={3} />
-                            </button>
-                            <span className={st.completed ? 'line-through opacity-50' : ''}>{st.text}</span>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </div>
+                {visibleTasks.map((task, index) => (
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    index={index}
+                    focusMinutes={settings.durations.focus}
+                    isBreakingDown={loadingTaskId === task.id}
+                    isQueued={breakdownQueue.includes(task.id)}
+                    isActive={task.id === activeTask?.id}
+                    isPinned={task.id === pinnedTaskId}
+                    isSelected={task.id === selectedTaskId}
+                    projects={projects}
+                    showProject={taskView.project === 'all'}
+                    today={today}
+                    onUpdate={(changes) => updateTaskFields(task.id, changes)}
+                    onTagClick={(tag) => setTaskView(prev => ({ ...prev, tag }))}
+                    onSaveTemplate={() => saveTemplate(task)}
+                    onPin={() => pinTask(task.id)}
+                    onEstimateChange={(estimated) => setEstimate(task.id, estimated)}
+                    onToggle={() => toggleTask(task.id)}
+                    onToggleExpand={() => toggleExpand(task.id)}
+                    onDelete={() => deleteTask(task.id)}
+                    onBreakdown={() => handleSmartBreakdown(task.id, task.text)}
+                    onRename={(text) => renameTask(task.id, text)}
+                    onMove={moveTask}
+                    onAddSubtask={(text) => addSubtask(task.id, text)}
+                    onToggleSubtask={(subtaskId) => toggleSubtask(task.id, subtaskId)}
+                    onRenameSubtask={(subtaskId, text) => renameSubtask(task.id, subtaskId, text)}
+                    onDeleteSubtask={(subtaskId) => deleteSubtask(task.id, subtaskId)}
+                    onMoveSubtask={(subtaskId, toIndex) => moveSubtask(task.id, subtaskId, toIndex)}
+                    onPromoteSubtask={(subtaskId) => promoteToTask(task.id, subtaskId)}
+                  />
                 ))}
               </div>
             </div>
@@ -472,10 +1050,159 @@ export default function App() {
         </main>
       </div>
 
+      {/* Statistics Dashboard */}
+      {showStats && <StatsDashboard history={history} tasks={tasks} projects={projects} onClose={() => setShowStats(false)} />}
+
+      {/* Templates */}
+      {showTemplates && (
+        <TemplatesPanel
+          templates={templates}
+          focusMinutes={settings.durations.focus}
+          onStart={startTemplate}
+          onUpdate={updateTemplate}
+          onDelete={deleteTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {/* Focus Room */}
+      {showRoom && (
+        <RoomPanel
+          settings={roomSettings}
+          status={room.status}
+          members={room.members}
+          memberId={room.memberId}
+          error={room.error}
+          onJoin={setRoomSettings}
+          onLeave={() => setRoomSettings(prev => ({ ...prev, code: null }))}
+          onClose={() => setShowRoom(false)}
+        />
+      )}
+
+      {/* Archive */}
+      {showArchive && (
+        <ArchivePanel
+          tasks={archivedTasks}
+          projects={projects}
+          onRestore={(id) => setTasks(prev => restoreTask(prev, id))}
+          onDelete={deleteTask}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
+      {/* Settings Panel */}
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          aiSettings={aiSettings}
+          notifications={notificationSettings}
+          onSave={saveSettings}
+          onExport={exportData}
+          onImport={importData}
+          locale={localeSetting}
+          onLocaleChange={setLocaleSetting}
+          theme={themeSettings}
+          accents={accents}
+          onThemeChange={setThemeSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Daily Planning & Review */}
+      {dayView && (
+        <DayPlanner
+          initialView={dayView}
+          tasks={tasks}
+          history={history}
+          settings={settings}
+          completedFocus={completedFocus}
+          error={aiError}
+          aiAvailable={aiAvailable}
+          onPlan={planDay}
+          onReview={reviewDay}
+          onAcceptPlan={acceptPlan}
+          onCarryOver={carryOver}
+          onClose={() => setDayView(null)}
+        />
+      )}
+
+      {/* Soundscape */}
+      {showSounds && (
+        <SoundPanel
+          settings={soundSettings}
+          currentMode={timerMode}
+          previewMode={previewMode}
+          onChange={setSoundSettings}
+          onPreview={setPreviewMode}
+          onTestChime={soundscape.chime}
+          onClose={() => setShowSounds(false)}
+        />
+      )}
+
+      {/* Keyboard Shortcuts */}
+      {showHelp && (
+        <ShortcutHelp
+          bindings={bindings}
+          onRebind={(action, combo) => setBindings(prev => rebind(prev, action, combo))}
+          onReset={() => setBindings(DEFAULT_BINDINGS)}
+          onClose={() => setShowHelp(false)}
+        />
+      )}
+
+      {/* Command Palette */}
+      {showPalette && <CommandPalette items={paletteItems} onClose={() => setShowPalette(false)} />}
+
+      {/* Distraction Capture & Review */}
+      {showCapture && (
+        <DistractionDialog
+          sessionCount={totalInterruptions(sessionInterruptions)}
+          onCapture={captureDistraction}
+          onClose={() => setShowCapture(false)}
+        />
+      )}
+      {reviewingDistractions && pendingDistractions.length > 0 && (
+        <DistractionReview
+          distractions={pendingDistractions}
+          onConvert={convertDistractions}
+          onLater={() => setReviewingDistractions(false)}
+        />
+      )}
+
+      {/* Next Task Prompt */}
+      {finishedTask && (
+        <NextTaskPrompt
+          finished={finishedTask}
+          candidates={tasks.filter(t => !t.completed && t.id !== finishedTask.id)}
+          onPick={pickNextTask}
+          onDismiss={() => setFinishedTask(null)}
+        />
+      )}
+
+      {/* Pop-out Mini Timer */}
+      {mini.miniWindow && createPortal(
+        <MiniTimer
+          time={formatTime(timeLeft)}
+          progress={progress}
+          label={MODES[timerMode].label}
+          colorClass={MODES[timerMode].color}
+          isActive={isActive}
+          task={activeTask}
+          onToggle={toggleTimer}
+          onSkip={skipPhase}
+        />,
+        mini.miniWindow.document.body,
+      )}
+
       {/* Zen Mode Overlay */}
       {zenMode && (
-        <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col items-center justify-center animate-in fade-in duration-500">
-          <Button variant="ghost" onClick={() => setZenMode(false)} className="absolute top-8 right-8">
+        <div
+          ref={zenOverlay}
+          role="dialog"
+          aria-modal="true"
+          aria-label={t('zen.label')}
+          className="fixed inset-0 z-50 bg-slate-950 flex flex-col items-center justify-center animate-in fade-in duration-500"
+        >
+          <Button variant="ghost" onClick={() => setZenMode(false)} className="absolute top-8 right-8" label={t('zen.exit')}>
             <Minimize2 size={24} />
           </Button>
 
@@ -483,34 +1210,50 @@ export default function App() {
             <div className="relative w-96 h-96">
               <div className={`absolute inset-0 bg-emerald-500 rounded-full blur-[100px] transition-all duration-[4000ms] ${isActive ? 'opacity-20 scale-125' : 'opacity-5 scale-100'}`} />
               <div className="relative h-full flex flex-col items-center justify-center">
-                <div className="text-9xl font-bold text-slate-200 tracking-tighter mb-6">
+                <div className="text-9xl font-bold text-slate-200 tracking-tighter mb-2">
                   {formatTime(timeLeft)}
                 </div>
+                <div className={`text-sm font-medium uppercase tracking-widest mb-6 ${MODES[timerMode].color}`}>
+                  {MODES[timerMode].label} · {cycleLabel}
+                </div>
                 {activeTask ? (
-                  <div className="flex flex-col items-center gap-4 animate-pulse">
+                  <div className="flex flex-col items-center gap-4 animate-pulse motion-reduce:animate-none">
                     <div className="text-2xl text-emerald-400 font-medium max-w-2xl px-8 text-center">
                       "{activeTask.text}"
                     </div>
+                    <PomodoroCount
+                      completed={activeTask.completedPomodoros || 0}
+                      estimated={activeTask.estimatedPomodoros}
+                      className="text-sm"
+                    />
                     {activeTask.subtasks && activeTask.subtasks.some(st => !st.completed) && (
                       <div className="text-sm text-slate-500 bg-slate-900/50 px-4 py-2 rounded-full border border-slate-800">
-                        Next Step: {activeTask.subtasks.find(st => !st.completed)?.text}
+                        {t('zen.nextStep', { step: activeTask.subtasks.find(st => !st.completed)?.text ?? '' })}
                       </div>
                     )}
                   </div>
                 ) : (
-                  <div className="text-xl text-slate-500">No active task</div>
+                  <div className="text-xl text-slate-500">{t('zen.noTask')}</div>
                 )}
               </div>
             </div>
 
             <div className="flex gap-6 justify-center">
               <Button onClick={toggleTimer} className="w-40 py-4 text-xl shadow-2xl shadow-emerald-900/50">
-                {isActive ? 'Pause' : 'Focus'}
+                {t(isActive ? 'timer.pause' : 'timer.focus')}
               </Button>
             </div>
+
+            <div className="w-full max-w-md mx-auto">
+              <DistractionCapture inputRef={zenCaptureInput} onCapture={captureDistraction} />
+              {totalInterruptions(sessionInterruptions) > 0 && (
+                <p className="text-xs text-slate-600 mt-2">{t('zen.interruptions', { summary: formatInterruptions(sessionInterruptions, t) })}</p>
+              )}
+            </div>
           </div>
         </div>
       )}
     </div>
+    </I18nContext>
   );
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { X, RotateCcw, Trash2 } from 'lucide-react';
+import type { Project, Task } from '../types';
+import { formatDate } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface ArchivePanelProps {
+  tasks: Task[]; // archived only
+  projects: Project[];
+  onRestore: (id: number) => void;
+  onDelete: (id: number) => void;
+  onClose: () => void;
+}
+
+export const ArchivePanel = ({ tasks, projects, onRestore, onDelete, onClose }: ArchivePanelProps) => {
+  const { locale, t } = useI18n();
+  // Most recently archived first
+  const sorted = [...tasks].sort((a, b) => (b.archivedAt || 0) - (a.archivedAt || 0));
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('archive.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        {sorted.length === 0 ? (
+          <div className="text-center py-8 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-xl">
+            {t('archive.empty')}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {sorted.map(task => {
+              const project = projects.find(p => p.id === task.projectId);
+              return (
+                <li key={task.id} className="group flex items-center gap-3 p-3 rounded-xl bg-slate-900/60 border border-slate-800">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-slate-400 line-through truncate">{task.text}</div>
+                    <div className="text-xs text-slate-600">
+                      {project ? `${project.name} · ` : ''}
+                      {task.completedPomodoros ? `${t('archive.pomodoros', { count: task.completedPomodoros })} · ` : ''}
+                      {t('archive.archivedOn', { date: formatDate(task.archivedAt || 0, locale) })}
+                    </div>
+                  </div>
+                  <button onClick={() => onRestore(task.id)} className="p-2 text-slate-500 hover:text-emerald-400" title={t('archive.restore')} aria-label={t('archive.restore')}>
+                    <RotateCcw size={14} />
+                  </button>
+                  <button onClick={() => onDelete(task.id)} className="p-2 text-slate-500 hover:text-rose-400" title={t('archive.delete')} aria-label={t('archive.delete')}>
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import type { ReactNode } from 'react';
+
+type ButtonVariant = 'primary' | 'secondary' | 'ghost' | 'danger' | 'magic';
+
+interface ButtonProps {
+  onClick?: () => void;
+  children: ReactNode;
+  className?: string;
+  variant?: ButtonVariant;
+  disabled?: boolean;
+  title?: string;
+  label?: string; // accessible name, needed when the button only shows an icon
+  type?: 'button' | 'submit';
+}
+
+const variants: Record<ButtonVariant, string> = {
+  primary: "bg-emerald-500 hover:bg-emerald-400 text-slate-900 shadow-[0_0_15px_rgb(var(--color-emerald-500)/0.3)]",
+  secondary: "bg-slate-700 hover:bg-slate-600 text-slate-200",
+  ghost: "text-slate-400 hover:text-emerald-400 hover:bg-slate-800/50",
+  danger: "text-rose-400 hover:bg-rose-900/20 hover:text-rose-300",
+  magic: "bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white shadow-[0_0_15px_rgb(var(--color-violet-500)/0.3)]"
+};
+
+export const Button = ({ onClick, children, className = '', variant = 'primary', disabled = false, title, label, type = 'button' }: ButtonProps) => {
+  const baseStyle = "px-4 py-2 rounded-xl font-medium transition-all duration-200 flex items-center gap-2 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <button type={type} onClick={onClick} disabled={disabled} title={title} aria-label={label} className={`${baseStyle} ${variants[variant]} ${className}`}>
+      {children}
+    </button>
+  );
+};
@@ -0,0 +1,92 @@
+import { useState, type KeyboardEvent } from 'react';
+import { CornerDownLeft, Search } from 'lucide-react';
+import { fuzzyFilter } from '../lib/fuzzy';
+import { useI18n } from '../hooks/useI18n';
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  group: 'commands' | 'tasks' | 'templates';
+  hint?: string; // shortcut or short description shown on the right
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  onClose: () => void;
+}
+
+export const CommandPalette = ({ items, onClose }: CommandPaletteProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const results = fuzzyFilter(items, query, item => item.label);
+
+  const run = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKey = (e: KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected((selected + step + results.length) % Math.max(results.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] bg-slate-950/80 backdrop-blur-sm flex justify-center px-6 pt-[15vh] animate-in fade-in"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="w-full max-w-lg h-fit rounded-2xl bg-slate-900 border border-slate-800 shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-3 px-4 border-b border-slate-800">
+          <Search size={16} className="text-slate-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKey}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent py-4 text-slate-200 placeholder:text-slate-600 focus:outline-none"
+            role="combobox"
+            aria-expanded
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[selected] ? `command-${results[selected].id}` : undefined}
+          />
+        </div>
+
+        <ul id="command-palette-results" role="listbox" className="max-h-80 overflow-y-auto py-2">
+          {results.length === 0 && <li className="px-4 py-6 text-center text-sm text-slate-600">{t('palette.noMatch', { query })}</li>}
+          {results.map((item, i) => (
+            <li
+              key={item.id}
+              id={`command-${item.id}`}
+              role="option"
+              aria-selected={i === selected}
+              onMouseMove={() => setSelected(i)}
+              onClick={() => run(item)}
+              className={`flex items-center gap-3 px-4 py-2.5 text-sm cursor-pointer ${i === selected ? 'bg-slate-800 text-slate-100' : 'text-slate-400'}`}
+            >
+              <span className="text-[10px] uppercase tracking-wider text-slate-600 w-16 flex-shrink-0">{t(`palette.group.${item.group}`)}</span>
+              <span className="flex-1 truncate">{item.label}</span>
+              {item.hint && <kbd className="text-xs font-mono text-slate-500">{item.hint}</kbd>}
+              {i === selected && <CornerDownLeft size={14} className="text-emerald-400" />}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
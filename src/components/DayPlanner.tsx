@@ -0,0 +1,295 @@
+import { useMemo, useState } from 'react';
+import { X, Sparkles, Loader2, ChevronUp, ChevronDown, Minus, Plus, AlertTriangle } from 'lucide-react';
+import type { SessionRecord, Task, TimerSettings } from '../types';
+import {
+  focusCapacity, nextQuarterHour, scheduleEntries, summarizeDay,
+  type DayPlan, type DayReview, type DaySummary, type PlanEntry,
+} from '../lib/planning';
+import { addDays, formatDuration, startOfDay } from '../lib/stats';
+import { moveItem } from '../lib/tasks';
+import { formatClock } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+export type DayView = 'plan' | 'review';
+
+interface DayPlannerProps {
+  initialView: DayView;
+  tasks: Task[];
+  history: SessionRecord[];
+  settings: TimerSettings;
+  completedFocus: number;
+  error: string | null;
+  aiAvailable: boolean;
+  onPlan: (hours: number) => Promise<DayPlan | null>;
+  onReview: (day: DaySummary) => Promise<DayReview | null>;
+  onAcceptPlan: (entries: PlanEntry[]) => void;
+  onCarryOver: (taskIds: number[]) => void;
+  onClose: () => void;
+}
+
+const sectionTitle = "text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4";
+
+export const DayPlanner = ({
+  initialView, tasks, history, settings, completedFocus, error, aiAvailable,
+  onPlan, onReview, onAcceptPlan, onCarryOver, onClose,
+}: DayPlannerProps) => {
+  const { locale, t } = useI18n();
+  // Snapshot the clock once per opening, like the stats dashboard
+  const [now] = useState(() => Date.now());
+  const [view, setView] = useState(initialView);
+  const [loading, setLoading] = useState(false);
+
+  // Plan: the proposal is a draft the user edits before anything touches the task list
+  const [hours, setHours] = useState(4);
+  const [planSummary, setPlanSummary] = useState('');
+  const [entries, setEntries] = useState<PlanEntry[] | null>(null);
+
+  // Review: every suggested carry-over starts ticked
+  const [review, setReview] = useState<DayReview | null>(null);
+  const [carryIds, setCarryIds] = useState<number[]>([]);
+
+  const today = useMemo(() => summarizeDay(history, tasks, startOfDay(now), addDays(startOfDay(now), 1)), [history, tasks, now]);
+  const capacity = focusCapacity(hours * 60, settings, completedFocus);
+  const blocks = entries ? scheduleEntries(entries, settings, nextQuarterHour(now), completedFocus) : [];
+  const booked = entries?.reduce((sum, e) => sum + e.pomodoros, 0) ?? 0;
+
+  const generatePlan = async () => {
+    setLoading(true);
+    const plan = await onPlan(hours);
+    if (plan) {
+      setPlanSummary(plan.summary);
+      setEntries(plan.entries);
+    }
+    setLoading(false);
+  };
+
+  const generateReview = async () => {
+    setLoading(true);
+    const result = await onReview(today);
+    if (result) {
+      setReview(result);
+      setCarryIds(result.carryOver.map(c => c.taskId));
+    }
+    setLoading(false);
+  };
+
+  const editEntry = (taskId: number, pomodoros: number) => {
+    setEntries(prev => prev && prev.map(e => e.taskId === taskId ? { ...e, pomodoros: Math.max(1, pomodoros) } : e));
+  };
+
+  const moveEntry = (index: number, to: number) => {
+    setEntries(prev => prev && moveItem(prev, index, to));
+  };
+
+  const removeEntry = (taskId: number) => {
+    setEntries(prev => prev && prev.filter(e => e.taskId !== taskId));
+  };
+
+  const toggleCarry = (taskId: number) => {
+    setCarryIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+  };
+
+  const acceptPlan = () => {
+    if (!entries) return;
+    onAcceptPlan(entries);
+    onClose();
+  };
+
+  const carryOver = () => {
+    if (!review) return;
+    // Keep the coach's order, minus whatever was unticked
+    onCarryOver(review.carryOver.map(c => c.taskId).filter(id => carryIds.includes(id)));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t(view === 'plan' ? 'planner.planTitle' : 'planner.reviewTitle')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        <div className="flex bg-slate-900/50 p-1.5 rounded-2xl border border-slate-800 mb-8">
+          {(['plan', 'review'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`flex-1 px-4 py-2 rounded-xl text-sm font-medium transition-all ${view === v ? 'bg-slate-800 text-emerald-400 shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {t(`planner.${v}`)}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-start gap-3">
+            <AlertTriangle className="text-rose-400 flex-shrink-0 mt-0.5" size={18} />
+            <p className="flex-1 text-sm text-rose-200">{error}</p>
+          </div>
+        )}
+
+        {view === 'plan' ? (
+          <>
+            <section className="mb-8">
+              <h3 className={sectionTitle}>{t('planner.available')}</h3>
+              <label className="flex items-center justify-between gap-4 py-2">
+                <span className="text-sm text-slate-300">{t('planner.hours')}</span>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={16}
+                  step={0.5}
+                  value={hours}
+                  onChange={(e) => setHours(Math.min(16, Math.max(0.5, Number(e.target.value) || 0.5)))}
+                  className="w-20 bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/50"
+                />
+              </label>
+              <p className="text-xs text-slate-500 mb-4">
+                {t('planner.fits', { count: capacity, minutes: settings.durations.focus })}
+              </p>
+              <Button
+                variant="magic"
+                onClick={generatePlan}
+                disabled={loading || capacity === 0 || !aiAvailable}
+                title={aiAvailable ? undefined : t('planner.planOffline')}
+                className="w-full justify-center"
+              >
+                {loading ? <Loader2 className="animate-spin" size={18} /> : <Sparkles size={18} />}
+                {t(entries ? 'planner.replan' : 'planner.start')}
+              </Button>
+            </section>
+
+            {entries && (
+              <section className="mb-8">
+                <h3 className={sectionTitle}>{t('planner.schedule')}</h3>
+                {planSummary && <p className="text-sm text-violet-200 italic mb-4">"{planSummary}"</p>}
+                {entries.length === 0 && <p className="text-sm text-slate-500 mb-4">{t('planner.emptyPlan')}</p>}
+                <ol className="space-y-2 mb-4">
+                  {entries.map((entry, i) => {
+                    const own = blocks.filter(b => b.taskId === entry.taskId);
+                    return (
+                      <li key={entry.taskId} className="p-3 rounded-xl bg-slate-900/60 border border-slate-800 flex items-start gap-3">
+                        <div className="flex flex-col text-slate-600">
+                          <button onClick={() => moveEntry(i, i - 1)} disabled={i === 0} className="hover:text-slate-300 disabled:invisible" aria-label={t('planner.earlier')}>
+                            <ChevronUp size={14} />
+                          </button>
+                          <button onClick={() => moveEntry(i, i + 1)} disabled={i === entries.length - 1} className="hover:text-slate-300 disabled:invisible" aria-label={t('planner.later')}>
+                            <ChevronDown size={14} />
+                          </button>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-xs font-mono text-slate-500">
+                            {own.length > 0 && `${formatClock(own[0].start, locale)} – ${formatClock(own[own.length - 1].end, locale)}`}
+                          </div>
+                          <div className="text-sm text-slate-200 truncate">{entry.text}</div>
+                          {entry.note && <div className="text-xs text-slate-500 mt-1">{entry.note}</div>}
+                        </div>
+                        <span className="inline-flex items-center gap-1 text-xs font-mono text-slate-400 whitespace-nowrap">
+                          <button onClick={() => editEntry(entry.taskId, entry.pomodoros - 1)} disabled={entry.pomodoros <= 1} className="hover:text-slate-200 disabled:invisible" aria-label={t('planner.fewer')}>
+                            <Minus size={12} />
+                          </button>
+                          {entry.pomodoros} × {settings.durations.focus}m
+                          <button onClick={() => editEntry(entry.taskId, entry.pomodoros + 1)} className="hover:text-slate-200" aria-label={t('planner.more')}>
+                            <Plus size={12} />
+                          </button>
+                        </span>
+                        <button onClick={() => removeEntry(entry.taskId)} className="text-slate-600 hover:text-rose-400" title={t('planner.remove')} aria-label={t('planner.remove')}>
+                          <X size={14} />
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+                <p className={`text-xs mb-4 ${booked > capacity ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {t('planner.booked', { booked, capacity })}
+                  {blocks.length > 0 && ` · ${t('planner.doneAround', { time: formatClock(blocks[blocks.length - 1].end, locale) })}`}
+                </p>
+                <div className="flex gap-3">
+                  <Button onClick={acceptPlan} disabled={entries.length === 0} className="flex-1 justify-center">
+                    {t('planner.apply')}
+                  </Button>
+                  <Button variant="secondary" onClick={() => setEntries(null)}>
+                    {t('planner.discard')}
+                  </Button>
+                </div>
+              </section>
+            )}
+          </>
+        ) : (
+          <>
+            <section className="mb-8">
+              <h3 className={sectionTitle}>{t('planner.today')}</h3>
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                {[
+                  { label: t('planner.focused'), value: formatDuration(today.totals.focusSeconds) },
+                  { label: t('planner.pomodoros'), value: String(today.totals.completed) },
+                  { label: t('planner.finished'), value: String(today.finished.length) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="p-3 rounded-xl bg-slate-900/60 border border-slate-800">
+                    <div className="text-xs uppercase tracking-wider text-slate-500 mb-1">{label}</div>
+                    <div className="text-lg font-bold text-slate-100">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="magic"
+                onClick={generateReview}
+                disabled={loading || !aiAvailable}
+                title={aiAvailable ? undefined : t('planner.reviewOffline')}
+                className="w-full justify-center"
+              >
+                {loading ? <Loader2 className="animate-spin" size={18} /> : <Sparkles size={18} />}
+                {t(review ? 'planner.reviewAgain' : 'planner.reviewStart')}
+              </Button>
+            </section>
+
+            {review && (
+              <section className="mb-8">
+                <p className="text-sm text-violet-200 italic mb-4">"{review.summary}"</p>
+                {review.wins.length > 0 && (
+                  <>
+                    <h3 className={sectionTitle}>{t('planner.wins')}</h3>
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-slate-300 mb-6">
+                      {review.wins.map(win => <li key={win}>{win}</li>)}
+                    </ul>
+                  </>
+                )}
+                <h3 className={sectionTitle}>{t('planner.carryTitle')}</h3>
+                {review.carryOver.length === 0 && <p className="text-sm text-slate-500 mb-4">{t('planner.nothingToCarry')}</p>}
+                <ul className="space-y-2 mb-4">
+                  {review.carryOver.map(item => (
+                    <li key={item.taskId}>
+                      <label className="p-3 rounded-xl bg-slate-900/60 border border-slate-800 flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={carryIds.includes(item.taskId)}
+                          onChange={() => toggleCarry(item.taskId)}
+                          className="mt-1 accent-emerald-500"
+                        />
+                        <span className="flex-1">
+                          <span className="block text-sm text-slate-200">{item.text}</span>
+                          {item.reason && <span className="block text-xs text-slate-500 mt-1">{item.reason}</span>}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                {review.carryOver.length > 0 && (
+                  <Button onClick={carryOver} disabled={carryIds.length === 0} className="w-full justify-center">
+                    {t('planner.carry', { count: carryIds.length })}
+                  </Button>
+                )}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
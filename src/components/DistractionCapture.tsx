@@ -0,0 +1,102 @@
+import { useState, type FormEvent, type KeyboardEvent, type RefObject } from 'react';
+import { Brain, Users, CornerDownLeft } from 'lucide-react';
+import type { InterruptionKind } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface DistractionCaptureProps {
+  onCapture: (text: string, kind: InterruptionKind) => void;
+  onCancel?: () => void;
+  inputRef?: RefObject<HTMLInputElement | null>;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+const KINDS: { kind: InterruptionKind; icon: typeof Brain }[] = [
+  { kind: 'internal', icon: Brain },
+  { kind: 'external', icon: Users },
+];
+
+// One-line capture: type, pick who interrupted, Enter. Escape hands focus back.
+export const DistractionCapture = ({ onCapture, onCancel, inputRef, autoFocus, className = '' }: DistractionCaptureProps) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<InterruptionKind>('internal');
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onCapture(text.trim(), kind);
+    setText('');
+  };
+
+  const handleKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setText('');
+      e.currentTarget.blur();
+      onCancel?.();
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className={`flex items-center gap-2 ${className}`}>
+      <div className="relative flex-1">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKey}
+          autoFocus={autoFocus}
+          placeholder={t('distraction.placeholder')}
+          aria-label={t('distraction.label')}
+          className="w-full bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-2 pr-9 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-amber-500/50 focus:ring-1 focus:ring-amber-500/50 transition-all"
+        />
+        <CornerDownLeft size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-600" />
+      </div>
+      <div className="flex bg-slate-900/50 p-1 rounded-xl border border-slate-800" role="radiogroup" aria-label={t('distraction.kind')}>
+        {KINDS.map(({ kind: k, icon: Icon }) => (
+          <button
+            key={k}
+            type="button"
+            role="radio"
+            aria-checked={kind === k}
+            onClick={() => setKind(k)}
+            title={`${t(`distraction.${k}`)}: ${t(`distraction.${k}Hint`)}`}
+            aria-label={t(`distraction.${k}`)}
+            className={`p-1.5 rounded-lg transition-all ${kind === k ? 'bg-slate-800 text-amber-400' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+      </div>
+    </form>
+  );
+};
+
+interface DistractionDialogProps {
+  sessionCount: number; // interruptions already logged this session
+  onCapture: (text: string, kind: InterruptionKind) => void;
+  onClose: () => void;
+}
+
+// Quick-capture from the hotkey: log it and get straight back to work
+export const DistractionDialog = ({ sessionCount, onCapture, onClose }: DistractionDialogProps) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-start justify-center p-6 pt-32 animate-in fade-in" onClick={onClose}>
+      <div className="w-full max-w-md p-4 rounded-2xl bg-slate-900 border border-slate-800 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <DistractionCapture
+          autoFocus
+          onCapture={(text, kind) => {
+            onCapture(text, kind);
+            onClose();
+          }}
+          onCancel={onClose}
+        />
+        <p className="text-xs text-slate-500 mt-3">
+          {sessionCount > 0 ? `${t('distraction.logged', { count: sessionCount })} ` : ''}{t('distraction.later')}
+        </p>
+      </div>
+    </div>
+  );
+};
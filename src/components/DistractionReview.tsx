@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Brain, Users, NotebookPen } from 'lucide-react';
+import type { Distraction } from '../types';
+import { formatClock } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface DistractionReviewProps {
+  distractions: Distraction[];
+  onConvert: (toTasks: Distraction[]) => void; // everything listed is cleared, the picked ones become tasks
+  onLater: () => void;
+}
+
+// Shown when a focus session ends with captured distractions waiting
+export const DistractionReview = ({ distractions, onConvert, onLater }: DistractionReviewProps) => {
+  const { locale, t } = useI18n();
+  // Stray thoughts are usually to-dos in disguise; external interruptions rarely are
+  const [picked, setPicked] = useState(() => distractions.filter(d => d.kind === 'internal').map(d => d.id));
+
+  const toggle = (id: number) => {
+    setPicked(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in">
+      <div className="w-full max-w-sm p-6 rounded-2xl bg-slate-900 border border-slate-800 shadow-2xl">
+        <div className="flex items-center gap-3 mb-2 text-amber-400">
+          <NotebookPen size={20} />
+          <h2 className="font-semibold">{t('distraction.reviewTitle')}</h2>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">{t('distraction.reviewHint')}</p>
+
+        <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+          {distractions.map(d => (
+            <li key={d.id}>
+              <label className="flex items-start gap-3 px-4 py-3 rounded-xl bg-slate-800/60 border border-slate-700/50 text-sm text-slate-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={picked.includes(d.id)}
+                  onChange={() => toggle(d.id)}
+                  className="mt-0.5 accent-emerald-500"
+                />
+                <span className="flex-1 min-w-0 break-words">{d.text}</span>
+                <span className="flex items-center gap-1 text-xs text-slate-500 flex-shrink-0" title={t(`distraction.${d.kind}`)}>
+                  {d.kind === 'internal' ? <Brain size={12} /> : <Users size={12} />}
+                  {formatClock(d.capturedAt, locale)}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-3">
+          <Button onClick={() => onConvert(distractions.filter(d => picked.includes(d.id)))} className="flex-1 justify-center">
+            {picked.length > 0 ? t('distraction.addTasks', { count: picked.length }) : t('distraction.clear')}
+          </Button>
+          <Button variant="ghost" onClick={onLater}>
+            {t('distraction.dismiss')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
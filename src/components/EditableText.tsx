@@ -0,0 +1,56 @@
+import { useState, type KeyboardEvent } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface EditableTextProps {
+  value: string;
+  onSave: (value: string) => void;
+  className?: string;
+  inputClassName?: string;
+  label: string; // accessible name for the edit field
+}
+
+// Double-click (or Enter while focused) to edit in place. Enter or blur
+// saves, Escape cancels, and an empty value keeps the old text.
+export const EditableText = ({ value, onSave, className = '', inputClassName = '', label }: EditableTextProps) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const text = draft.trim();
+    if (text && text !== value) onSave(text);
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+    if (e.key === 'Escape') setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        aria-label={label}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        className={`flex-1 min-w-0 bg-slate-900 border border-emerald-500/50 rounded-lg px-2 py-0.5 text-slate-200 focus:outline-none ${inputClassName}`}
+      />
+    );
+  }
+
+  return (
+    <span
+      tabIndex={0}
+      role="button"
+      title={t('task.editHint')}
+      onDoubleClick={() => setDraft(value)}
+      onKeyDown={(e) => { if (e.key === 'Enter') setDraft(value); }}
+      className={`cursor-text rounded focus:outline-none focus-visible:ring-1 focus-visible:ring-emerald-500/50 ${className}`}
+    >
+      {value}
+    </span>
+  );
+};
@@ -0,0 +1,66 @@
+import { Pause, Play, SkipForward } from 'lucide-react';
+import type { Task } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface MiniTimerProps {
+  time: string;
+  progress: number; // 0-100, same as the main ring
+  label: string;
+  colorClass: string;
+  isActive: boolean;
+  task?: Task;
+  onToggle: () => void;
+  onSkip: () => void;
+}
+
+const RADIUS = 70;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Compact timer rendered into the pop-out window
+export const MiniTimer = ({ time, progress, label, colorClass, isActive, task, onToggle, onSkip }: MiniTimerProps) => {
+  const { t } = useI18n();
+  const nextStep = task?.subtasks?.find(st => !st.completed);
+
+  return (
+    <div className="h-screen flex flex-col items-center justify-center gap-4 p-4 select-none">
+      <div className="relative w-40 h-40 flex flex-col items-center justify-center">
+        <svg viewBox="0 0 160 160" className="absolute inset-0 w-full h-full -rotate-90">
+          <circle cx="80" cy="80" r={RADIUS} fill="none" stroke="currentColor" strokeWidth="6" className="text-slate-800" />
+          <circle
+            cx="80" cy="80" r={RADIUS}
+            fill="none" stroke="currentColor" strokeWidth="6"
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - progress / 100)}
+            strokeLinecap="round"
+            className={`transition-all duration-1000 ease-linear ${colorClass}`}
+          />
+        </svg>
+        <span className={`text-4xl font-mono font-bold tracking-tighter ${isActive ? 'text-slate-100' : 'text-slate-400'}`}>
+          {time}
+        </span>
+        <span className={`text-[10px] font-medium uppercase tracking-widest ${colorClass}`}>{label}</span>
+      </div>
+
+      <div className="w-full text-center space-y-1 min-h-[2.5rem]">
+        {task ? (
+          <>
+            <div className="text-sm text-emerald-400 font-medium truncate">{task.text}</div>
+            {nextStep && <div className="text-xs text-slate-500 truncate">{t('zen.nextStep', { step: nextStep.text })}</div>}
+          </>
+        ) : (
+          <div className="text-sm text-slate-500">{t('zen.noTask')}</div>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <Button onClick={onToggle} className="w-28 justify-center">
+          {isActive ? <><Pause size={16} fill="currentColor" /> {t('timer.pause')}</> : <><Play size={16} fill="currentColor" /> {t('timer.start')}</>}
+        </Button>
+        <Button variant="secondary" onClick={onSkip} title={t('palette.skip')} label={t('palette.skip')}>
+          <SkipForward size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { ArrowRight, PartyPopper } from 'lucide-react';
+import type { Task } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface NextTaskPromptProps {
+  finished: Task;
+  candidates: Task[];
+  onPick: (taskId: number) => void;
+  onDismiss: () => void;
+}
+
+// Shown when the active task is checked off while a focus session is still running
+export const NextTaskPrompt = ({ finished, candidates, onPick, onDismiss }: NextTaskPromptProps) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in">
+      <div className="w-full max-w-sm p-6 rounded-2xl bg-slate-900 border border-slate-800 shadow-2xl">
+        <div className="flex items-center gap-3 mb-2 text-emerald-400">
+          <PartyPopper size={20} />
+          <h2 className="font-semibold">{t('next.title', { task: finished.text })}</h2>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">{t('next.running')}</p>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-slate-500 mb-4">{t('next.empty')}</p>
+        ) : (
+          <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+            {candidates.map(task => (
+              <button
+                key={task.id}
+                onClick={() => onPick(task.id)}
+                className="w-full flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-slate-800/60 border border-slate-700/50 text-left text-sm text-slate-200 hover:border-emerald-500/40 transition-colors"
+              >
+                <span className="truncate">{task.text}</span>
+                <ArrowRight size={14} className="flex-shrink-0 text-slate-500" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Button variant="ghost" onClick={onDismiss} className="w-full justify-center">
+          {t('next.dismiss')}
+        </Button>
+      </div>
+    </div>
+  );
+};
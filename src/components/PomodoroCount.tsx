@@ -0,0 +1,43 @@
+import { Minus, Plus, Timer } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface PomodoroCountProps {
+  completed: number;
+  estimated?: number;
+  onChange?: (estimated: number) => void;
+  className?: string;
+}
+
+// "actual / estimate" pill; shows +/- steppers on hover when editable
+export const PomodoroCount = ({ completed, estimated, onChange, className = '' }: PomodoroCountProps) => {
+  const { t } = useI18n();
+  const over = estimated !== undefined && completed > estimated;
+
+  return (
+    <span className={`group/count inline-flex items-center gap-1 text-xs font-mono whitespace-nowrap ${over ? 'text-amber-400' : 'text-slate-500'} ${className}`}>
+      {onChange && (
+        <button
+          onClick={() => onChange(Math.max(0, (estimated ?? 0) - 1))}
+          disabled={!estimated}
+          className="opacity-0 group-hover/count:opacity-100 focus:opacity-100 hover:text-slate-300 disabled:invisible transition-opacity"
+          aria-label={t('estimate.lower')}
+        >
+          <Minus size={12} />
+        </button>
+      )}
+      <Timer size={12} />
+      <span title={t('estimate.hint')}>
+        {completed}/{estimated || '–'}
+      </span>
+      {onChange && (
+        <button
+          onClick={() => onChange((estimated ?? 0) + 1)}
+          className="opacity-0 group-hover/count:opacity-100 focus:opacity-100 hover:text-slate-300 transition-opacity"
+          aria-label={t('estimate.raise')}
+        >
+          <Plus size={12} />
+        </button>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState, type FormEvent } from 'react';
+import { X, Copy, Dices, LogOut, Loader2 } from 'lucide-react';
+import type { RoomSettings, TimerMode } from '../types';
+import { ROOM_CODE, createRoomCode, normalizeRoomCode, type MemberStatus, type RoomMember } from '../lib/room';
+import type { RoomStatus } from '../hooks/useFocusRoom';
+import { useI18n } from '../hooks/useI18n';
+import type { Translate } from '../lib/i18n';
+import { Button } from './Button';
+
+interface RoomPanelProps {
+  settings: RoomSettings;
+  status: RoomStatus;
+  members: RoomMember[];
+  memberId: string; // this tab, marked "you" in the list
+  error: string | null;
+  onJoin: (settings: RoomSettings) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const MODE_DOTS: Record<TimerMode, string> = { focus: 'bg-mode-focus', short: 'bg-mode-short', long: 'bg-mode-long' };
+
+const inputClass = "w-full bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/50";
+
+const describeStatus = (status: MemberStatus | null, t: Translate) => {
+  if (!status) return t('room.justJoined');
+  if (!status.isActive) return t('room.paused');
+  if (status.mode !== 'focus') return t(status.mode === 'short' ? 'room.shortBreak' : 'room.longBreak');
+  return status.task ? t('room.focusingOn', { task: status.task }) : t('room.focusing');
+};
+
+export const RoomPanel = ({ settings, status, members, memberId, error, onJoin, onLeave, onClose }: RoomPanelProps) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(settings.name);
+  const [code, setCode] = useState(settings.code ?? '');
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const canJoin = name.trim() !== '' && ROOM_CODE.test(code) && serverUrl.trim() !== '';
+
+  const join = (e: FormEvent) => {
+    e.preventDefault();
+    if (canJoin) onJoin({ serverUrl: serverUrl.trim(), name: name.trim(), code });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('room.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        {settings.code ? (
+          <>
+            <div className="flex items-center gap-3 mb-2">
+              <span className="text-3xl font-mono font-bold tracking-widest text-slate-100">{settings.code}</span>
+              <button
+                onClick={() => navigator.clipboard?.writeText(settings.code ?? '')}
+                className="p-1.5 text-slate-500 hover:text-emerald-400"
+                title={t('room.copy')}
+                aria-label={t('room.copy')}
+              >
+                <Copy size={16} />
+              </button>
+              <Button variant="danger" onClick={onLeave} className="ml-auto text-sm py-1.5">
+                <LogOut size={14} /> {t('room.leave')}
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500 mb-6 flex items-center gap-2" role="status">
+              {status === 'connecting' && <Loader2 size={12} className="animate-spin" />}
+              {status === 'connected'
+                ? t('room.shared')
+                : t('room.connectingTo', { server: settings.serverUrl })}
+            </p>
+            {error && <p className="text-xs text-rose-400 mb-4">{error}</p>}
+
+            <ul className="space-y-2">
+              {members.map(member => (
+                <li key={member.id} className="flex items-center gap-3 px-4 py-3 rounded-xl bg-slate-900/60 border border-slate-800">
+                  <span
+                    className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${member.status ? MODE_DOTS[member.status.mode] : 'bg-slate-600'} ${member.status?.isActive ? '' : 'opacity-40'}`}
+                  />
+                  <span className="flex flex-col min-w-0">
+                    <span className="text-sm text-slate-200">
+                      {member.name}{member.id === memberId && <span className="text-slate-500"> {t('room.you')}</span>}
+                    </span>
+                    <span className="text-xs text-slate-500 truncate">{describeStatus(member.status, t)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <form onSubmit={join} className="space-y-3">
+            <p className="text-sm text-slate-400 mb-4">
+              {t('room.intro')}
+            </p>
+            <label className="flex flex-col gap-2 text-xs text-slate-500">
+              {t('room.name')}
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={40} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-2 text-xs text-slate-500">
+              {t('room.code')}
+              <span className="flex gap-2">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(normalizeRoomCode(e.target.value))}
+                  maxLength={12}
+                  placeholder={t('room.codePlaceholder', { code: 'K7QPZ3' })}
+                  className={`${inputClass} font-mono tracking-widest`}
+                />
+                <Button variant="secondary" onClick={() => setCode(createRoomCode())} title={t('room.newCode')} label={t('room.newCode')}>
+                  <Dices size={16} />
+                </Button>
+              </span>
+            </label>
+            <label className="flex flex-col gap-2 text-xs text-slate-500">
+              {t('room.server')}
+              <input type="text" value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} className={inputClass} />
+              <span className="text-slate-600">{t('room.selfHost')} <code>npm run room</code>.</span>
+            </label>
+            <Button type="submit" disabled={!canJoin} className="w-full justify-center mt-4">
+              {t('room.join')}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,359 @@
+import { useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import { X, RotateCcw, Download, Upload } from 'lucide-react';
+import type { AIProviderId, AISettings, NotificationSettings, ThemeSettings, TimerMode, TimerSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../lib/cycle';
+import { PROVIDER_DEFAULTS } from '../lib/ai';
+import { describeImport, type ExportFormat, type ImportResult } from '../lib/io';
+import { LOCALES, LOCALE_IDS, describeError, type LocaleSetting } from '../lib/i18n';
+import { THEME_IDS } from '../lib/theme';
+import { WARNING_CHOICES, notificationPermission, requestNotificationPermission } from '../lib/notify';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface SettingsPanelProps {
+  settings: TimerSettings;
+  aiSettings: AISettings;
+  notifications: NotificationSettings;
+  onSave: (settings: TimerSettings, aiSettings: AISettings, notifications: NotificationSettings) => void;
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => Promise<ImportResult>; // resolves to what was merged and a summary of it
+  locale: LocaleSetting;
+  onLocaleChange: (locale: LocaleSetting) => void; // applied right away, outside the draft
+  theme: ThemeSettings;
+  accents: Record<TimerMode, string>; // what each mode shows now, including the theme's own accents
+  onThemeChange: (theme: ThemeSettings) => void; // also applied right away, to preview colors
+  onClose: () => void;
+}
+
+const EXPORTS: ExportFormat[] = ['json', 'markdown', 'csv', 'ics'];
+
+const DURATION_FIELDS: { mode: TimerMode; max: number }[] = [
+  { mode: 'focus', max: 180 },
+  { mode: 'short', max: 60 },
+  { mode: 'long', max: 90 },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const inputClass = "w-full bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/50";
+
+const Toggle = ({ checked, onChange, label }: { checked: boolean; onChange: (checked: boolean) => void; label: string }) => (
+  <label className="flex items-center justify-between gap-4 py-2 cursor-pointer">
+    <span className="text-sm text-slate-300">{label}</span>
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={`relative w-10 h-6 rounded-full transition-colors ${checked ? 'bg-emerald-500' : 'bg-slate-700'}`}
+    >
+      <span className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-slate-100 transition-transform ${checked ? 'translate-x-4' : ''}`} />
+    </button>
+  </label>
+);
+
+export const SettingsPanel = ({ settings, aiSettings, notifications, onSave, onExport, onImport, locale, onLocaleChange, theme, accents, onThemeChange, onClose }: SettingsPanelProps) => {
+  const { t, locale: activeLocale } = useI18n(); // `locale` is the setting, which may be 'auto'
+  // Edit a draft so half-typed numbers don't reset the running timer
+  const [draft, setDraft] = useState<TimerSettings>(settings);
+  const [aiDraft, setAiDraft] = useState<AISettings>(aiSettings);
+  const [notifyDraft, setNotifyDraft] = useState<NotificationSettings>(notifications);
+  const [permission, setPermission] = useState(notificationPermission);
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { snapshot, summary } = await onImport(file);
+      // The import is already applied; start the drafts from it so Save doesn't undo it
+      setDraft(snapshot.settings);
+      setAiDraft(snapshot.aiSettings);
+      setImportMessage({ text: describeImport(summary, t, activeLocale), error: false });
+    } catch (error) {
+      setImportMessage({ text: describeError(error, t, 'settings.importFailed'), error: true });
+    }
+  };
+
+  // Ask for permission right from the click; browsers ignore requests without a user gesture
+  const toggleNotifications = async (enabled: boolean) => {
+    if (!enabled) return setNotifyDraft({ ...notifyDraft, enabled });
+    const granted = permission === 'granted' ? permission : await requestNotificationPermission();
+    setPermission(granted);
+    setNotifyDraft({ ...notifyDraft, enabled: granted === 'granted' });
+  };
+
+  const toggleWarning = (minutes: number) => {
+    const warnings = notifyDraft.warnings.includes(minutes)
+      ? notifyDraft.warnings.filter(m => m !== minutes)
+      : [...notifyDraft.warnings, minutes].sort((a, b) => a - b);
+    setNotifyDraft({ ...notifyDraft, warnings });
+  };
+
+  const selectProvider = (provider: AIProviderId) => {
+    const { model, endpoint } = PROVIDER_DEFAULTS[provider];
+    setAiDraft({ ...aiDraft, provider, model, endpoint });
+  };
+
+  const setDuration = (mode: TimerMode, value: number, max: number) => {
+    setDraft({ ...draft, durations: { ...draft.durations, [mode]: clamp(value || 1, 1, max) } });
+  };
+
+  const save = (e: FormEvent) => {
+    e.preventDefault();
+    onSave(draft, aiDraft, notifyDraft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <form onSubmit={save} className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('settings.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.durations')}</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {DURATION_FIELDS.map(({ mode, max }) => (
+              <label key={mode} className="flex flex-col gap-2 text-xs text-slate-500">
+                {t(`tab.${mode}`)}
+                <input
+                  type="number"
+                  min={1}
+                  max={max}
+                  value={draft.durations[mode]}
+                  onChange={(e) => setDuration(mode, Number(e.target.value), max)}
+                  className="w-full bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-2 text-lg text-slate-200 focus:outline-none focus:border-emerald-500/50 focus:ring-1 focus:ring-emerald-500/50"
+                />
+              </label>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.cycle')}</h3>
+          <label className="flex items-center justify-between gap-4 py-2">
+            <span className="text-sm text-slate-300">{t('settings.longBreakEvery')}</span>
+            <span className="flex items-center gap-2 text-sm text-slate-500">
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={draft.longBreakInterval}
+                onChange={(e) => setDraft({ ...draft, longBreakInterval: clamp(Number(e.target.value) || 1, 1, 12) })}
+                className="w-16 bg-slate-900/50 border border-slate-800 rounded-xl px-3 py-1.5 text-slate-200 focus:outline-none focus:border-emerald-500/50"
+              />
+              {t('settings.focusSessions')}
+            </span>
+          </label>
+          <Toggle
+            label={t('settings.autoStartBreaks')}
+            checked={draft.autoStartBreaks}
+            onChange={(autoStartBreaks) => setDraft({ ...draft, autoStartBreaks })}
+          />
+          <Toggle
+            label={t('settings.autoStartFocus')}
+            checked={draft.autoStartFocus}
+            onChange={(autoStartFocus) => setDraft({ ...draft, autoStartFocus })}
+          />
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.notifications')}</h3>
+          <Toggle
+            label={t('settings.desktopNotifications')}
+            checked={notifyDraft.enabled && permission === 'granted'}
+            onChange={toggleNotifications}
+          />
+          {permission === 'denied' && (
+            <p className="text-xs text-amber-400/80 mb-2">
+              {t('settings.notificationsBlocked')}
+            </p>
+          )}
+          {permission === 'unsupported' && (
+            <p className="text-xs text-slate-500 mb-2">{t('settings.notificationsUnsupported')}</p>
+          )}
+          <div className="flex items-center justify-between gap-4 py-2">
+            <span className="text-sm text-slate-300">{t('settings.warnBefore')}</span>
+            <span className="flex gap-1.5">
+              {WARNING_CHOICES.map(minutes => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => toggleWarning(minutes)}
+                  aria-pressed={notifyDraft.warnings.includes(minutes)}
+                  className={`px-2.5 py-1 rounded-lg border text-xs transition-colors ${notifyDraft.warnings.includes(minutes)
+                    ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300'
+                    : 'border-slate-800 text-slate-500 hover:border-slate-600'
+                    }`}
+                >
+                  {t('settings.warnMinutes', { minutes })}
+                </button>
+              ))}
+            </span>
+          </div>
+          <Toggle
+            label={t('settings.favicon')}
+            checked={notifyDraft.favicon}
+            onChange={(favicon) => setNotifyDraft({ ...notifyDraft, favicon })}
+          />
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.ai')}</h3>
+          <div className="space-y-3">
+            <label className="flex flex-col gap-2 text-xs text-slate-500">
+              {t('settings.provider')}
+              <select
+                value={aiDraft.provider}
+                onChange={(e) => selectProvider(e.target.value as AIProviderId)}
+                className={inputClass}
+              >
+                {(Object.keys(PROVIDER_DEFAULTS) as AIProviderId[]).map(id => (
+                  <option key={id} value={id}>{t(`provider.${id}`)}</option>
+                ))}
+              </select>
+            </label>
+            {aiDraft.provider !== 'mock' && (
+              <>
+                <label className="flex flex-col gap-2 text-xs text-slate-500">
+                  {t('settings.model')}
+                  <input
+                    type="text"
+                    value={aiDraft.model}
+                    onChange={(e) => setAiDraft({ ...aiDraft, model: e.target.value.trim() })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-2 text-xs text-slate-500">
+                  {t('settings.endpoint')}
+                  <input
+                    type="url"
+                    value={aiDraft.endpoint}
+                    onChange={(e) => setAiDraft({ ...aiDraft, endpoint: e.target.value.trim() })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex flex-col gap-2 text-xs text-slate-500">
+                  {t('settings.apiKey')}
+                  <input
+                    type="password"
+                    value={aiDraft.apiKey}
+                    onChange={(e) => setAiDraft({ ...aiDraft, apiKey: e.target.value.trim() })}
+                    placeholder={aiDraft.provider === 'gemini' ? t('settings.apiKeyGemini') : t('settings.apiKeyOptional')}
+                    autoComplete="off"
+                    className={inputClass}
+                  />
+                </label>
+              </>
+            )}
+            {aiDraft.provider === 'mock' && (
+              <p className="text-xs text-slate-500">{t('settings.mockHint')}</p>
+            )}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.language')}</h3>
+          <select
+            value={locale}
+            onChange={(e) => onLocaleChange(e.target.value as LocaleSetting)}
+            aria-label={t('settings.language')}
+            className={inputClass}
+          >
+            <option value="auto">{t('settings.languageAuto')}</option>
+            {LOCALE_IDS.map(id => (
+              <option key={id} value={id} lang={id}>{LOCALES[id].name}</option>
+            ))}
+          </select>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.appearance')}</h3>
+          <div className="space-y-3">
+            <label className="flex flex-col gap-2 text-xs text-slate-500">
+              {t('settings.theme')}
+              <select
+                value={theme.theme}
+                onChange={(e) => onThemeChange({ ...theme, theme: e.target.value as ThemeSettings['theme'] })}
+                className={inputClass}
+              >
+                <option value="auto">{t('settings.themeAuto')}</option>
+                {THEME_IDS.map(id => (
+                  <option key={id} value={id}>{t(`theme.${id}`)}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {DURATION_FIELDS.map(({ mode }) => (
+                <label key={mode} className="flex flex-col gap-2 text-xs text-slate-500">
+                  {t(`tab.${mode}`)}
+                  <input
+                    type="color"
+                    value={accents[mode]}
+                    onChange={(e) => onThemeChange({ ...theme, accents: { ...theme.accents, [mode]: e.target.value } })}
+                    className="w-full h-9 bg-slate-900/50 border border-slate-800 rounded-xl px-1 cursor-pointer"
+                  />
+                </label>
+              ))}
+            </div>
+            {Object.keys(theme.accents).length > 0 && (
+              <button
+                type="button"
+                onClick={() => onThemeChange({ ...theme, accents: {} })}
+                className="text-xs text-slate-500 hover:text-emerald-400"
+              >
+                {t('settings.themeAccents')}
+              </button>
+            )}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('settings.data')}</h3>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {EXPORTS.map(format => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => onExport(format)}
+                className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-900/50 border border-slate-800 text-left hover:border-emerald-500/40 transition-colors"
+              >
+                <Download size={16} className="text-slate-500 flex-shrink-0" />
+                <span className="flex flex-col">
+                  <span className="text-sm text-slate-200">{t(`settings.export.${format}`)}</span>
+                  <span className="text-xs text-slate-500">{t(`settings.exportHint.${format}`)}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+          <Button variant="secondary" onClick={() => fileInput.current?.click()} className="w-full justify-center">
+            <Upload size={16} /> {t('settings.import')}
+          </Button>
+          <input ref={fileInput} type="file" accept=".json,.md,.markdown,.txt,.csv" onChange={handleImport} className="hidden" />
+          {importMessage && (
+            <p className={`text-xs mt-2 ${importMessage.error ? 'text-rose-400' : 'text-emerald-400'}`}>{importMessage.text}</p>
+          )}
+          <p className="text-xs text-slate-600 mt-2">{t('settings.importHint')}</p>
+        </section>
+
+        <div className="flex justify-between">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_SETTINGS)} title={t('settings.defaultsHint')}>
+            <RotateCcw size={16} /> {t('settings.defaults')}
+          </Button>
+          <Button type="submit" className="px-6">
+            {t('settings.save')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
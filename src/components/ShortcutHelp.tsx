@@ -0,0 +1,86 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_BINDINGS, SHORTCUT_ACTIONS, eventToCombo, formatCombo,
+  type Bindings, type ShortcutAction,
+} from '../lib/shortcuts';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface ShortcutHelpProps {
+  bindings: Bindings;
+  onRebind: (action: ShortcutAction, combo: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const ShortcutHelp = ({ bindings, onRebind, onReset, onClose }: ShortcutHelpProps) => {
+  const { t } = useI18n();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (recording) return;
+    const closeOnEscape = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', closeOnEscape);
+    return () => window.removeEventListener('keydown', closeOnEscape);
+  }, [recording, onClose]);
+
+  const record = (action: ShortcutAction) => (e: KeyboardEvent) => {
+    if (e.key === 'Tab') return;
+    // Claim the key so neither global shortcuts nor the Escape handler react to it
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setRecording(null);
+    const combo = eventToCombo(e.nativeEvent);
+    if (!combo) return;
+    onRebind(action, combo);
+    setRecording(null);
+  };
+
+  const changed = SHORTCUT_ACTIONS.some(action => bindings[action] !== DEFAULT_BINDINGS[action]);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('shortcuts.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        <p className="text-sm text-slate-500 mb-6">{t('shortcuts.hint')}</p>
+
+        <ul className="divide-y divide-slate-800/60 mb-8">
+          {SHORTCUT_ACTIONS.map(action => (
+            <li key={action} className="flex items-center justify-between gap-4 py-2.5">
+              <span className="text-sm text-slate-300">{t(`shortcut.${action}`)}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                onKeyDown={recording === action ? record(action) : undefined}
+                onBlur={() => recording === action && setRecording(null)}
+                className={`min-w-16 px-2.5 py-1 rounded-lg border font-mono text-xs transition-colors ${recording === action
+                  ? 'border-emerald-500/60 text-emerald-400 animate-pulse'
+                  : 'border-slate-700 bg-slate-800/60 text-slate-300 hover:border-slate-500'
+                  }`}
+                aria-label={t('shortcuts.rebind', { action: t(`shortcut.${action}`), combo: formatCombo(bindings[action]) })}
+              >
+                {recording === action ? t('shortcuts.recording') : formatCombo(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {changed && (
+          <Button variant="ghost" onClick={onReset} className="w-full justify-center">
+            <RotateCcw size={16} /> {t('shortcuts.restore')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { X, Play, Square, Volume2 } from 'lucide-react';
+import type { ChimeId, SoundLayerId, SoundSettings, TimerMode } from '../types';
+import { CHIMES, SOUND_LAYERS } from '../lib/audio';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface SoundPanelProps {
+  settings: SoundSettings;
+  currentMode: TimerMode;
+  previewMode: TimerMode | null;
+  onChange: (settings: SoundSettings) => void;
+  onPreview: (mode: TimerMode | null) => void;
+  onTestChime: (id: ChimeId, volume: number) => void;
+  onClose: () => void;
+}
+
+const MODE_TABS: TimerMode[] = ['focus', 'short', 'long'];
+
+const CHIME_OPTIONS: ChimeId[] = [...Object.keys(CHIMES) as Exclude<ChimeId, 'none'>[], 'none'];
+
+const Slider = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex items-center gap-4 py-2">
+    <span className="w-28 text-sm text-slate-300">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={100}
+      value={Math.round(value * 100)}
+      onChange={(e) => onChange(Number(e.target.value) / 100)}
+      className="flex-1 accent-emerald-500"
+    />
+    <span className="w-10 text-right text-xs font-mono text-slate-500">{Math.round(value * 100)}</span>
+  </label>
+);
+
+// Changes apply (and persist) immediately so the mix can be tuned by ear
+export const SoundPanel = ({ settings, currentMode, previewMode, onChange, onPreview, onTestChime, onClose }: SoundPanelProps) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<TimerMode>(currentMode);
+  const mix = settings.mixes[mode];
+
+  const selectMode = (next: TimerMode) => {
+    setMode(next);
+    if (previewMode) onPreview(next);
+  };
+
+  const setLayer = (layer: SoundLayerId, value: number) => {
+    onChange({ ...settings, mixes: { ...settings.mixes, [mode]: { ...mix, [layer]: value } } });
+  };
+
+  const close = () => {
+    onPreview(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('sound.title')}
+          </h2>
+          <Button variant="ghost" onClick={close} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        <section className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider">{t('sound.mix')}</h3>
+            <Button variant="ghost" onClick={() => onPreview(previewMode ? null : mode)} className="text-sm py-1">
+              {previewMode ? <><Square size={14} /> {t('sound.stop')}</> : <><Play size={14} /> {t('sound.preview')}</>}
+            </Button>
+          </div>
+          <div className="flex bg-slate-900/50 p-1 rounded-xl border border-slate-800 mb-4">
+            {MODE_TABS.map(tab => (
+              <button
+                key={tab}
+                onClick={() => selectMode(tab)}
+                className={`flex-1 px-3 py-1.5 rounded-lg text-sm transition-all ${mode === tab ? 'bg-slate-800 text-emerald-400' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {t(`tab.${tab}`)}
+              </button>
+            ))}
+          </div>
+          {SOUND_LAYERS.map(layer => (
+            <Slider key={layer} label={t(`sound.layer.${layer}`)} value={mix[layer]} onChange={(value) => setLayer(layer, value)} />
+          ))}
+          <p className="text-xs text-slate-600 mt-2">{t('sound.binauralHint')}</p>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('sound.volume')}</h3>
+          <Slider label={t('sound.ambience')} value={settings.volume} onChange={(volume) => onChange({ ...settings, volume })} />
+          <Slider label={t('sound.chimeVolume')} value={settings.chimeVolume} onChange={(chimeVolume) => onChange({ ...settings, chimeVolume })} />
+        </section>
+
+        <section>
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('sound.chime')}</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {CHIME_OPTIONS.map(option => (
+              <div
+                key={option}
+                className={`flex items-center justify-between rounded-xl border text-sm transition-colors ${settings.chime === option
+                  ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-300'
+                  : 'border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+              >
+                <button onClick={() => onChange({ ...settings, chime: option })} className="flex-1 px-3 py-2 text-left" aria-pressed={settings.chime === option}>
+                  {t(`sound.chime.${option}`)}
+                </button>
+                {option !== 'none' && (
+                  <button
+                    onClick={() => onTestChime(option, settings.chimeVolume)}
+                    className="px-3 py-2 text-slate-500 hover:text-emerald-400"
+                    title={t('sound.play', { chime: t(`sound.chime.${option}`) })}
+                    aria-label={t('sound.play', { chime: t(`sound.chime.${option}`) })}
+                  >
+                    <Volume2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
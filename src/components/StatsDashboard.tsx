@@ -0,0 +1,190 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { X, Flame, Clock, CheckCircle2, Trophy } from 'lucide-react';
+import type { Project, SessionRecord, Task } from '../types';
+import {
+  addDays, buildHeatmap, computeStreaks, focusByProject, focusByTag, focusByTask, formatDuration, startOfDay, toDateKey, totalsBetween,
+  type TaskFocus,
+} from '../lib/stats';
+import { formatInterruptions, totalInterruptions } from '../lib/distractions';
+import { formatDate } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+
+interface StatsDashboardProps {
+  history: SessionRecord[];
+  tasks: Task[]; // older sessions take their project and tags from here
+  projects: Project[];
+  onClose: () => void;
+}
+
+const heatColor = (seconds: number) => {
+  if (seconds === 0) return 'bg-slate-800/60';
+  if (seconds < 25 * 60) return 'bg-emerald-900';
+  if (seconds < 60 * 60) return 'bg-emerald-700';
+  if (seconds < 2 * 60 * 60) return 'bg-emerald-500';
+  return 'bg-emerald-300';
+};
+
+const StatCard = ({ icon, label, value, hint }: { icon: ReactNode; label: string; value: string; hint?: string }) => (
+  <div className="p-4 rounded-xl bg-slate-900/60 border border-slate-800">
+    <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-500 mb-2">
+      {icon} {label}
+    </div>
+    <div className="text-2xl font-bold text-slate-100">{value}</div>
+    {hint && <div className="text-xs text-slate-500 mt-1">{hint}</div>}
+  </div>
+);
+
+// Horizontal bars, one per group, scaled to the longest
+const FocusBars = ({ items, barClass }: { items: TaskFocus[]; barClass: string }) => {
+  const max = Math.max(1, ...items.map(t => t.seconds));
+  return (
+    <div className="space-y-3">
+      {items.map(t => (
+        <div key={t.key}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-slate-300 truncate pr-4">{t.text}</span>
+            <span className="text-slate-500 flex-shrink-0">{formatDuration(t.seconds)} · {t.sessions}×</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-slate-800">
+            <div className={`h-full rounded-full ${barClass}`} style={{ width: `${(t.seconds / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const StatsDashboard = ({ history, tasks, projects, onClose }: StatsDashboardProps) => {
+  const { locale, t } = useI18n();
+  // Snapshot the clock once per opening so the numbers don't shift while reading
+  const [now] = useState(() => Date.now());
+
+  const stats = useMemo(() => {
+    const today = startOfDay(now);
+    const weekStart = addDays(today, -6);
+    const week = Array.from({ length: 7 }, (_, i) => {
+      const day = addDays(weekStart, i);
+      return { day, totals: totalsBetween(history, day, addDays(day, 1)) };
+    });
+
+    return {
+      today: totalsBetween(history, today, addDays(today, 1)),
+      week: totalsBetween(history, weekStart, addDays(today, 1)),
+      weekDays: week,
+      streaks: computeStreaks(history, now),
+      tasks: focusByTask(history, t('stats.unassigned')).slice(0, 6),
+      projects: focusByProject(history, tasks, projects, t('project.inbox')),
+      tags: focusByTag(history, tasks).slice(0, 8),
+      heatmap: buildHeatmap(history, now),
+    };
+  }, [history, tasks, projects, now, t]);
+
+  const weekMax = Math.max(1, ...stats.weekDays.map(d => d.totals.focusSeconds));
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-2xl mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('stats.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-8">
+          <StatCard
+            icon={<Clock size={14} />}
+            label={t('stats.today')}
+            value={formatDuration(stats.today.focusSeconds)}
+            hint={`${t('stats.sessions', { count: stats.today.completed })} · ${t('stats.interruptions', { count: totalInterruptions(stats.today.interruptions) })}`}
+          />
+          <StatCard
+            icon={<CheckCircle2 size={14} />}
+            label={t('stats.lastWeek')}
+            value={formatDuration(stats.week.focusSeconds)}
+            hint={t('stats.weekHint', { done: stats.week.completed, abandoned: stats.week.abandoned })}
+          />
+          <StatCard
+            icon={<Flame size={14} />}
+            label={t('stats.streak')}
+            value={t('stats.days', { count: stats.streaks.current })}
+            hint={t('stats.streakHint')}
+          />
+          <StatCard
+            icon={<Trophy size={14} />}
+            label={t('stats.best')}
+            value={t('stats.days', { count: stats.streaks.best })}
+            hint={t('stats.bestHint')}
+          />
+        </div>
+
+        {/* Weekly Bars */}
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('stats.thisWeek')}</h3>
+          <div className="flex items-end gap-2 h-32 p-4 rounded-xl bg-slate-900/60 border border-slate-800">
+            {stats.weekDays.map(({ day, totals }) => (
+              <div key={day} className="flex-1 flex flex-col items-center gap-2 h-full justify-end">
+                <div
+                  className="w-full rounded-md bg-emerald-500/80 transition-all"
+                  style={{ height: `${(totals.focusSeconds / weekMax) * 100}%` }}
+                  title={`${formatDuration(totals.focusSeconds)} · ${formatInterruptions(totals.interruptions, t)}`}
+                />
+                <span className="text-[10px] text-slate-500">
+                  {formatDate(day, locale, { weekday: 'short' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Calendar Heatmap */}
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('stats.calendar')}</h3>
+          <div className="flex gap-1 p-4 rounded-xl bg-slate-900/60 border border-slate-800 overflow-x-auto">
+            {stats.heatmap.map((column, i) => (
+              <div key={i} className="flex flex-col gap-1">
+                {column.map(day => (
+                  <div
+                    key={day.key}
+                    className={`w-3.5 h-3.5 rounded-sm ${heatColor(day.seconds)} ${day.key === toDateKey(now) ? 'ring-1 ring-emerald-300' : ''}`}
+                    title={`${day.key}: ${formatDuration(day.seconds)}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Per-Task Breakdown */}
+        <section className="mb-8">
+          <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('stats.byTask')}</h3>
+          {stats.tasks.length === 0 ? (
+            <div className="text-center py-8 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-xl">
+              {t('stats.empty')}
+            </div>
+          ) : (
+            <FocusBars items={stats.tasks} barClass="bg-cyan-500" />
+          )}
+        </section>
+
+        {/* Per-Project & Per-Tag Breakdown (only once there's something to group by) */}
+        {projects.length > 0 && stats.projects.length > 0 && (
+          <section className="mb-8">
+            <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('stats.byProject')}</h3>
+            <FocusBars items={stats.projects} barClass="bg-indigo-500" />
+          </section>
+        )}
+        {stats.tags.length > 0 && (
+          <section>
+            <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">{t('stats.byTag')}</h3>
+            <FocusBars items={stats.tags} barClass="bg-emerald-500" />
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
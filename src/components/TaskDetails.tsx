@@ -0,0 +1,119 @@
+import { useState, type KeyboardEvent } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+import type { Project, RecurrenceRule, Task, TaskPriority } from '../types';
+import { TASK_PRIORITIES, normalizeTag } from '../lib/filters';
+import { RECURRENCE_RULES, makeRecurrence, weekdayLetters } from '../lib/recurrence';
+import { useI18n } from '../hooks/useI18n';
+
+interface TaskDetailsProps {
+  task: Task;
+  projects: Project[];
+  today: string; // date key; a new repeat starts counting from here
+  onUpdate: (changes: Partial<Task>) => void;
+  onSaveTemplate: () => void;
+}
+
+const fieldClass = "bg-slate-900/50 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-500/50";
+
+// Project, priority, due date and tags, edited from the expanded task
+export const TaskDetails = ({ task, projects, today, onUpdate, onSaveTemplate }: TaskDetailsProps) => {
+  const { locale, t } = useI18n();
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+
+  const commitTags = () => {
+    if (tagDraft === null) return;
+    const tags = [...new Set(tagDraft.split(/[,\s]+/).map(normalizeTag).filter(Boolean))];
+    onUpdate({ tags: tags.length ? tags : undefined });
+    setTagDraft(null);
+  };
+
+  const handleTagKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitTags();
+    if (e.key === 'Escape') setTagDraft(null);
+  };
+
+  const setRule = (rule: RecurrenceRule | '') => {
+    onUpdate({ recurrence: rule ? makeRecurrence(rule, today, task.recurrence?.days) : undefined });
+  };
+
+  // The last remaining day can't be switched off; pick "Doesn't repeat" for that
+  const toggleDay = (day: number) => {
+    if (!task.recurrence) return;
+    const { days } = task.recurrence;
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    if (next.length > 0) onUpdate({ recurrence: { ...task.recurrence, days: next } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pb-1">
+      <select
+        aria-label={t('details.project')}
+        value={task.projectId ?? ''}
+        onChange={(e) => onUpdate({ projectId: e.target.value ? Number(e.target.value) : undefined })}
+        className={fieldClass}
+      >
+        <option value="">{t('project.inbox')}</option>
+        {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <select
+        aria-label={t('details.priority')}
+        value={task.priority ?? ''}
+        onChange={(e) => onUpdate({ priority: (e.target.value || undefined) as TaskPriority | undefined })}
+        className={fieldClass}
+      >
+        <option value="">{t('details.noPriority')}</option>
+        {TASK_PRIORITIES.map(p => <option key={p} value={p}>{t(`priority.${p}`)}</option>)}
+      </select>
+      <input
+        type="date"
+        aria-label={t('details.due')}
+        value={task.dueDate ?? ''}
+        onChange={(e) => onUpdate({ dueDate: e.target.value || undefined })}
+        className={`${fieldClass} [color-scheme:dark]`}
+      />
+      <input
+        type="text"
+        aria-label={t('details.tags')}
+        placeholder={t('details.tagsPlaceholder')}
+        value={tagDraft ?? (task.tags || []).join(', ')}
+        onFocus={() => setTagDraft((task.tags || []).join(', '))}
+        onChange={(e) => setTagDraft(e.target.value)}
+        onBlur={commitTags}
+        onKeyDown={handleTagKey}
+        className={`${fieldClass} flex-1 min-w-[8rem]`}
+      />
+      <select
+        aria-label={t('details.repeat')}
+        value={task.recurrence?.rule ?? ''}
+        onChange={(e) => setRule(e.target.value as RecurrenceRule | '')}
+        className={fieldClass}
+      >
+        <option value="">{t('details.noRepeat')}</option>
+        {RECURRENCE_RULES.map(rule => <option key={rule} value={rule}>{t(`recurrence.${rule}`)}</option>)}
+      </select>
+      {task.recurrence?.rule === 'custom' && (
+        <div className="flex gap-0.5" role="group" aria-label={t('details.repeatOn')}>
+          {weekdayLetters(locale).map((letter, day) => (
+            <button
+              key={day}
+              onClick={() => toggleDay(day)}
+              aria-pressed={task.recurrence!.days.includes(day)}
+              className={`w-6 h-6 rounded-full text-[11px] font-medium transition-colors ${task.recurrence!.days.includes(day)
+                ? 'bg-emerald-500/20 text-emerald-300'
+                : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {letter}
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={onSaveTemplate}
+        className="ml-auto inline-flex items-center gap-1 text-xs text-slate-500 hover:text-emerald-400"
+        title={t('details.templateHint')}
+      >
+        <BookmarkPlus size={14} /> {t('details.template')}
+      </button>
+    </div>
+  );
+};
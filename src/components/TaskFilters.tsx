@@ -0,0 +1,130 @@
+import { useState, type FormEvent } from 'react';
+import { Plus, X, Archive, Tag } from 'lucide-react';
+import type { Project } from '../types';
+import { TASK_SORTS, type TaskSort, type TaskView } from '../lib/filters';
+import { useI18n } from '../hooks/useI18n';
+import { EditableText } from './EditableText';
+
+interface TaskFiltersProps {
+  view: TaskView;
+  projects: Project[];
+  tags: string[];
+  completedCount: number; // completed tasks that could be archived
+  archivedCount: number;
+  onViewChange: (view: TaskView) => void;
+  onAddProject: (name: string) => void;
+  onRenameProject: (id: number, name: string) => void;
+  onDeleteProject: (id: number) => void;
+  onArchiveCompleted: () => void;
+  onShowArchive: () => void;
+}
+
+const chipClass = (selected: boolean) =>
+  `inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-all ${selected
+    ? 'bg-slate-800 border-slate-700 text-emerald-400'
+    : 'border-transparent text-slate-500 hover:text-slate-300'}`;
+
+const selectClass = "bg-slate-900/50 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-400 focus:outline-none focus:border-emerald-500/50";
+
+// Project tabs plus tag filter, sort order and the archive for "Current Priorities"
+export const TaskFilters = ({
+  view, projects, tags, completedCount, archivedCount,
+  onViewChange, onAddProject, onRenameProject, onDeleteProject, onArchiveCompleted, onShowArchive,
+}: TaskFiltersProps) => {
+  const { t } = useI18n();
+  const [newProject, setNewProject] = useState<string | null>(null);
+  const selected = typeof view.project === 'number' ? projects.find(p => p.id === view.project) : undefined;
+
+  const addProject = (e: FormEvent) => {
+    e.preventDefault();
+    if (newProject?.trim()) onAddProject(newProject.trim());
+    setNewProject(null);
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={() => onViewChange({ ...view, project: 'all' })} className={chipClass(view.project === 'all')}>
+          {t('filters.all')}
+        </button>
+        <button onClick={() => onViewChange({ ...view, project: 'inbox' })} className={chipClass(view.project === 'inbox')}>
+          {t('project.inbox')}
+        </button>
+        {projects.map(p => (
+          <button key={p.id} onClick={() => onViewChange({ ...view, project: p.id })} className={chipClass(view.project === p.id)}>
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: p.color }} />
+            {p.name}
+          </button>
+        ))}
+        {newProject === null ? (
+          <button onClick={() => setNewProject('')} className="p-1 text-slate-600 hover:text-emerald-400" title={t('filters.newProject')} aria-label={t('filters.newProject')}>
+            <Plus size={14} />
+          </button>
+        ) : (
+          <form onSubmit={addProject}>
+            <input
+              autoFocus
+              value={newProject}
+              onChange={(e) => setNewProject(e.target.value)}
+              onBlur={addProject}
+              onKeyDown={(e) => { if (e.key === 'Escape') setNewProject(null); }}
+              placeholder={t('filters.projectName')}
+              aria-label={t('filters.newProjectName')}
+              className="w-28 bg-slate-900 border border-emerald-500/50 rounded-full px-3 py-1 text-xs text-slate-200 focus:outline-none"
+            />
+          </form>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        {selected && (
+          <span className="inline-flex items-center gap-1 mr-auto">
+            <EditableText value={selected.name} onSave={(name) => onRenameProject(selected.id, name)} label={t('filters.projectName')} className="text-slate-400" />
+            <button
+              onClick={() => onDeleteProject(selected.id)}
+              className="p-1 text-slate-600 hover:text-rose-400"
+              title={t('filters.deleteProject')}
+              aria-label={t('filters.deleteProject')}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        )}
+        {tags.length > 0 && (
+          <label className="inline-flex items-center gap-1">
+            <Tag size={12} />
+            <select
+              aria-label={t('filters.byTag')}
+              value={view.tag ?? ''}
+              onChange={(e) => onViewChange({ ...view, tag: e.target.value || null })}
+              className={selectClass}
+            >
+              <option value="">{t('filters.anyTag')}</option>
+              {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+            </select>
+          </label>
+        )}
+        <select
+          aria-label={t('filters.sort')}
+          value={view.sort}
+          onChange={(e) => onViewChange({ ...view, sort: e.target.value as TaskSort })}
+          className={selectClass}
+        >
+          {TASK_SORTS.map(sort => <option key={sort} value={sort}>{t('filters.sortBy', { order: t(`sort.${sort}`) })}</option>)}
+        </select>
+        <span className="ml-auto inline-flex items-center gap-2">
+          {completedCount > 0 && (
+            <button onClick={onArchiveCompleted} className="hover:text-emerald-400" title={t('filters.archiveHint')}>
+              {t('filters.archiveDone', { count: completedCount })}
+            </button>
+          )}
+          {archivedCount > 0 && (
+            <button onClick={onShowArchive} className="inline-flex items-center gap-1 hover:text-slate-300" title={t('filters.showArchive')} aria-label={t('filters.showArchive')}>
+              <Archive size={12} /> {archivedCount}
+            </button>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,318 @@
+import { useEffect, useRef, useState, type DragEvent, type FormEvent, type KeyboardEvent } from 'react';
+import { Check, ChevronRight, GripVertical, Loader2, Plus, Sparkles, Trash2, X, CornerLeftUp, Pin, Clock, Flag, CalendarDays, Repeat } from 'lucide-react';
+import type { Project, Task, TaskPriority } from '../types';
+import { dueStatus, formatDue } from '../lib/filters';
+import { describeRecurrence } from '../lib/recurrence';
+import { estimatePomodoros, remainingEstimate } from '../lib/breakdown';
+import { useI18n } from '../hooks/useI18n';
+import { EditableText } from './EditableText';
+import { PomodoroCount } from './PomodoroCount';
+import { TaskDetails } from './TaskDetails';
+
+const TASK_DRAG_TYPE = 'application/x-zenfocus-task';
+// Subtasks only reorder within their own task, so the parent id is part of the type
+const subtaskDragType = (taskId: number) => `application/x-zenfocus-subtask-${taskId}`;
+
+interface TaskItemProps {
+  task: Task;
+  index: number;
+  focusMinutes: number;
+  isBreakingDown: boolean;
+  isQueued: boolean; // breakdown waiting for the AI provider to be reachable
+  isActive: boolean; // the task focus sessions are currently attributed to
+  isPinned: boolean;
+  isSelected: boolean; // keyboard cursor from j/k
+  projects: Project[];
+  showProject: boolean; // off when the list is already filtered to one project
+  today: string; // date key, for due-date badges
+  onUpdate: (changes: Partial<Task>) => void;
+  onTagClick: (tag: string) => void;
+  onSaveTemplate: () => void;
+  onPin: () => void;
+  onEstimateChange: (estimated: number) => void;
+  onToggle: () => void;
+  onToggleExpand: () => void;
+  onDelete: () => void;
+  onBreakdown: () => void;
+  onRename: (text: string) => void;
+  onMove: (taskId: number, toIndex: number) => void;
+  onAddSubtask: (text: string) => void;
+  onToggleSubtask: (subtaskId: number) => void;
+  onRenameSubtask: (subtaskId: number, text: string) => void;
+  onDeleteSubtask: (subtaskId: number) => void;
+  onMoveSubtask: (subtaskId: number, toIndex: number) => void;
+  onPromoteSubtask: (subtaskId: number) => void;
+}
+
+// Arrow keys on a drag handle move the item one slot up or down
+const handleReorderKey = (e: KeyboardEvent, index: number, move: (to: number) => void) => {
+  if (e.key === 'ArrowUp') {
+    e.preventDefault();
+    move(index - 1);
+  } else if (e.key === 'ArrowDown') {
+    e.preventDefault();
+    move(index + 1);
+  }
+};
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  high: 'text-rose-400',
+  medium: 'text-amber-400',
+  low: 'text-sky-400',
+};
+
+const DUE_COLORS = {
+  overdue: 'text-rose-400 bg-rose-500/10',
+  today: 'text-amber-400 bg-amber-500/10',
+  upcoming: 'text-slate-400 bg-slate-800/60',
+};
+
+const allowDrop = (type: string) => (e: DragEvent) => {
+  if (e.dataTransfer.types.includes(type)) e.preventDefault();
+};
+
+export const TaskItem = ({
+  task, index, focusMinutes, isBreakingDown, isQueued, isActive, isPinned, isSelected, projects, showProject, today,
+  onUpdate, onTagClick, onSaveTemplate, onPin, onEstimateChange,
+  onToggle, onToggleExpand, onDelete, onBreakdown, onRename, onMove,
+  onAddSubtask, onToggleSubtask, onRenameSubtask, onDeleteSubtask, onMoveSubtask, onPromoteSubtask,
+}: TaskItemProps) => {
+  const { locale, t } = useI18n();
+  const [newSubtask, setNewSubtask] = useState('');
+  const row = useRef<HTMLDivElement>(null);
+  const subtasks = task.subtasks || [];
+  const estimate = remainingEstimate(subtasks);
+  const project = showProject ? projects.find(p => p.id === task.projectId) : undefined;
+
+  const addSubtask = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim()) return;
+    onAddSubtask(newSubtask.trim());
+    setNewSubtask('');
+  };
+
+  const dropTask = (e: DragEvent) => {
+    const draggedId = Number(e.dataTransfer.getData(TASK_DRAG_TYPE));
+    if (!draggedId) return;
+    e.preventDefault();
+    onMove(draggedId, index);
+  };
+
+  const dropSubtask = (toIndex: number) => (e: DragEvent) => {
+    const draggedId = Number(e.dataTransfer.getData(subtaskDragType(task.id)));
+    if (!draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onMoveSubtask(draggedId, toIndex);
+  };
+
+  useEffect(() => {
+    if (isSelected) row.current?.scrollIntoView({ block: 'nearest' });
+  }, [isSelected]);
+
+  return (
+    <div className="flex flex-col gap-2" onDragOver={allowDrop(TASK_DRAG_TYPE)} onDrop={dropTask}>
+      <div
+        ref={row}
+        className={`group flex items-center gap-3 p-4 rounded-xl border transition-all duration-300 ${isSelected ? 'ring-1 ring-slate-400/40' : ''} ${task.completed
+          ? 'bg-slate-900/30 border-slate-900 text-slate-600'
+          : isActive
+            ? 'bg-emerald-500/5 border-emerald-500/40 text-slate-100'
+            : 'bg-slate-800/40 border-slate-700/50 text-slate-200 hover:border-emerald-500/30'
+          }`}
+      >
+        <button
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(TASK_DRAG_TYPE, String(task.id))}
+          onKeyDown={(e) => handleReorderKey(e, index, (to) => onMove(task.id, to))}
+          className="-ml-2 text-slate-600 hover:text-slate-400 cursor-grab active:cursor-grabbing focus:outline-none focus-visible:text-emerald-400"
+          title={t('task.reorderHint')}
+          aria-label={t('task.reorder', { task: task.text })}
+        >
+          <GripVertical size={16} />
+        </button>
+
+        <button
+          onClick={onToggleExpand}
+          className={`text-slate-500 hover:text-slate-300 transition-transform ${task.isExpanded ? 'rotate-90' : ''}`}
+          aria-label={task.isExpanded ? t('task.collapse') : t('task.expand')}
+        >
+          <ChevronRight size={16} className={subtasks.length > 0 ? '' : 'opacity-30'} />
+        </button>
+
+        <button
+          onClick={onToggle}
+          className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${task.completed ? 'border-emerald-900 bg-emerald-900/20 text-emerald-700' : 'border-slate-600 hover:border-emerald-500 text-transparent'
+            }`}
+          aria-label={t('task.complete', { task: task.text })}
+          aria-pressed={task.completed}
+        >
+          <Check size={14} strokeWidth={3} />
+        </button>
+
+        <div className="flex-1 min-w-0 flex flex-wrap items-center gap-x-2 gap-y-1">
+          <EditableText
+            value={task.text}
+            onSave={onRename}
+            label={t('task.name')}
+            className={`text-sm ${task.completed ? 'line-through' : ''}`}
+            inputClassName="text-sm"
+          />
+          {task.priority && !task.completed && (
+            <Flag size={12} className={`flex-shrink-0 fill-current ${PRIORITY_COLORS[task.priority]}`} aria-label={t('task.priority', { priority: t(`priority.${task.priority}`) })} />
+          )}
+          {task.recurrence && (
+            <Repeat size={12} className="flex-shrink-0 text-slate-500" aria-label={describeRecurrence(task.recurrence, t, locale)} />
+          )}
+          {task.dueDate && !task.completed && (
+            <span className={`inline-flex items-center gap-1 px-1.5 rounded text-[11px] ${DUE_COLORS[dueStatus(task.dueDate, today)]}`} title={t('task.due', { date: task.dueDate })}>
+              <CalendarDays size={10} /> {formatDue(task.dueDate, today, t, locale)}
+            </span>
+          )}
+          {project && (
+            <span className="inline-flex items-center gap-1 text-[11px] text-slate-500">
+              <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: project.color }} /> {project.name}
+            </span>
+          )}
+          {(task.tags || []).map(tag => (
+            <button key={tag} onClick={() => onTagClick(tag)} className="text-[11px] text-cyan-500/80 hover:text-cyan-300" title={t('task.showTag', { tag })}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+
+        {!task.completed && estimate > 0 && (
+          <span className="text-xs text-slate-500 whitespace-nowrap" title={t('task.stepsLeft', { minutes: estimate })}>
+            {t('task.pomodoroEstimate', { count: estimatePomodoros(estimate, focusMinutes) })}
+          </span>
+        )}
+
+        <PomodoroCount
+          completed={task.completedPomodoros || 0}
+          estimated={task.estimatedPomodoros}
+          onChange={task.completed ? undefined : onEstimateChange}
+        />
+
+        {!task.completed && (
+          <button
+            onClick={onPin}
+            className={`p-2 rounded-lg transition-all ${isPinned
+              ? 'text-emerald-400'
+              : 'opacity-0 group-hover:opacity-100 text-slate-500 hover:text-emerald-400'
+              }`}
+            title={isPinned ? t('task.unpin') : t('task.pin')}
+            aria-label={t('task.pin')}
+            aria-pressed={isPinned}
+          >
+            <Pin size={16} className={isPinned ? 'fill-current' : ''} />
+          </button>
+        )}
+
+        {!task.completed && (
+          <button
+            onClick={onBreakdown}
+            disabled={isBreakingDown}
+            className={`${isQueued ? '' : 'opacity-0 group-hover:opacity-100'} p-2 text-violet-400 hover:bg-violet-500/10 rounded-lg transition-all`}
+            title={isQueued ? t('task.queued') : t('task.breakdown')}
+            aria-label={isQueued ? t('task.queued') : t('task.breakdown')}
+          >
+            {isBreakingDown ? <Loader2 className="animate-spin" size={16} /> : isQueued ? <Clock size={16} /> : <Sparkles size={16} />}
+          </button>
+        )}
+
+        <button
+          onClick={onDelete}
+          className="opacity-0 group-hover:opacity-100 p-2 text-slate-500 hover:text-rose-400 transition-all"
+          title={t('task.delete')}
+          aria-label={t('task.delete')}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {/* Subtasks List */}
+      {task.isExpanded && (
+        <div className="pl-12 pr-4 space-y-2 animate-in slide-in-from-top-2">
+          <TaskDetails task={task} projects={projects} today={today} onUpdate={onUpdate} onSaveTemplate={onSaveTemplate} />
+          {subtasks.map((st, i) => {
+            // Steps still waiting on an unfinished prerequisite are dimmed
+            const blockers = (st.dependsOn || [])
+              .map(id => subtasks.findIndex(other => other.id === id && !other.completed))
+              .filter(b => b >= 0);
+            return (
+              <div
+                key={st.id}
+                onDragOver={allowDrop(subtaskDragType(task.id))}
+                onDrop={dropSubtask(i)}
+                className={`group/sub flex items-center gap-3 text-sm text-slate-400 ${blockers.length > 0 && !st.completed ? 'opacity-60' : ''}`}
+              >
+                <button
+                  draggable
+                  onDragStart={(e) => {
+                    e.stopPropagation();
+                    e.dataTransfer.setData(subtaskDragType(task.id), String(st.id));
+                  }}
+                  onKeyDown={(e) => handleReorderKey(e, i, (to) => onMoveSubtask(st.id, to))}
+                  className="-ml-6 text-slate-700 hover:text-slate-400 cursor-grab opacity-0 group-hover/sub:opacity-100 focus:opacity-100 focus:outline-none focus-visible:text-emerald-400"
+                  title={t('task.reorderHint')}
+                  aria-label={t('task.reorder', { task: st.text })}
+                >
+                  <GripVertical size={12} />
+                </button>
+                <button
+                  onClick={() => onToggleSubtask(st.id)}
+                  className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center transition-all ${st.completed ? 'border-emerald-900 bg-emerald-900/20 text-emerald-700' : 'border-slate-600 hover:border-emerald-500 text-transparent'
+                    }`}
+                  aria-label={t('task.complete', { task: st.text })}
+                  aria-pressed={st.completed}
+                >
+                  <Check size={10} strokeWidth={3} />
+                </button>
+                <EditableText
+                  value={st.text}
+                  onSave={(text) => onRenameSubtask(st.id, text)}
+                  label={t('step.name')}
+                  className={`flex-1 ${st.completed ? 'line-through opacity-50' : ''}`}
+                />
+                {blockers.length > 0 && !st.completed && (
+                  <span className="text-xs text-slate-600">{t('step.after', { steps: blockers.map(b => b + 1).join(', ') })}</span>
+                )}
+                {st.estimatedMinutes !== undefined && (
+                  <span className="text-xs text-slate-600 font-mono">~{st.estimatedMinutes}m</span>
+                )}
+                <button
+                  onClick={() => onPromoteSubtask(st.id)}
+                  className="opacity-0 group-hover/sub:opacity-100 text-slate-500 hover:text-emerald-400 transition-all"
+                  title={t('step.promote')}
+                  aria-label={t('step.promote')}
+                >
+                  <CornerLeftUp size={14} />
+                </button>
+                <button
+                  onClick={() => onDeleteSubtask(st.id)}
+                  className="opacity-0 group-hover/sub:opacity-100 text-slate-500 hover:text-rose-400 transition-all"
+                  title={t('step.delete')}
+                  aria-label={t('step.delete')}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            );
+          })}
+
+          <form onSubmit={addSubtask} className="flex items-center gap-3">
+            <Plus size={14} className="text-slate-600 flex-shrink-0" />
+            <input
+              type="text"
+              value={newSubtask}
+              onChange={(e) => setNewSubtask(e.target.value)}
+              placeholder={t('step.add')}
+              aria-label={t('step.add')}
+              className="flex-1 bg-transparent border-b border-slate-800 py-1 text-sm text-slate-300 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50"
+            />
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
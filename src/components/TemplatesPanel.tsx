@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { X, Play, Trash2, ListChecks } from 'lucide-react';
+import type { FocusTemplate, TimerSequence } from '../types';
+import { formatSequence, parseSequence } from '../lib/templates';
+import { useI18n } from '../hooks/useI18n';
+import { Button } from './Button';
+import { EditableText } from './EditableText';
+
+interface TemplatesPanelProps {
+  templates: FocusTemplate[];
+  focusMinutes: number; // the regular cycle, shown for templates without a sequence
+  onStart: (template: FocusTemplate) => void;
+  onUpdate: (id: number, changes: Partial<FocusTemplate>) => void;
+  onDelete: (id: number) => void;
+  onClose: () => void;
+}
+
+// Free-form "50/10 x3" field; an empty value falls back to the regular cycle
+const SequenceField = ({ sequence, onSave }: { sequence?: TimerSequence; onSave: (sequence?: TimerSequence) => void }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<string | null>(null);
+  const invalid = draft !== null && draft.trim() !== '' && parseSequence(draft) === null;
+
+  const commit = () => {
+    if (draft === null || invalid) return;
+    onSave(parseSequence(draft) ?? undefined);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      aria-label={t('templates.sequence')}
+      placeholder={t('templates.sequencePlaceholder')}
+      title={t('templates.sequenceHint')}
+      value={draft ?? (sequence ? formatSequence(sequence) : '')}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={`w-28 bg-slate-900/50 border rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none ${invalid
+        ? 'border-rose-500/60'
+        : 'border-slate-800 focus:border-emerald-500/50'}`}
+    />
+  );
+};
+
+export const TemplatesPanel = ({ templates, focusMinutes, onStart, onUpdate, onDelete, onClose }: TemplatesPanelProps) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm overflow-y-auto animate-in fade-in">
+      <div className="max-w-md mx-auto px-6 py-12">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-emerald-400 to-cyan-400">
+            {t('templates.title')}
+          </h2>
+          <Button variant="ghost" onClick={onClose} label={t('panel.close')}>
+            <X size={20} />
+          </Button>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="text-center py-8 px-6 text-slate-600 text-sm border-2 border-dashed border-slate-800/50 rounded-xl">
+            {t('templates.empty')}
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {templates.map(template => (
+              <li key={template.id} className="p-4 rounded-xl bg-slate-900/60 border border-slate-800">
+                <div className="flex items-center gap-3 mb-2">
+                  <EditableText
+                    value={template.name}
+                    onSave={(name) => onUpdate(template.id, { name })}
+                    label={t('templates.name')}
+                    className="flex-1 text-sm font-medium text-slate-200"
+                  />
+                  <Button onClick={() => onStart(template)} className="py-1.5 px-3 text-sm" title={t('templates.startHint')}>
+                    <Play size={14} fill="currentColor" /> {t('templates.start')}
+                  </Button>
+                </div>
+                <div className="flex items-center gap-3 text-xs text-slate-500">
+                  <span className="inline-flex items-center gap-1" title={template.subtasks.map(st => st.text).join('\n')}>
+                    <ListChecks size={12} /> {t('templates.steps', { count: template.subtasks.length })}
+                  </span>
+                  <SequenceField sequence={template.sequence} onSave={(sequence) => onUpdate(template.id, { sequence })} />
+                  {!template.sequence && <span>{t('templates.blocks', { minutes: focusMinutes })}</span>}
+                  <button onClick={() => onDelete(template.id)} className="ml-auto p-1 hover:text-rose-400" title={t('templates.delete')} aria-label={t('templates.delete')}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { renderProgressIcon } from '../lib/favicon';
+
+const DEFAULT_ICON = '/icon.svg';
+
+// Mirrors the timer's progress ring in the tab icon while a session is under way
+export function useFavicon(progress: number, color: string, running: boolean, enabled: boolean) {
+  // Redraw on whole-percent steps only; the ring is 16px wide in most tab strips
+  const percent = Math.round(progress * 100);
+
+  useEffect(() => {
+    const link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+    if (!link) return;
+    const icon = enabled && (running || percent > 0) ? renderProgressIcon(percent / 100, color, running) : null;
+    link.type = icon ? 'image/png' : 'image/svg+xml';
+    link.href = icon ?? DEFAULT_ICON;
+  }, [percent, color, running, enabled]);
+}
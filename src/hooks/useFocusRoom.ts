@@ -0,0 +1,139 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import type { RoomSettings } from '../types';
+import type { TimerState } from '../lib/timer';
+import {
+  fromSharedTimer, parseServerMessage, toSharedTimer,
+  type ClientMessage, type MemberStatus, type RoomMember, type ServerMessage,
+} from '../lib/room';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './useI18n';
+
+const RETRY_MS = 3000;
+
+export type RoomStatus = 'offline' | 'connecting' | 'connected';
+
+interface UseFocusRoomOptions {
+  timer: TimerState;
+  presence: MemberStatus;
+  onTimer: (next: TimerState, by: string) => void; // another member changed the shared timer
+}
+
+// Keeps this tab in the room named by `settings.code`, reconnecting until the code is
+// cleared. Local timer changes are only sent after shareTimer(), so phase ends that
+// every member's timer reaches on its own don't echo around the room. A share request
+// lapses after the next render, whether or not the action changed the timer, so a
+// timer that later arrives from the room is never sent back.
+export function useFocusRoom(settings: RoomSettings, { timer, presence, onTimer }: UseFocusRoomOptions) {
+  const { serverUrl, name, code } = settings;
+  const { t } = useI18n();
+  const [memberId] = useState(() => crypto.randomUUID());
+  const [joinedRoom, setJoinedRoom] = useState<string | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const socket = useRef<WebSocket | null>(null);
+  const shareFrom = useRef<TimerState | null>(null); // the timer as it was when shareTimer() was called
+
+  const send = (message: ClientMessage) => {
+    if (socket.current?.readyState === WebSocket.OPEN) socket.current.send(JSON.stringify(message));
+  };
+
+  const receive = useEffectEvent((message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        setJoinedRoom(message.room);
+        setMembers(message.members);
+        setError(null);
+        // The first one in brings their timer; everyone after adopts the room's
+        if (message.timer) onTimer(fromSharedTimer(message.timer, Date.now()), '');
+        else send({ type: 'timer', timer: toSharedTimer(timer, Date.now()) });
+        send({ type: 'presence', status: presence });
+        return;
+      case 'members':
+        return setMembers(message.members);
+      case 'timer':
+        return onTimer(fromSharedTimer(message.timer, Date.now()), message.by);
+      case 'error':
+        return setError(t(message.code ? `room.error.${message.code}` : 'room.error'));
+    }
+  });
+
+  const failed = useEffectEvent((key: MessageKey) => {
+    setJoinedRoom(null);
+    setError(t(key, { server: serverUrl }));
+  });
+
+  const left = useEffectEvent(() => {
+    setJoinedRoom(null);
+    setMembers([]);
+    setError(null);
+  });
+
+  useEffect(() => {
+    if (!code || !name) return;
+    let retry: number | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      let joined = false;
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(serverUrl);
+      } catch {
+        // A malformed URL throws right away; retrying won't fix it
+        failed('room.badUrl');
+        return;
+      }
+      socket.current = ws;
+      ws.onopen = () => ws.send(JSON.stringify({ type: 'join', room: code, member: { id: memberId, name } } satisfies ClientMessage));
+      ws.onmessage = (e) => {
+        const message = typeof e.data === 'string' ? parseServerMessage(e.data) : null;
+        if (!message) return;
+        if (message.type === 'joined') joined = true;
+        receive(message);
+      };
+      ws.onclose = () => {
+        if (stopped) return;
+        socket.current = null;
+        failed(joined ? 'room.lost' : 'room.unreachable');
+        retry = window.setTimeout(connect, RETRY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      window.clearTimeout(retry);
+      socket.current?.close();
+      socket.current = null;
+      left();
+    };
+  }, [serverUrl, name, code, memberId]);
+
+  // What this member is up to, for everyone's presence list
+  const presenceKey = JSON.stringify(presence);
+  const sendPresence = useEffectEvent(() => send({ type: 'presence', status: presence }));
+  useEffect(() => {
+    if (joinedRoom) sendPresence();
+  }, [presenceKey, joinedRoom]);
+
+  // Runs after every render: the action that asked to share has been applied by now
+  useEffect(() => {
+    const from = shareFrom.current;
+    if (!from) return;
+    shareFrom.current = null;
+    if (timer !== from) send({ type: 'timer', timer: toSharedTimer(timer, Date.now()) });
+  });
+
+  const status: RoomStatus = !code ? 'offline' : joinedRoom === code ? 'connected' : 'connecting';
+
+  return {
+    status,
+    members: status === 'connected' ? members : [],
+    memberId,
+    error: code ? error : null,
+    // Call right before a local timer change that everyone should follow
+    shareTimer: () => {
+      if (status === 'connected') shareFrom.current = timer;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useEffectEvent, useRef } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA');
+
+// For full-screen overlays: moves focus in on open, keeps Tab cycling inside, closes on
+// Escape (unless a text field wants it) and returns focus to whatever opened the overlay
+export function useFocusTrap<T extends HTMLElement>(active: boolean, onEscape: () => void) {
+  const container = useRef<T>(null);
+  const escape = useEffectEvent(onEscape);
+
+  useEffect(() => {
+    const root = container.current;
+    if (!active || !root) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    (root.querySelector<HTMLElement>('[data-autofocus]') ?? root.querySelector<HTMLElement>(FOCUSABLE))?.focus();
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isTextField(e.target)) {
+        escape();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const items = [...root.querySelectorAll<HTMLElement>(FOCUSABLE)];
+      if (items.length === 0) return;
+      const first = items[0];
+      const last = items[items.length - 1];
+      const current = document.activeElement;
+      if (!root.contains(current) || (e.shiftKey ? current === first : current === last)) {
+        e.preventDefault();
+        (e.shiftKey ? last : first).focus();
+      }
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('keydown', handleKey);
+      opener?.focus();
+    };
+  }, [active]);
+
+  return container;
+}
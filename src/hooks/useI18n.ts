@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import { createTranslator, type LocaleId, type Translate } from '../lib/i18n';
+
+export interface I18n {
+  locale: LocaleId;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18n>({ locale: 'en', t: createTranslator('en') });
+
+// The language App resolved from settings; components read it instead of taking props
+export function useI18n() {
+  return useContext(I18nContext);
+}
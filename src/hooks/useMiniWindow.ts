@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { openMiniWindow } from '../lib/pip';
+
+// Tracks the pop-out timer window; the caller portals its content into `miniWindow`
+export function useMiniWindow() {
+  const [miniWindow, setMiniWindow] = useState<Window | null>(null);
+
+  useEffect(() => {
+    if (!miniWindow) return;
+    const closed = () => setMiniWindow(null);
+    // A popup would otherwise outlive the tab that drives it
+    const closeMini = () => miniWindow.close();
+    miniWindow.addEventListener('pagehide', closed);
+    window.addEventListener('pagehide', closeMini);
+    return () => {
+      miniWindow.removeEventListener('pagehide', closed);
+      window.removeEventListener('pagehide', closeMini);
+    };
+  }, [miniWindow]);
+
+  // Must run from a click: both Picture-in-Picture and popups need a user gesture.
+  // A blocked popup is left to the browser's own "popup blocked" indicator.
+  const open = async () => {
+    if (miniWindow) {
+      miniWindow.focus();
+      return;
+    }
+    setMiniWindow(await openMiniWindow());
+  };
+
+  const close = () => {
+    miniWindow?.close();
+    setMiniWindow(null);
+  };
+
+  return { miniWindow, open, close };
+}
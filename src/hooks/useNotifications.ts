@@ -0,0 +1,43 @@
+import { useEffect, useEffectEvent, useRef } from 'react';
+import { crossedWarnings, type NotificationAction } from '../lib/notify';
+
+const ACTION_PARAM = 'notification-action';
+const isAction = (value: unknown): value is NotificationAction => value === 'start-next' || value === 'snooze';
+
+// Runs `onAction` for notification buttons, whether the click reached an open
+// tab through the service worker or opened a new one with ?notification-action=
+export function useNotificationActions(onAction: (action: NotificationAction) => void) {
+  const handle = useEffectEvent(onAction);
+
+  useEffect(() => {
+    const url = new URL(location.href);
+    const pending = url.searchParams.get(ACTION_PARAM);
+    if (isAction(pending)) {
+      url.searchParams.delete(ACTION_PARAM);
+      history.replaceState(null, '', url);
+      handle(pending);
+    }
+
+    const container = navigator.serviceWorker;
+    if (!container) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'notification-action' && isAction(e.data.action)) handle(e.data.action);
+    };
+    container.addEventListener('message', onMessage);
+    container.startMessages();
+    return () => container.removeEventListener('message', onMessage);
+  }, []);
+}
+
+// Calls `onWarn` with the minutes left each time a running countdown passes one of `warnings`
+export function usePreEndWarnings(secondsLeft: number, running: boolean, warnings: number[], onWarn: (minutes: number) => void) {
+  const previous = useRef(secondsLeft);
+  const warn = useEffectEvent(onWarn);
+
+  useEffect(() => {
+    const crossed = running ? crossedWarnings(previous.current, secondsLeft, warnings) : [];
+    previous.current = secondsLeft;
+    // If a throttled tab skipped past several at once, the nearest one is what matters
+    if (crossed.length > 0) warn(Math.min(...crossed));
+  }, [secondsLeft, running, warnings]);
+}
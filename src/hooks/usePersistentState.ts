@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getStore, type StorageSpec } from '../lib/storage';
+
+// Persistent, cross-tab synced state. The setter accepts updater functions,
+// which always run against the latest stored value, even after an await.
+export function usePersistentState<T>(spec: StorageSpec<T>) {
+  const store = getStore(spec);
+  const value = useSyncExternalStore(store.subscribe, store.get, () => spec.defaultValue);
+  return [value, store.set] as const;
+}
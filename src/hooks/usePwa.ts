@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import { applyUpdate, isUpdateReady, subscribeToUpdates } from '../lib/pwa';
+
+const subscribeToNetwork = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribeToNetwork, () => navigator.onLine, () => true);
+}
+
+export function useUpdatePrompt() {
+  const updateReady = useSyncExternalStore(subscribeToUpdates, isUpdateReady, () => false);
+  return { updateReady, applyUpdate };
+}
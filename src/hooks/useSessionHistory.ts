@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import {
+  createHistoryStore, createIndexedDBBackend, createLocalBackend, getStore, LOCAL_HISTORY,
+} from '../lib/storage';
+
+const legacy = getStore(LOCAL_HISTORY);
+const historyStore = createHistoryStore(
+  typeof indexedDB === 'undefined' ? createLocalBackend(legacy) : createIndexedDBBackend(legacy),
+);
+
+// Session history from IndexedDB; starts empty and fills in once loaded
+export function useSessionHistory() {
+  const history = useSyncExternalStore(historyStore.subscribe, historyStore.get);
+  return [history, historyStore.add] as const;
+}
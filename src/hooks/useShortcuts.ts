@@ -0,0 +1,26 @@
+import { useEffect, useEffectEvent } from 'react';
+import { eventToCombo, findAction, targetOwnsKey, type Bindings, type ShortcutAction } from '../lib/shortcuts';
+
+// Runs the handler bound to each key press, unless the focused control needs
+// the key or `enabled` is false (e.g. a modal owns the keyboard). Actions in
+// `always` fire regardless.
+export function useShortcuts(
+  bindings: Bindings,
+  handlers: Partial<Record<ShortcutAction, () => void>>,
+  { enabled = true, always = [] as ShortcutAction[] } = {},
+) {
+  const onKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.repeat) return;
+    const combo = eventToCombo(e);
+    const action = combo && findAction(bindings, combo);
+    if (!action || !handlers[action]) return;
+    if (!always.includes(action) && (!enabled || targetOwnsKey(e.target, combo))) return;
+    e.preventDefault();
+    handlers[action]();
+  });
+
+  useEffect(() => {
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+}
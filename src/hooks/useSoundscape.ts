@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import type { ChimeId, SoundMix } from '../types';
+import { createSoundscape, type Soundscape } from '../lib/audio';
+
+// Fades the ambient mix in while `playing` and out otherwise. Changing the mix
+// mid-session (e.g. focus → break) cross-fades between the two.
+export function useSoundscape(playing: boolean, mix: SoundMix, volume: number) {
+  const engine = useRef<Soundscape | null>(null);
+
+  useEffect(() => {
+    if (playing) (engine.current ??= createSoundscape()).play(mix, volume);
+    else engine.current?.stop();
+  }, [playing, mix, volume]);
+
+  useEffect(() => () => {
+    engine.current?.close();
+    engine.current = null;
+  }, []);
+
+  const chime = (id: ChimeId, chimeVolume: number) => {
+    (engine.current ??= createSoundscape()).chime(id, chimeVolume);
+  };
+
+  return { chime };
+}
@@ -0,0 +1,32 @@
+import { useLayoutEffect, useMemo, useSyncExternalStore } from 'react';
+import type { ThemeSettings } from '../types';
+import { applyTheme, modeAccents, resolveTheme } from '../lib/theme';
+
+const mediaQuery = (query: string) => ({
+  subscribe: (listener: () => void) => {
+    const list = window.matchMedia(query);
+    list.addEventListener('change', listener);
+    return () => list.removeEventListener('change', listener);
+  },
+  matches: () => window.matchMedia(query).matches,
+});
+
+const prefersDark = mediaQuery('(prefers-color-scheme: dark)');
+const prefersContrast = mediaQuery('(prefers-contrast: more)');
+
+// Resolves 'auto' against the system, following it live, and paints the app and the
+// pop-out mini timer (a separate document with its own root element)
+export function useTheme(settings: ThemeSettings, miniWindow: Window | null) {
+  const dark = useSyncExternalStore(prefersDark.subscribe, prefersDark.matches, () => true);
+  const moreContrast = useSyncExternalStore(prefersContrast.subscribe, prefersContrast.matches, () => false);
+  const theme = resolveTheme(settings.theme, { dark, moreContrast });
+  const accents = useMemo(() => modeAccents(settings.accents, theme), [settings.accents, theme]);
+
+  // Before paint, so switching never flashes the old colors
+  useLayoutEffect(() => {
+    applyTheme(document, theme, accents);
+    if (miniWindow) applyTheme(miniWindow.document, theme, accents);
+  }, [theme, accents, miniWindow]);
+
+  return { theme, accents };
+}
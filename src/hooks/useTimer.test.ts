@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { useTimer } from './useTimer';
+import { createTimer, startTimer } from '../lib/timer';
+
+const STORAGE_KEY = 'test-timer';
+
+const setup = (onComplete = vi.fn()) => {
+  const hook = renderHook(() => useTimer({
+    storageKey: STORAGE_KEY,
+    initialMode: 'focus',
+    initialSeconds: 60,
+    onComplete,
+  }));
+  return { ...hook, onComplete };
+};
+
+describe('useTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-06T09:00:00Z'));
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('counts down and fires completion once', () => {
+    const { result, onComplete } = setup();
+    act(() => result.current.start());
+
+    act(() => { vi.advanceTimersByTime(30_000); });
+    expect(result.current.secondsLeft).toBe(30);
+    expect(result.current.isRunning).toBe(true);
+
+    act(() => { vi.advanceTimersByTime(31_000); });
+    expect(result.current.secondsLeft).toBe(0);
+    expect(result.current.status).toBe('finished');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({ mode: 'focus', status: 'finished' });
+  });
+
+  it('keeps paused time across a remount', () => {
+    const first = setup();
+    act(() => first.result.current.start());
+    act(() => { vi.advanceTimersByTime(10_000); });
+    act(() => first.result.current.pause());
+    first.unmount();
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    const { result } = setup();
+    expect(result.current.status).toBe('paused');
+    expect(result.current.secondsLeft).toBe(50);
+  });
+
+  it('resumes a running session after a reload', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(startTimer(createTimer('short', 60), Date.now())));
+    vi.advanceTimersByTime(45_000);
+
+    const { result } = setup();
+    expect(result.current.mode).toBe('short');
+    expect(result.current.isRunning).toBe(true);
+    expect(result.current.secondsLeft).toBe(15);
+  });
+
+  it('completes a session that ended while the page was closed', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(startTimer(createTimer('focus', 60), Date.now())));
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    const { result, onComplete } = setup();
+    act(() => { vi.advanceTimersByTime(250); });
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe('finished');
+  });
+
+  it('loads a new phase and can auto-start it', () => {
+    const { result } = setup();
+    act(() => result.current.load('long', 15 * 60, true));
+    expect(result.current.mode).toBe('long');
+    expect(result.current.isRunning).toBe(true);
+
+    act(() => { vi.advanceTimersByTime(60_000); });
+    expect(result.current.secondsLeft).toBe(14 * 60);
+  });
+});
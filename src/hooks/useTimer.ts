@@ -0,0 +1,115 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import type { TimerMode } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { adoptUnversioned } from '../lib/storage';
+import {
+  createTimer, finishTimer, getSecondsLeft, isExpired, isTimerState, pauseTimer, startTimer,
+  type TimerState,
+} from '../lib/timer';
+
+// How often the display re-derives from the wall clock while running
+const TICK_MS = 250;
+
+interface UseTimerOptions {
+  storageKey: string;
+  initialMode: TimerMode;
+  initialSeconds: number;
+  onComplete: (finished: TimerState, endedAt: number) => void;
+}
+
+// Wall-clock countdown that persists across reloads. Completion fires on the
+// first tick after `endsAt`, even if the tab slept through it.
+export function useTimer({ storageKey, initialMode, initialSeconds, onComplete }: UseTimerOptions) {
+  const [state, setState] = usePersistentState<TimerState>({
+    key: storageKey,
+    defaultValue: createTimer(initialMode, initialSeconds),
+    migrations: [adoptUnversioned],
+    repair: data => isTimerState(data) ? data : null,
+  });
+  const [now, setNow] = useState(() => Date.now());
+
+  // Always sees the latest callback without restarting the tick loop
+  const fireComplete = useEffectEvent(onComplete);
+
+  // Reads the latest state on every tick; returns true once the run has completed
+  const checkExpiry = useEffectEvent((current: number) => {
+    setNow(current);
+    if (!isExpired(state, current)) return false;
+
+    // Another open tab may have finished this run already. The updater runs
+    // synchronously against the stored value, so only one tab claims it.
+    let finished = null as TimerState | null;
+    setState(latest => {
+      if (latest.status !== 'running' || latest.endsAt !== state.endsAt) return latest;
+      finished = finishTimer(latest);
+      return finished;
+    });
+    // Report the scheduled end, not the (possibly much later) tick that noticed it
+    if (finished) fireComplete(finished, state.endsAt ?? current);
+    return true;
+  });
+
+  // Restart the loop for every new run, so each run can complete exactly once
+  const { status, endsAt } = state;
+  useEffect(() => {
+    if (status !== 'running' || endsAt === null) return;
+
+    // Several queued ticks can run before React re-renders, so only the first one completes
+    let completed = false;
+    const tick = () => {
+      if (!completed) completed = checkExpiry(Date.now());
+    };
+
+    const id = window.setInterval(tick, TICK_MS);
+    // Background tabs throttle intervals, so catch up as soon as we're visible again
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      window.clearInterval(id);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [status, endsAt]);
+
+  // start and load return the timestamp they acted at, so callers can log
+  // session boundaries against exactly the same clock reading
+  const start = () => {
+    const current = Date.now();
+    setNow(current);
+    setState(latest => startTimer(latest, current));
+    return current;
+  };
+
+  const pause = () => {
+    const current = Date.now();
+    setState(latest => pauseTimer(latest, current));
+  };
+
+  // Load a fresh countdown, optionally starting it straight away
+  const load = (mode: TimerMode, seconds: number, autoStart = false) => {
+    const current = Date.now();
+    const next = createTimer(mode, seconds);
+    setNow(current);
+    setState(autoStart ? startTimer(next, current) : next);
+    return current;
+  };
+
+  // Take over a countdown from elsewhere (a focus room), as it stands right now
+  const replace = (next: TimerState) => {
+    const current = Date.now();
+    setNow(current);
+    setState(next);
+    return current;
+  };
+
+  return {
+    state,
+    mode: state.mode,
+    status: state.status,
+    plannedSeconds: state.plannedSeconds,
+    isRunning: state.status === 'running',
+    secondsLeft: getSecondsLeft(state, now),
+    start,
+    pause,
+    load,
+    replace,
+  };
+}
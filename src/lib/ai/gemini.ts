@@ -0,0 +1,33 @@
+import type { AIProvider } from './provider';
+import { AIError, assertOk } from './provider';
+
+interface GeminiConfig {
+  apiKey: string;
+  model: string;
+  endpoint: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model, endpoint }: GeminiConfig): AIProvider => ({
+  id: 'gemini',
+  generate: async ({ prompt, json, schema }) => {
+    if (!apiKey) throw new AIError('ai.gemini.noKey');
+
+    // Key goes in a header so it never ends up in URLs, logs or history
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        ...(json && {
+          generationConfig: { responseMimeType: 'application/json', ...(schema && { responseJsonSchema: schema }) },
+        }),
+      }),
+    });
+
+    await assertOk(response, 'gemini');
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new AIError('ai.gemini.empty');
+    return text;
+  },
+});
@@ -0,0 +1,55 @@
+import type { AISettings, AIProviderId } from '../../types';
+import type { AIProvider } from './provider';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+
+export type { AIProvider, AIRequest, AIPurpose } from './provider';
+export { AIError, describeAIError } from './provider';
+export type { Parsed } from './json';
+export { isPositiveInt, parseJsonReply, requestParsed } from './json';
+
+// Sensible starting values when switching providers in Settings
+export const PROVIDER_DEFAULTS: Record<AIProviderId, { model: string; endpoint: string }> = {
+  gemini: { model: 'gemini-2.5-flash', endpoint: 'https://generativelanguage.googleapis.com/v1beta' },
+  openai: { model: 'llama3.2', endpoint: 'http://localhost:11434/v1' },
+  mock: { model: 'mock', endpoint: '' },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: PROVIDER_DEFAULTS.gemini.model,
+  endpoint: PROVIDER_DEFAULTS.gemini.endpoint,
+  apiKey: '',
+};
+
+export const createProvider = (settings: AISettings, fallbackGeminiKey = ''): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider({ ...settings, apiKey: settings.apiKey || fallbackGeminiKey });
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+// Prompts are written in English; this asks for the answer in the user's language instead.
+// Structured replies keep their keys and ids so parsing doesn't depend on the language.
+export const withLanguage = (provider: AIProvider, language: string): AIProvider => language === 'English' ? provider : {
+  ...provider,
+  generate: request => provider.generate({
+    ...request,
+    prompt: `${request.prompt}\n\nWrite all human-readable text in ${language}. Keep JSON keys, ids and numbers exactly as specified.`,
+  }),
+};
+
+// Remote providers need the network; the offline demo and local servers don't
+export const needsNetwork = ({ provider, endpoint }: AISettings) => {
+  if (provider === 'mock') return false;
+  try {
+    return !['localhost', '127.0.0.1', '[::1]'].includes(new URL(endpoint).hostname);
+  } catch {
+    return true;
+  }
+};
@@ -0,0 +1,30 @@
+import { AIError, type AIProvider, type AIRequest } from './provider';
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// undefined when the reply isn't JSON at all
+export const parseJsonReply = (raw: string): unknown => {
+  try {
+    // Models sometimes wrap JSON in a markdown fence despite instructions
+    return JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    return undefined;
+  }
+};
+
+export const isPositiveInt = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Ask once, and give the model one chance to repair output that doesn't parse
+export const requestParsed = async <T>(provider: AIProvider, request: AIRequest, parse: (raw: string) => Parsed<T>) => {
+  const first = await provider.generate(request);
+  const parsed = parse(first);
+  if (parsed.ok) return parsed.value;
+
+  const retry = await provider.generate({
+    ...request,
+    prompt: `${request.prompt}\n\nYour previous answer was invalid (${parsed.error}):\n${first}\n\nReply again with corrected JSON only.`,
+  });
+  const repaired = parse(retry);
+  if (repaired.ok) return repaired.value;
+  throw new AIError(`ai.invalid.${request.purpose}`);
+};
@@ -0,0 +1,51 @@
+import type { AIProvider, AIRequest } from './provider';
+
+const COACH_TIPS = [
+  'Begin before you feel ready; momentum follows motion.',
+  'Do the smallest next step, then the next one.',
+  'You only have to focus for this one session.',
+  'Waste no more time arguing what the work should be. Do it.',
+  'Clear the desk, close the tabs, start the clock.',
+  'Progress, not perfection, is the goal of this block.',
+];
+
+// Small stable string hash so the same prompt always gets the same answer
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const respond = ({ purpose, prompt, subject, items = [] }: AIRequest) => {
+  const topic = subject || 'the task';
+  switch (purpose) {
+    case 'breakdown':
+      return JSON.stringify({
+        steps: [
+          { text: `Define what "done" looks like for ${topic}`, estimatedMinutes: 10, order: 1 },
+          { text: 'List the materials and information you need', estimatedMinutes: 15, order: 2, dependsOn: [1] },
+          { text: 'Work through the first concrete piece', estimatedMinutes: 45, order: 3, dependsOn: [2] },
+          { text: 'Review the result and note loose ends', estimatedMinutes: 20, order: 4, dependsOn: [3] },
+        ],
+      });
+    case 'coach':
+      return COACH_TIPS[hash(prompt) % COACH_TIPS.length];
+    case 'plan':
+      return JSON.stringify({
+        summary: 'Start with your top priority while your energy is fresh, then work down the list.',
+        blocks: items.map((item, i) => ({ task: item.id, pomodoros: i === 0 ? 2 : 1 })),
+      });
+    case 'review':
+      return JSON.stringify({
+        summary: 'You showed up and put in focused time today. Tomorrow, pick up where you left off.',
+        wins: ['You kept your sessions going'],
+        carryOver: items.slice(0, 3).map(item => ({ task: item.id, reason: 'Still open at the end of the day' })),
+      });
+  }
+};
+
+// Offline stand-in for demos and tests: no network, same input gives same output
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  generate: async (request) => respond(request),
+});
@@ -0,0 +1,36 @@
+import type { AIProvider } from './provider';
+import { AIError, assertOk } from './provider';
+
+interface OpenAIConfig {
+  apiKey: string;
+  model: string;
+  endpoint: string; // base URL up to /v1, e.g. http://localhost:11434/v1 for Ollama
+}
+
+// Works with OpenAI itself and any server speaking its chat completions API
+// (Ollama, llama.cpp, LM Studio, vLLM...).
+export const createOpenAIProvider = ({ apiKey, model, endpoint }: OpenAIConfig): AIProvider => ({
+  id: 'openai',
+  generate: async ({ prompt, purpose, schema }) => {
+    if (!endpoint) throw new AIError('ai.openai.noEndpoint');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(schema && { response_format: { type: 'json_schema', json_schema: { name: purpose, schema } } }),
+      }),
+    });
+
+    await assertOk(response, 'openai');
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new AIError('ai.openai.empty');
+    return text;
+  },
+});
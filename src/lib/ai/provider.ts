@@ -0,0 +1,45 @@
+import type { AIProviderId } from '../../types';
+import { LocalizedError, type MessageKey, type MessageVars, type Translate } from '../i18n';
+
+export type AIPurpose = 'breakdown' | 'coach' | 'plan' | 'review';
+
+export interface AIRequest {
+  purpose: AIPurpose;
+  prompt: string;
+  subject?: string; // the task the prompt is about, used by the offline mock
+  items?: { id: number; text: string }[]; // tasks the prompt offers to choose from, by the number it lists them under
+  json?: boolean; // ask the backend for a JSON-only response when it supports it
+  schema?: object; // JSON Schema the response must match, for backends with structured output
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  generate: (request: AIRequest) => Promise<string>;
+}
+
+// Error with a message that is safe to show inline in the UI
+export class AIError extends LocalizedError {
+  readonly status?: number;
+
+  constructor(key: MessageKey, vars?: MessageVars, status?: number) {
+    super(key, vars);
+    this.name = 'AIError';
+    this.status = status;
+  }
+}
+
+export const describeAIError = (error: unknown, t: Translate) => {
+  if (error instanceof AIError) return t(error.key, error.vars);
+  if (error instanceof TypeError) return t('ai.unreachable');
+  return t('ai.failed');
+};
+
+// Shared HTTP status handling for the network-backed providers
+export const assertOk = async (response: Response, provider: Exclude<AIProviderId, 'mock'>) => {
+  if (response.ok) return;
+  const { status } = response;
+  if (status === 401 || status === 403) throw new AIError(`ai.${provider}.keyRejected`, undefined, status);
+  if (status === 404) throw new AIError(`ai.${provider}.unknownModel`, undefined, status);
+  if (status === 429) throw new AIError(`ai.${provider}.quota`, undefined, status);
+  throw new AIError(`ai.${provider}.failed`, { status }, status);
+};
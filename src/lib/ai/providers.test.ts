@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTranslator } from '../i18n';
+import { AIError, createProvider, describeAIError, needsNetwork, withLanguage, type AIProvider } from './index';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('AI providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('mock provider answers deterministically without the network', async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const provider = createProvider({ provider: 'mock', model: 'mock', endpoint: '', apiKey: '' });
+
+    const first = await provider.generate({ purpose: 'coach', prompt: 'Write report' });
+    const second = await provider.generate({ purpose: 'coach', prompt: 'Write report' });
+    expect(first).toBe(second);
+
+    const { steps } = JSON.parse(await provider.generate({ purpose: 'breakdown', prompt: '...', subject: 'Write report' }));
+    expect(steps).toHaveLength(4);
+    expect(steps[0].text).toContain('Write report');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('gemini sends the key as a header, not in the URL', async () => {
+    const fetchSpy = vi.fn().mockResolvedValue(jsonResponse({
+      candidates: [{ content: { parts: [{ text: 'Breathe.' }] } }],
+    }));
+    vi.stubGlobal('fetch', fetchSpy);
+    const provider = createProvider(
+      { provider: 'gemini', model: 'gemini-test', endpoint: 'https://example.test/v1beta/', apiKey: '' },
+      'env-key',
+    );
+
+    await expect(provider.generate({ purpose: 'coach', prompt: 'hi' })).resolves.toBe('Breathe.');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://example.test/v1beta/models/gemini-test:generateContent');
+    expect(init.headers['x-goog-api-key']).toBe('env-key');
+  });
+
+  it('openai-compatible provider talks to chat completions', async () => {
+    const fetchSpy = vi.fn().mockResolvedValue(jsonResponse({
+      choices: [{ message: { content: 'Start small.' } }],
+    }));
+    vi.stubGlobal('fetch', fetchSpy);
+    const provider = createProvider({ provider: 'openai', model: 'llama3.2', endpoint: 'http://localhost:11434/v1', apiKey: '' });
+
+    await expect(provider.generate({ purpose: 'coach', prompt: 'hi' })).resolves.toBe('Start small.');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.2', messages: [{ role: 'user', content: 'hi' }] });
+  });
+
+  it('turns HTTP failures into readable errors in the reader\'s language', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, 429)));
+    const provider = createProvider({ provider: 'gemini', model: 'm', endpoint: 'https://example.test', apiKey: 'k' });
+
+    const error = await provider.generate({ purpose: 'coach', prompt: 'hi' }).catch(e => e);
+    expect(error).toBeInstanceOf(AIError);
+    expect(error.message).toMatch(/quota/);
+    expect(describeAIError(error, createTranslator('de'))).toMatch(/Kontingent/);
+  });
+
+  it('fails fast when gemini has no key', async () => {
+    const provider = createProvider({ provider: 'gemini', model: 'm', endpoint: 'https://example.test', apiKey: '' });
+    await expect(provider.generate({ purpose: 'coach', prompt: 'hi' })).rejects.toThrow(/API key/);
+  });
+
+  it('only treats remote providers as needing the network', () => {
+    expect(needsNetwork({ provider: 'mock', model: '', endpoint: '', apiKey: '' })).toBe(false);
+    expect(needsNetwork({ provider: 'openai', model: 'm', endpoint: 'http://localhost:11434/v1', apiKey: '' })).toBe(false);
+    expect(needsNetwork({ provider: 'openai', model: 'm', endpoint: 'https://api.example.test/v1', apiKey: 'k' })).toBe(true);
+    expect(needsNetwork({ provider: 'gemini', model: 'm', endpoint: 'not a url', apiKey: 'k' })).toBe(true);
+  });
+
+  it('asks for answers in the user\'s language without touching English requests', async () => {
+    const generate = vi.fn(async () => 'ok');
+    const provider: AIProvider = { id: 'mock', generate };
+    expect(withLanguage(provider, 'English')).toBe(provider);
+
+    await withLanguage(provider, 'German').generate({ purpose: 'coach', prompt: 'Give me a tip.' });
+    expect(generate).toHaveBeenCalledWith({ purpose: 'coach', prompt: expect.stringMatching(/^Give me a tip\.[\s\S]*in German/) });
+  });
+});
@@ -0,0 +1,55 @@
+import type { ChimeId } from '../../types';
+
+interface Partial {
+  frequency: number;
+  gain: number;
+  decay: number; // seconds until the partial has faded out
+  at?: number; // start offset in seconds
+  glideTo?: number; // frequency at the end of the decay
+}
+
+export const CHIMES: Record<Exclude<ChimeId, 'none'>, { partials: Partial[] }> = {
+  bell: {
+    partials: [
+      { frequency: 880, gain: 0.5, decay: 2.5 },
+      { frequency: 2428, gain: 0.2, decay: 1.2 },
+      { frequency: 4752, gain: 0.08, decay: 0.6 },
+    ],
+  },
+  bowl: {
+    partials: [
+      { frequency: 220, gain: 0.5, decay: 5 },
+      { frequency: 598, gain: 0.25, decay: 3.5 },
+      { frequency: 1144, gain: 0.1, decay: 2 },
+    ],
+  },
+  digital: {
+    partials: [
+      { frequency: 1047, gain: 0.3, decay: 0.15 },
+      { frequency: 1319, gain: 0.3, decay: 0.25, at: 0.18 },
+    ],
+  },
+  // The original ZenFocus beep
+  beep: {
+    partials: [{ frequency: 880, gain: 0.5, decay: 0.5, glideTo: 440 }],
+  },
+};
+
+export const playChime = (ctx: AudioContext, destination: AudioNode, id: ChimeId, volume: number) => {
+  if (id === 'none' || volume <= 0) return;
+  for (const partial of CHIMES[id].partials) {
+    const start = ctx.currentTime + (partial.at ?? 0);
+    const end = start + partial.decay;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(partial.frequency, start);
+    if (partial.glideTo) osc.frequency.exponentialRampToValueAtTime(partial.glideTo, end);
+    gain.gain.setValueAtTime(partial.gain * volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(start);
+    osc.stop(end);
+  }
+};
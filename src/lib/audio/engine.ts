@@ -0,0 +1,155 @@
+import type { ChimeId, SoundLayerId, SoundMix, SoundSettings } from '../../types';
+import { brownNoise, makeSeamless, pinkNoise, rain, whiteNoise } from './noise';
+import { playChime } from './chimes';
+
+export const SOUND_LAYERS: SoundLayerId[] = ['rain', 'brown', 'pink', 'white', 'binaural'];
+
+export const SILENT_MIX: SoundMix = { white: 0, pink: 0, brown: 0, rain: 0, binaural: 0 };
+
+// Ambience is opt-in: every mode starts silent and only the chime plays
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  mixes: { focus: SILENT_MIX, short: SILENT_MIX, long: SILENT_MIX },
+  volume: 0.6,
+  chime: 'beep',
+  chimeVolume: 0.8,
+};
+
+const FADE_SECONDS = 1.5;
+const LOOP_SECONDS = 6;
+// Evens out loudness so the same slider position sounds about as loud on every layer
+const LAYER_GAIN: Record<SoundLayerId, number> = { white: 0.2, pink: 0.45, brown: 0.8, rain: 0.6, binaural: 0.12 };
+// Two slightly detuned carriers, one per ear, leave a 10 Hz (alpha range) beat
+const BINAURAL = { carrier: 200, beat: 10 };
+
+export interface Soundscape {
+  play: (mix: SoundMix, volume: number) => void; // fades in, or cross-fades to a new mix
+  stop: () => void; // fades out, then releases the sources
+  chime: (id: ChimeId, volume: number) => void;
+  close: () => void;
+}
+
+interface Layer {
+  gain: GainNode;
+  stop: () => void;
+}
+
+type WebkitWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// The AudioContext is only created on first use, which is always after a click
+export const createSoundscape = (): Soundscape => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  const layers = new Map<SoundLayerId, Layer>();
+  const buffers = new Map<SoundLayerId, AudioBuffer>();
+  let releaseTimer: number | undefined;
+
+  const context = () => {
+    if (!ctx) {
+      const Context = window.AudioContext ?? (window as WebkitWindow).webkitAudioContext;
+      ctx = new Context();
+      master = ctx.createGain();
+      master.gain.value = 0;
+      master.connect(ctx.destination);
+    }
+    // Reloads with a running timer start suspended until the next user gesture
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+    return ctx;
+  };
+
+  const ramp = (param: AudioParam, value: number) => {
+    const now = context().currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + FADE_SECONDS);
+  };
+
+  const noiseBuffer = (id: SoundLayerId) => {
+    const c = context();
+    let buffer = buffers.get(id);
+    if (!buffer) {
+      const length = c.sampleRate * LOOP_SECONDS;
+      const overlap = Math.round(c.sampleRate * 0.25);
+      const samples = id === 'white' ? whiteNoise(length)
+        : id === 'pink' ? pinkNoise(length)
+          : id === 'brown' ? brownNoise(length)
+            : rain(length, c.sampleRate);
+      const seamless = makeSeamless(samples, overlap);
+      buffer = c.createBuffer(1, seamless.length, c.sampleRate);
+      buffer.copyToChannel(seamless, 0);
+      buffers.set(id, buffer);
+    }
+    return buffer;
+  };
+
+  const createLayer = (id: SoundLayerId): Layer => {
+    const c = context();
+    const gain = c.createGain();
+    gain.gain.value = 0;
+    gain.connect(master!);
+
+    if (id === 'binaural') {
+      const oscillators = [-1, 1].map(side => {
+        const osc = c.createOscillator();
+        const pan = c.createStereoPanner();
+        osc.frequency.value = BINAURAL.carrier + (side > 0 ? BINAURAL.beat : 0);
+        pan.pan.value = side;
+        osc.connect(pan).connect(gain);
+        osc.start();
+        return osc;
+      });
+      return { gain, stop: () => oscillators.forEach(osc => osc.stop()) };
+    }
+
+    const source = c.createBufferSource();
+    source.buffer = noiseBuffer(id);
+    source.loop = true;
+    source.connect(gain);
+    source.start();
+    return { gain, stop: () => source.stop() };
+  };
+
+  const play = (mix: SoundMix, volume: number) => {
+    context();
+    window.clearTimeout(releaseTimer);
+    for (const id of SOUND_LAYERS) {
+      const level = mix[id] * LAYER_GAIN[id];
+      let layer = layers.get(id);
+      if (!layer && level <= 0) continue;
+      if (!layer) {
+        layer = createLayer(id);
+        layers.set(id, layer);
+      }
+      ramp(layer.gain.gain, level);
+    }
+    ramp(master!.gain, volume);
+  };
+
+  const release = () => {
+    layers.forEach(layer => layer.stop());
+    layers.clear();
+  };
+
+  const stop = () => {
+    if (!master) return;
+    ramp(master.gain, 0);
+    window.clearTimeout(releaseTimer);
+    releaseTimer = window.setTimeout(release, FADE_SECONDS * 1000 + 100);
+  };
+
+  // Chimes bypass the ambient master so they're heard even when the mix is silent
+  const chime = (id: ChimeId, volume: number) => {
+    const c = context();
+    playChime(c, c.destination, id, volume);
+  };
+
+  const close = () => {
+    window.clearTimeout(releaseTimer);
+    release();
+    ctx?.close().catch(() => {});
+    ctx = null;
+    master = null;
+    buffers.clear();
+  };
+
+  return { play, stop, chime, close };
+};
@@ -0,0 +1,4 @@
+export type { Soundscape } from './engine';
+export { createSoundscape, SOUND_LAYERS, SILENT_MIX, DEFAULT_SOUND_SETTINGS } from './engine';
+export { CHIMES } from './chimes';
+export { whiteNoise, pinkNoise, brownNoise, rain, makeSeamless } from './noise';
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { brownNoise, makeSeamless, pinkNoise, rain, whiteNoise, type Random } from './noise';
+
+// Small LCG so every run synthesizes the same samples
+const seeded = (seed = 42): Random => () => {
+  seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+  return seed / 2 ** 32;
+};
+
+const inRange = (data: Float32Array) => data.every(sample => sample >= -1 && sample <= 1);
+const rms = (data: Float32Array) => Math.sqrt(data.reduce((sum, x) => sum + x * x, 0) / data.length);
+// Mean jump between neighbouring samples: high for bright noise, low for dark
+const roughness = (data: Float32Array) => data.slice(1).reduce((sum, x, i) => sum + Math.abs(x - data[i]), 0) / (data.length - 1);
+
+describe('noise generators', () => {
+  const length = 44_100;
+
+  it('stay within [-1, 1] and are audible', () => {
+    for (const data of [whiteNoise(length, seeded()), pinkNoise(length, seeded()), brownNoise(length, seeded()), rain(length, 44_100, seeded())]) {
+      expect(data).toHaveLength(length);
+      expect(inRange(data)).toBe(true);
+      expect(rms(data)).toBeGreaterThan(0.01);
+    }
+  });
+
+  it('get darker from white to pink to brown', () => {
+    const white = roughness(whiteNoise(length, seeded()));
+    const pink = roughness(pinkNoise(length, seeded()));
+    const brown = roughness(brownNoise(length, seeded()));
+    expect(white).toBeGreaterThan(pink);
+    expect(pink).toBeGreaterThan(brown);
+  });
+});
+
+describe('makeSeamless', () => {
+  it('shortens the buffer so its end runs straight into its start', () => {
+    const data = brownNoise(1000, seeded());
+    const original = data.slice();
+    const looped = makeSeamless(data, 100);
+    expect(looped).toHaveLength(900);
+    // The first sample continues exactly where the trimmed tail left off
+    expect(looped[0]).toBeCloseTo(original[900]);
+    expect(looped[899]).toBeCloseTo(original[899]);
+  });
+});
@@ -0,0 +1,73 @@
+// Sample generators for the ambient layers. Everything is synthesized from a
+// random source, so nothing has to be downloaded and tests can pass a seeded one.
+
+export type Random = () => number;
+
+const clamp = (sample: number) => Math.max(-1, Math.min(1, sample));
+
+export const whiteNoise = (length: number, random: Random = Math.random) => {
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) data[i] = random() * 2 - 1;
+  return data;
+};
+
+// Paul Kellet's filter: roughly -3 dB/octave, softer than white
+export const pinkNoise = (length: number, random: Random = Math.random) => {
+  const data = new Float32Array(length);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < length; i++) {
+    const white = random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    data[i] = clamp((b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11);
+    b6 = white * 0.115926;
+  }
+  return data;
+};
+
+// Leaky integrator over white noise: a deep, waterfall-like rumble
+export const brownNoise = (length: number, random: Random = Math.random) => {
+  const data = new Float32Array(length);
+  let last = 0;
+  for (let i = 0; i < length; i++) {
+    last = (last + 0.02 * (random() * 2 - 1)) / 1.02;
+    data[i] = clamp(last * 3.5);
+  }
+  return data;
+};
+
+// A soft hiss of distant rain with individual drops ticking on top
+export const rain = (length: number, sampleRate: number, random: Random = Math.random) => {
+  const data = pinkNoise(length, random);
+  for (let i = 0; i < length; i++) data[i] *= 0.35;
+
+  const dropsPerSecond = 40;
+  const drops = Math.round((length / sampleRate) * dropsPerSecond);
+  for (let d = 0; d < drops; d++) {
+    const start = Math.floor(random() * length);
+    const frequency = 1500 + random() * 4500;
+    const amplitude = 0.05 + random() * 0.2;
+    const decay = sampleRate * (0.002 + random() * 0.006);
+    const span = Math.min(length - start, Math.ceil(decay * 5));
+    for (let j = 0; j < span; j++) {
+      data[start + j] += amplitude * Math.exp(-j / decay) * Math.sin((2 * Math.PI * frequency * j) / sampleRate);
+    }
+  }
+  for (let i = 0; i < length; i++) data[i] = clamp(data[i]);
+  return data;
+};
+
+// Cross-fade the tail into the head so the buffer loops without a click
+export const makeSeamless = (data: Float32Array, overlap: number) => {
+  const n = Math.min(overlap, Math.floor(data.length / 2));
+  const tail = data.length - n;
+  for (let i = 0; i < n; i++) {
+    const t = i / n;
+    data[i] = data[i] * t + data[tail + i] * (1 - t);
+  }
+  return data.slice(0, tail);
+};
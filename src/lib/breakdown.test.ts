@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AIProvider } from './ai';
+import { estimatePomodoros, parseBreakdown, remainingEstimate, requestBreakdown, stepsToSubtasks } from './breakdown';
+
+const VALID = JSON.stringify({
+  steps: [
+    { text: 'Outline', estimatedMinutes: 10, order: 1 },
+    { text: 'Draft', estimatedMinutes: 40, order: 2, dependsOn: [1] },
+  ],
+});
+
+const providerReturning = (...answers: string[]) => {
+  const generate = vi.fn<AIProvider['generate']>();
+  for (const answer of answers) generate.mockResolvedValueOnce(answer);
+  return { id: 'mock', generate } satisfies AIProvider;
+};
+
+describe('parseBreakdown', () => {
+  it('accepts schema-conforming output, even inside a code fence', () => {
+    const result = parseBreakdown('```json\n' + VALID + '\n```');
+    expect(result).toEqual({
+      ok: true,
+      value: [
+        { text: 'Outline', estimatedMinutes: 10, order: 1, dependsOn: undefined },
+        { text: 'Draft', estimatedMinutes: 40, order: 2, dependsOn: [1] },
+      ],
+    });
+  });
+
+  it('rejects the old array-of-strings shape', () => {
+    expect(parseBreakdown('["Step 1", "Step 2"]')).toMatchObject({ ok: false });
+  });
+
+  it('rejects steps without estimates', () => {
+    expect(parseBreakdown('{"steps":[{"text":"Do it"}]}')).toEqual({
+      ok: false,
+      error: 'step 1 needs estimatedMinutes between 1 and 240',
+    });
+  });
+
+  it('rejects dependencies on unknown steps', () => {
+    const raw = JSON.stringify({ steps: [{ text: 'A', estimatedMinutes: 5, order: 1, dependsOn: [3] }] });
+    expect(parseBreakdown(raw)).toMatchObject({ ok: false });
+  });
+});
+
+describe('requestBreakdown', () => {
+  it('retries once with a repair prompt', async () => {
+    const provider = providerReturning('not json', VALID);
+    const steps = await requestBreakdown(provider, 'Write essay');
+    expect(steps).toHaveLength(2);
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(provider.generate.mock.calls[1][0].prompt).toContain('previous answer was invalid');
+  });
+
+  it('gives up after the repair attempt also fails', async () => {
+    const provider = providerReturning('nope', '{"steps": []}');
+    await expect(requestBreakdown(provider, 'Write essay')).rejects.toThrow(/invalid breakdown/);
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('estimates', () => {
+  it('maps dependencies onto subtask ids in order', () => {
+    let next = 100;
+    const subtasks = stepsToSubtasks(
+      [
+        { text: 'Second', estimatedMinutes: 20, order: 2, dependsOn: [1] },
+        { text: 'First', estimatedMinutes: 15, order: 1 },
+      ],
+      () => next++,
+    );
+    expect(subtasks.map(st => st.text)).toEqual(['First', 'Second']);
+    expect(subtasks[1].dependsOn).toEqual([100]);
+  });
+
+  it('counts pomodoros for the remaining work only', () => {
+    const subtasks = [
+      { id: 1, text: 'a', completed: true, estimatedMinutes: 30 },
+      { id: 2, text: 'b', completed: false, estimatedMinutes: 30 },
+      { id: 3, text: 'c', completed: false, estimatedMinutes: 5 },
+    ];
+    expect(remainingEstimate(subtasks)).toBe(35);
+    expect(estimatePomodoros(35, 25)).toBe(2);
+    expect(estimatePomodoros(0, 25)).toBe(0);
+  });
+});
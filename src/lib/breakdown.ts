@@ -0,0 +1,119 @@
+import type { SubTask } from '../types';
+import type { AIProvider, Parsed } from './ai';
+import { isPositiveInt, parseJsonReply, requestParsed } from './ai';
+
+export interface BreakdownStep {
+  text: string;
+  estimatedMinutes: number;
+  order?: number;
+  dependsOn?: number[]; // `order` values of steps that must be done first
+}
+
+// JSON Schema sent to providers that support structured output
+export const BREAKDOWN_SCHEMA = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 8,
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          estimatedMinutes: { type: 'integer', minimum: 1, maximum: 240 },
+          order: { type: 'integer', minimum: 1 },
+          dependsOn: { type: 'array', items: { type: 'integer', minimum: 1 } },
+        },
+        required: ['text', 'estimatedMinutes'],
+      },
+    },
+  },
+  required: ['steps'],
+} as const;
+
+export const buildBreakdownPrompt = (taskText: string) =>
+  `Act as a productivity expert. Break down the task "${taskText}" into 3 to 5 small, actionable, concrete sub-steps. ` +
+  `Return ONLY a JSON object of the form {"steps": [{"text": string, "estimatedMinutes": integer, "order": integer, "dependsOn": [integer]}]}. ` +
+  `"order" numbers the steps from 1; "dependsOn" lists the order numbers of steps that must be finished first and may be omitted. ` +
+  `Do not include markdown formatting or commentary.`;
+
+const validateStep = (value: unknown, index: number): BreakdownStep | string => {
+  if (!value || typeof value !== 'object') return `step ${index + 1} is not an object`;
+  const step = value as Record<string, unknown>;
+  if (typeof step.text !== 'string' || !step.text.trim()) return `step ${index + 1} has no text`;
+  if (typeof step.estimatedMinutes !== 'number' || !(step.estimatedMinutes > 0) || step.estimatedMinutes > 240) {
+    return `step ${index + 1} needs estimatedMinutes between 1 and 240`;
+  }
+  if (step.order !== undefined && !isPositiveInt(step.order)) return `step ${index + 1} has an invalid order`;
+  if (step.dependsOn !== undefined && !(Array.isArray(step.dependsOn) && step.dependsOn.every(isPositiveInt))) {
+    return `step ${index + 1} has an invalid dependsOn`;
+  }
+  return {
+    text: step.text.trim(),
+    estimatedMinutes: Math.round(step.estimatedMinutes),
+    order: step.order as number | undefined,
+    dependsOn: step.dependsOn as number[] | undefined,
+  };
+};
+
+// Runtime check of whatever the model sent back against BREAKDOWN_SCHEMA
+export const parseBreakdown = (raw: string): Parsed<BreakdownStep[]> => {
+  const data = parseJsonReply(raw);
+  if (data === undefined) return { ok: false, error: 'response is not valid JSON' };
+
+  const stepsValue = (data as { steps?: unknown } | null)?.steps;
+  if (!Array.isArray(stepsValue) || stepsValue.length === 0) return { ok: false, error: 'missing a non-empty "steps" array' };
+  if (stepsValue.length > 8) return { ok: false, error: 'too many steps' };
+
+  const steps: BreakdownStep[] = [];
+  for (const [i, value] of stepsValue.entries()) {
+    const step = validateStep(value, i);
+    if (typeof step === 'string') return { ok: false, error: step };
+    steps.push(step);
+  }
+
+  const orders = new Set(steps.map(s => s.order).filter(o => o !== undefined));
+  const badDependency = steps.find(s => s.dependsOn?.some(d => !orders.has(d) || d === s.order));
+  if (badDependency) return { ok: false, error: `"${badDependency.text}" depends on a step that doesn't exist` };
+
+  return { ok: true, value: steps };
+};
+
+// Ask for a breakdown, giving the model one chance to repair invalid output
+export const requestBreakdown = (provider: AIProvider, taskText: string) =>
+  requestParsed(provider, {
+    purpose: 'breakdown',
+    subject: taskText,
+    prompt: buildBreakdownPrompt(taskText),
+    json: true,
+    schema: BREAKDOWN_SCHEMA,
+  }, parseBreakdown);
+
+// Turn validated steps into subtasks, resolving dependencies to subtask ids
+export const stepsToSubtasks = (steps: BreakdownStep[], makeId: () => number): SubTask[] => {
+  const sorted = steps
+    .map((step, i) => ({ step, rank: step.order ?? i + 1 }))
+    .sort((a, b) => a.rank - b.rank);
+  const idsByOrder = new Map<number, number>();
+  const withIds = sorted.map(({ step }) => {
+    const id = makeId();
+    if (step.order !== undefined) idsByOrder.set(step.order, id);
+    return { step, id };
+  });
+
+  return withIds.map(({ step, id }) => ({
+    id,
+    text: step.text,
+    completed: false,
+    estimatedMinutes: step.estimatedMinutes,
+    dependsOn: step.dependsOn?.map(order => idsByOrder.get(order)).filter((d): d is number => d !== undefined),
+  }));
+};
+
+// Minutes of unfinished subtask work still ahead on a task
+export const remainingEstimate = (subtasks: SubTask[] = []) =>
+  subtasks.filter(st => !st.completed).reduce((sum, st) => sum + (st.estimatedMinutes || 0), 0);
+
+export const estimatePomodoros = (minutes: number, focusMinutes: number) =>
+  minutes > 0 ? Math.max(1, Math.ceil(minutes / focusMinutes)) : 0;
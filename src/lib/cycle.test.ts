@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, cyclePosition, nextPhase, withDefaults } from './cycle';
+
+const settings = withDefaults({ longBreakInterval: 3, autoStartBreaks: true });
+
+describe('nextPhase', () => {
+  it('earns a long break after every Nth focus session', () => {
+    expect(nextPhase('focus', 0, settings)).toEqual({ mode: 'short', completedFocus: 1, autoStart: true });
+    expect(nextPhase('focus', 1, settings)).toMatchObject({ mode: 'short', completedFocus: 2 });
+    expect(nextPhase('focus', 2, settings)).toMatchObject({ mode: 'long', completedFocus: 3 });
+  });
+
+  it('starts a fresh cycle after the long break', () => {
+    expect(nextPhase('long', 3, settings)).toEqual({ mode: 'focus', completedFocus: 0, autoStart: false });
+  });
+
+  it('keeps the count when a short break is skipped', () => {
+    const afterFocus = nextPhase('focus', 1, settings);
+    // Skipping ends the break early, which moves on exactly like finishing it
+    expect(nextPhase(afterFocus.mode, afterFocus.completedFocus, settings)).toMatchObject({ mode: 'focus', completedFocus: 2 });
+  });
+});
+
+describe('cyclePosition', () => {
+  it('counts the running focus block and caps at the interval', () => {
+    expect(cyclePosition('focus', 0, DEFAULT_SETTINGS)).toBe(1);
+    expect(cyclePosition('short', 2, DEFAULT_SETTINGS)).toBe(2);
+    expect(cyclePosition('long', 4, DEFAULT_SETTINGS)).toBe(4);
+    expect(cyclePosition('focus', 4, DEFAULT_SETTINGS)).toBe(4);
+  });
+});
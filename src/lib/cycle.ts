@@ -0,0 +1,42 @@
+import type { TimerMode, TimerSettings } from '../types';
+
+export const DEFAULT_SETTINGS: TimerSettings = {
+  durations: { focus: 25, short: 5, long: 15 },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartFocus: false,
+};
+
+// Fill gaps left by older saved settings so new fields always have a value
+export const withDefaults = (settings: Partial<TimerSettings> | null | undefined): TimerSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...settings,
+  durations: { ...DEFAULT_SETTINGS.durations, ...settings?.durations },
+});
+
+export const modeSeconds = (settings: TimerSettings, mode: TimerMode) => Math.round(settings.durations[mode] * 60);
+
+export interface CyclePhase {
+  mode: TimerMode;
+  completedFocus: number; // focus sessions finished since the last long break
+  autoStart: boolean;
+}
+
+// Decide what follows a finished phase: every Nth focus earns a long break,
+// and a long break starts a fresh cycle.
+export const nextPhase = (finished: TimerMode, completedFocus: number, settings: TimerSettings): CyclePhase => {
+  if (finished === 'focus') {
+    const count = completedFocus + 1;
+    const mode = count >= settings.longBreakInterval ? 'long' : 'short';
+    return { mode, completedFocus: count, autoStart: settings.autoStartBreaks };
+  }
+  return {
+    mode: 'focus',
+    completedFocus: finished === 'long' ? 0 : completedFocus,
+    autoStart: settings.autoStartFocus,
+  };
+};
+
+// 1-based position shown to the user, e.g. "3/4" while the third focus block runs
+export const cyclePosition = (mode: TimerMode, completedFocus: number, settings: TimerSettings) =>
+  Math.min(completedFocus + (mode === 'focus' ? 1 : 0), settings.longBreakInterval);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Distraction, SessionRecord } from '../types';
+import { countInterruptions, distractionsToTasks, formatInterruptions } from './distractions';
+import { createTranslator } from './i18n';
+import { totalsBetween } from './stats';
+
+const t = createTranslator('en');
+
+const distraction = (overrides: Partial<Distraction>): Distraction => ({
+  id: 1, text: 'Reply to Sam', kind: 'internal', capturedAt: 0, ...overrides,
+});
+
+describe('distractions', () => {
+  it('counts interruptions per session and kind', () => {
+    const log = [
+      distraction({ id: 1, sessionStartedAt: 100 }),
+      distraction({ id: 2, sessionStartedAt: 100, kind: 'external' }),
+      distraction({ id: 3, sessionStartedAt: 100 }),
+      distraction({ id: 4, sessionStartedAt: 200 }),
+      distraction({ id: 5 }),
+    ];
+    expect(countInterruptions(log, 100)).toEqual({ internal: 2, external: 1 });
+    expect(formatInterruptions(countInterruptions(log, 100), t)).toBe('3 interruptions (2 internal · 1 external)');
+    expect(formatInterruptions(countInterruptions(log, 300), t)).toBe('No interruptions');
+  });
+
+  it('adds up the counts logged on sessions per period', () => {
+    const session = (id: number, startedAt: number, interruptions?: SessionRecord['interruptions']): SessionRecord => ({
+      id, mode: 'focus', status: 'completed', startedAt, endedAt: startedAt, plannedSeconds: 60, actualSeconds: 60, interruptions,
+    });
+    const history = [session(1, 10, { internal: 1, external: 2 }), session(2, 20), session(3, 30, { internal: 3, external: 0 })];
+    expect(totalsBetween(history, 0, 25).interruptions).toEqual({ internal: 1, external: 2 });
+    expect(totalsBetween(history, 0, 50).interruptions).toEqual({ internal: 4, external: 2 });
+  });
+
+  it('turns captured thoughts into fresh tasks', () => {
+    let id = 10;
+    expect(distractionsToTasks([distraction({ text: 'Book dentist' })], () => id++)).toEqual([
+      { id: 10, text: 'Book dentist', completed: false, subtasks: [], isExpanded: false },
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import type { Distraction, InterruptionCounts, Task } from '../types';
+import type { Translate } from './i18n';
+
+export const NO_INTERRUPTIONS: InterruptionCounts = { internal: 0, external: 0 };
+
+export const totalInterruptions = (counts: InterruptionCounts = NO_INTERRUPTIONS) => counts.internal + counts.external;
+
+export const addCounts = (a: InterruptionCounts, b: InterruptionCounts = NO_INTERRUPTIONS): InterruptionCounts => ({
+  internal: a.internal + b.internal,
+  external: a.external + b.external,
+});
+
+// Interruptions logged against one focus session, identified by its start time
+export const countInterruptions = (distractions: Distraction[], sessionStartedAt: number): InterruptionCounts => {
+  const counts = { ...NO_INTERRUPTIONS };
+  for (const d of distractions) if (d.sessionStartedAt === sessionStartedAt) counts[d.kind]++;
+  return counts;
+};
+
+export const formatInterruptions = (counts: InterruptionCounts, t: Translate) => {
+  const total = totalInterruptions(counts);
+  if (total === 0) return t('interruptions.none');
+  return t('interruptions.summary', { count: total, ...counts });
+};
+
+// Captured thoughts become ordinary tasks at the bottom of the list
+export const distractionsToTasks = (distractions: Distraction[], makeId: () => number): Task[] =>
+  distractions.map(d => ({ id: makeId(), text: d.text, completed: false, subtasks: [], isExpanded: false }));
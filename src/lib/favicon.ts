@@ -0,0 +1,26 @@
+// Draws the timer's progress ring as a tab icon. Returns null where canvas isn't available.
+export const renderProgressIcon = (progress: number, color: string, running: boolean, size = 64) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const center = size / 2;
+  const radius = size / 2 - 6;
+  ctx.lineWidth = 8;
+  ctx.lineCap = 'round';
+
+  ctx.strokeStyle = '#1e293b';
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, 2 * Math.PI);
+  ctx.stroke();
+
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = running ? 1 : 0.5;
+  ctx.beginPath();
+  const start = -Math.PI / 2;
+  ctx.arc(center, center, radius, start, start + 2 * Math.PI * Math.min(1, Math.max(0, progress)));
+  ctx.stroke();
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { allTags, dueStatus, filterTasks, formatDue, parseTaskInput, sortTasks, DEFAULT_TASK_VIEW } from './filters';
+import { createTranslator } from './i18n';
+
+const tasks: Task[] = [
+  { id: 1, text: 'Write report', completed: false, projectId: 7, tags: ['writing'], priority: 'low', dueDate: '2024-05-10' },
+  { id: 2, text: 'Call plumber', completed: false, tags: ['home'], priority: 'high' },
+  { id: 3, text: 'Draft slides', completed: true, projectId: 7, priority: 'high', dueDate: '2024-05-01' },
+  { id: 4, text: 'Edit chapter', completed: false, projectId: 7, tags: ['writing'], dueDate: '2024-05-02' },
+  { id: 5, text: 'Old chore', completed: true, tags: ['home', 'garden'], archivedAt: 1 },
+];
+
+describe('parseTaskInput', () => {
+  it('pulls tags and priority out of the title', () => {
+    expect(parseTaskInput('Fix login #Auth #bug !high')).toEqual({ text: 'Fix login', tags: ['auth', 'bug'], priority: 'high' });
+    expect(parseTaskInput('Tidy desk !3')).toEqual({ text: 'Tidy desk', tags: [], priority: 'low' });
+  });
+
+  it('leaves lone hashes and plain words alone', () => {
+    expect(parseTaskInput('Reply to #  thread')).toEqual({ text: 'Reply to # thread', tags: [], priority: undefined });
+  });
+
+  it('keeps the input when it is nothing but tokens', () => {
+    expect(parseTaskInput('#idea').text).toBe('#idea');
+  });
+});
+
+describe('filterTasks', () => {
+  it('hides archived tasks in every view', () => {
+    expect(filterTasks(tasks, DEFAULT_TASK_VIEW).map(t => t.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('narrows by project, inbox and tag', () => {
+    expect(filterTasks(tasks, { ...DEFAULT_TASK_VIEW, project: 7 }).map(t => t.id)).toEqual([1, 3, 4]);
+    expect(filterTasks(tasks, { ...DEFAULT_TASK_VIEW, project: 'inbox' }).map(t => t.id)).toEqual([2]);
+    expect(filterTasks(tasks, { ...DEFAULT_TASK_VIEW, project: 7, tag: 'writing' }).map(t => t.id)).toEqual([1, 4]);
+  });
+});
+
+describe('sortTasks', () => {
+  const open = filterTasks(tasks, DEFAULT_TASK_VIEW);
+
+  it('keeps the manual order as is', () => {
+    expect(sortTasks(open, 'manual')).toBe(open);
+  });
+
+  it('orders by priority or due date with finished tasks last', () => {
+    expect(sortTasks(open, 'priority').map(t => t.id)).toEqual([2, 1, 4, 3]);
+    expect(sortTasks(open, 'due').map(t => t.id)).toEqual([4, 1, 2, 3]);
+  });
+});
+
+describe('allTags', () => {
+  it('lists tags in use on the list, once each', () => {
+    expect(allTags(tasks)).toEqual(['home', 'writing']);
+  });
+});
+
+describe('due dates', () => {
+  it('classifies against today', () => {
+    expect(dueStatus('2024-05-01', '2024-05-02')).toBe('overdue');
+    expect(dueStatus('2024-05-02', '2024-05-02')).toBe('today');
+    expect(dueStatus('2024-05-03', '2024-05-02')).toBe('upcoming');
+  });
+
+  it('names nearby days', () => {
+    const t = createTranslator('en');
+    expect(formatDue('2024-05-02', '2024-05-02', t)).toBe('Today');
+    expect(formatDue('2024-05-03', '2024-05-02', t)).toBe('Tomorrow');
+    expect(formatDue('2024-05-01', '2024-05-02', createTranslator('es'))).toBe('Ayer');
+  });
+});
@@ -0,0 +1,93 @@
+import type { Task, TaskPriority } from '../types';
+import type { Translate } from './i18n';
+
+export type TaskSort = 'manual' | 'priority' | 'due';
+
+export const TASK_SORTS: TaskSort[] = ['manual', 'priority', 'due'];
+
+// 'inbox' shows tasks that aren't in any project
+export interface TaskView {
+  project: number | 'all' | 'inbox';
+  tag: string | null;
+  sort: TaskSort;
+}
+
+export const DEFAULT_TASK_VIEW: TaskView = { project: 'all', tag: null, sort: 'manual' };
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+// Picked in turn for new projects
+export const PROJECT_COLORS = ['#34d399', '#22d3ee', '#818cf8', '#f472b6', '#fbbf24', '#fb7185'];
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+const PRIORITY_TOKENS: Record<string, TaskPriority> = {
+  '!high': 'high', '!1': 'high',
+  '!medium': 'medium', '!med': 'medium', '!2': 'medium',
+  '!low': 'low', '!3': 'low',
+};
+
+// Quick entry: "#tag" adds a tag and "!high", "!med" or "!low" (or !1 to !3) sets the priority
+export const parseTaskInput = (input: string) => {
+  const tags: string[] = [];
+  let priority: TaskPriority | undefined;
+  const words = input.trim().split(/\s+/).filter(word => {
+    const token = word.toLowerCase();
+    if (PRIORITY_TOKENS[token]) {
+      priority = PRIORITY_TOKENS[token];
+      return false;
+    }
+    if (/^#[^#\s]+$/.test(word)) {
+      const tag = normalizeTag(word);
+      if (!tags.includes(tag)) tags.push(tag);
+      return false;
+    }
+    return true;
+  });
+  // A title made only of tokens keeps its text rather than becoming empty
+  return { text: words.join(' ') || input.trim(), tags, priority };
+};
+
+export const filterTasks = (tasks: Task[], view: TaskView) =>
+  tasks.filter(t =>
+    !t.archivedAt
+    && (view.project === 'all' || (view.project === 'inbox' ? t.projectId === undefined : t.projectId === view.project))
+    && (view.tag === null || (t.tags || []).includes(view.tag)));
+
+const compareBy = (sort: TaskSort) => (a: Task, b: Task) => {
+  if (sort === 'priority') {
+    return (a.priority ? PRIORITY_RANK[a.priority] : 3) - (b.priority ? PRIORITY_RANK[b.priority] : 3);
+  }
+  // Date keys sort correctly as strings; tasks without a date go last
+  return (a.dueDate || '9999').localeCompare(b.dueDate || '9999');
+};
+
+// Sorted views keep finished tasks at the bottom; ties keep the manual order
+export const sortTasks = (tasks: Task[], sort: TaskSort) => {
+  if (sort === 'manual') return tasks;
+  const compare = compareBy(sort);
+  return [...tasks].sort((a, b) => Number(a.completed) - Number(b.completed) || compare(a, b));
+};
+
+export const allTags = (tasks: Task[]) =>
+  [...new Set(tasks.filter(t => !t.archivedAt).flatMap(t => t.tags || []))].sort();
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+export const dueStatus = (dueDate: string, today: string): DueStatus =>
+  dueDate < today ? 'overdue' : dueDate === today ? 'today' : 'upcoming';
+
+export const formatDue = (dueDate: string, today: string, t: Translate, locale?: string) => {
+  const days = Math.round((parseDateKey(dueDate).getTime() - parseDateKey(today).getTime()) / 86_400_000);
+  if (days === 0) return t('due.today');
+  if (days === 1) return t('due.tomorrow');
+  if (days === -1) return t('due.yesterday');
+  return parseDateKey(dueDate).toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+};
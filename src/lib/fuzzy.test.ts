@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from './fuzzy';
+
+describe('fuzzy', () => {
+  it('matches characters in order, anywhere in the text', () => {
+    expect(fuzzyScore('rst', 'Reset timer')).not.toBeNull();
+    expect(fuzzyScore('tsr', 'Reset timer')).toBeNull();
+    expect(fuzzyScore('', 'anything')).toBe(0);
+  });
+
+  it('ranks word starts and tight runs first', () => {
+    const labels = ['Open settings', 'Switch to short break', 'Start / pause timer', 'Toggle Zen Mode'];
+    expect(fuzzyFilter(labels, 'st', l => l)[0]).toBe('Start / pause timer');
+    expect(fuzzyFilter(labels, 'zen', l => l)).toEqual(['Toggle Zen Mode']);
+    expect(fuzzyFilter(labels, 'short b', l => l)[0]).toBe('Switch to short break');
+  });
+});
@@ -0,0 +1,33 @@
+// Subsequence match in the style of editor command palettes: every query
+// character must appear in order. Runs of consecutive characters and matches at
+// word starts score higher. Returns null when the query doesn't match at all.
+export const fuzzyScore = (query: string, text: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    if (char === ' ') continue;
+    const index = t.indexOf(char, from);
+    if (index < 0) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-_:/]/.test(t[index - 1])) score += 2;
+    // Skipping over text costs a little, so tighter matches win ties
+    score -= Math.min(index - from, 5) * 0.1;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+};
+
+// Best matches first; the original order breaks ties
+export const fuzzyFilter = <T>(items: T[], query: string, text: (item: T) => string) =>
+  items
+    .map((item, i) => ({ item, i, score: fuzzyScore(query, text(item)) }))
+    .filter((entry): entry is { item: T; i: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map(entry => entry.item);
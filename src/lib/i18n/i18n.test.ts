@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALES, LOCALE_IDS, createTranslator, resolveLocale, timerAnnouncement } from '.';
+import { en } from './locales/en';
+
+describe('resolveLocale', () => {
+  it('uses an explicit choice as is', () => {
+    expect(resolveLocale('de', ['es-ES', 'en'])).toBe('de');
+  });
+
+  it('picks the first supported browser language by its primary subtag', () => {
+    expect(resolveLocale('auto', ['fr-FR', 'es-MX', 'de'])).toBe('es');
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLocale('auto', ['ja-JP'])).toBe('en');
+    expect(resolveLocale('auto', [])).toBe('en');
+  });
+});
+
+describe('createTranslator', () => {
+  it('fills placeholders and leaves unknown ones alone', () => {
+    const t = createTranslator('en');
+    expect(t('notify.wrapUp', { task: 'Write report' })).toBe('Wrap up "Write report".');
+    expect(t('notify.wrapUp')).toBe('Wrap up "{task}".');
+  });
+
+  it('picks plural forms from count', () => {
+    const t = createTranslator('en');
+    expect(t('notify.minutesLeft', { count: 1 })).toBe('1 minute left');
+    expect(t('notify.minutesLeft', { count: 5 })).toBe('5 minutes left');
+    expect(createTranslator('de')('notify.minutesLeft', { count: 1 })).toBe('Noch 1 Minute');
+  });
+
+  it('has every English key in every locale, with the same placeholders', () => {
+    const placeholders = (message: unknown) =>
+      [...new Set(JSON.stringify(message).match(/\{\w+\}/g) ?? [])].sort();
+    for (const id of LOCALE_IDS) {
+      const { messages } = LOCALES[id];
+      expect(Object.keys(messages).sort(), id).toEqual(Object.keys(en).sort());
+      for (const key of Object.keys(en) as (keyof typeof en)[]) {
+        expect(placeholders(messages[key]), `${id} ${key}`).toEqual(placeholders(en[key]));
+      }
+    }
+  });
+});
+
+describe('timerAnnouncement', () => {
+  const t = createTranslator('en');
+  const focus = { mode: 'focus' as const, plannedSeconds: 25 * 60 };
+
+  it('describes an idle or paused timer', () => {
+    expect(timerAnnouncement({ ...focus, isActive: false, secondsLeft: 25 * 60 }, t)).toBe('Focus Flow ready, 25 minutes.');
+    expect(timerAnnouncement({ ...focus, isActive: false, secondsLeft: 10 * 60 + 5 }, t)).toBe('Focus Flow paused, 11 minutes left.');
+  });
+
+  it('only changes at milestones while running', () => {
+    const at = (secondsLeft: number) => timerAnnouncement({ ...focus, isActive: true, secondsLeft }, t);
+    expect(at(25 * 60)).toBe('Focus Flow started, 25 minutes.');
+    expect(at(20 * 60)).toBe(at(13 * 60));
+    expect(at(12 * 60)).toBe('Halfway through Focus Flow.');
+    expect(at(5 * 60)).toBe('5 minutes left.');
+    expect(at(2 * 60)).toBe('5 minutes left.');
+    expect(at(45)).toBe('1 minute left.');
+  });
+
+  it('skips milestones a short session starts inside of', () => {
+    const at = (secondsLeft: number) => timerAnnouncement({ mode: 'short', plannedSeconds: 5 * 60, isActive: true, secondsLeft }, t);
+    expect(at(4 * 60)).toBe('Short Break started, 5 minutes.');
+    expect(at(2 * 60)).toBe('Halfway through Short Break.');
+    expect(at(30)).toBe('1 minute left.');
+  });
+});
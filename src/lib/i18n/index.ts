@@ -0,0 +1,106 @@
+import type { TimerMode } from '../../types';
+import { en, type MessageKey, type Messages } from './locales/en';
+import { de } from './locales/de';
+import { es } from './locales/es';
+
+export type { MessageKey, Messages } from './locales/en';
+
+export type LocaleId = 'en' | 'de' | 'es';
+
+// 'auto' follows the browser's language preferences
+export type LocaleSetting = LocaleId | 'auto';
+
+// Names are shown in their own language so they can be found from any locale
+export const LOCALES: Record<LocaleId, { name: string; messages: Messages }> = {
+  en: { name: 'English', messages: en },
+  de: { name: 'Deutsch', messages: de },
+  es: { name: 'Español', messages: es },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as LocaleId[];
+
+// First supported language among the browser's preferences, matched on the primary subtag
+export const resolveLocale = (setting: LocaleSetting, preferred: readonly string[]): LocaleId => {
+  if (setting !== 'auto') return setting;
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (Object.hasOwn(LOCALES, base)) return base as LocaleId;
+  }
+  return 'en';
+};
+
+export type MessageVars = Record<string, string | number>;
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+// "{name}" placeholders are filled from vars; unknown ones are left in place
+const interpolate = (text: string, vars: MessageVars = {}) =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => name in vars ? String(vars[name]) : match);
+
+export const createTranslator = (locale: LocaleId): Translate => {
+  const { messages } = LOCALES[locale];
+  const plurals = new Intl.PluralRules(locale);
+  return (key, vars) => {
+    const message = messages[key];
+    const text = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(vars?.count ?? 0))] ?? message.other;
+    return interpolate(text, vars);
+  };
+};
+
+const english = createTranslator('en');
+
+// An error that names its message by key, so whoever shows it can use the reader's
+// language. `message` keeps the English text for logs and tests.
+export class LocalizedError extends Error {
+  readonly key: MessageKey;
+  readonly vars?: MessageVars;
+
+  constructor(key: MessageKey, vars?: MessageVars) {
+    super(english(key, vars));
+    this.name = 'LocalizedError';
+    this.key = key;
+    this.vars = vars;
+  }
+}
+
+export const describeError = (error: unknown, t: Translate, fallback: MessageKey) =>
+  error instanceof LocalizedError ? t(error.key, error.vars) : t(fallback);
+
+// English name of the language, for telling the AI what to answer in
+export const languageName = (locale: LocaleId) => new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) ?? 'English';
+
+export const formatClock = (ts: number, locale?: string) =>
+  new Date(ts).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+
+export const formatDate = (ts: number, locale?: string, options?: Intl.DateTimeFormatOptions) =>
+  new Date(ts).toLocaleDateString(locale, options);
+
+export const MODE_KEYS: Record<TimerMode, MessageKey> = { focus: 'mode.focus', short: 'mode.short', long: 'mode.long' };
+
+interface TimerState {
+  mode: TimerMode;
+  isActive: boolean;
+  secondsLeft: number;
+  plannedSeconds: number;
+}
+
+// Warnings read out while a session runs, in minutes left
+const MILESTONES = [5, 1];
+
+// What a screen reader should hear about the timer. The text only changes at milestones
+// (start, pause, halfway, a few minutes left), so a polite live region never chatters.
+export const timerAnnouncement = ({ mode, isActive, secondsLeft, plannedSeconds }: TimerState, t: Translate) => {
+  const vars = { mode: t(MODE_KEYS[mode]), minutes: Math.round(plannedSeconds / 60) };
+  const minutesLeft = Math.ceil(secondsLeft / 60);
+  if (!isActive) {
+    return secondsLeft >= plannedSeconds
+      ? t('announce.ready', vars)
+      : t('announce.paused', { ...vars, count: minutesLeft });
+  }
+  // Milestones only count in sessions long enough for them to be news
+  const passed = MILESTONES.filter(m => secondsLeft <= m * 60 && plannedSeconds > m * 60 * 2);
+  if (passed.length > 0) return t('announce.minutesLeft', { count: Math.min(...passed) });
+  if (secondsLeft <= plannedSeconds / 2) return t('announce.halfway', vars);
+  return t('announce.started', vars);
+};
@@ -0,0 +1,433 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  'mode.focus': 'Fokus-Flow',
+  'mode.short': 'Kurze Pause',
+  'mode.long': 'Lange Pause',
+  'tab.focus': 'Fokus',
+  'tab.short': 'Kurze Pause',
+  'tab.long': 'Lange Pause',
+
+  'timer.flowing': 'Im Flow',
+  'timer.paused': 'Pausiert',
+  'timer.start': 'Start',
+  'timer.pause': 'Pause',
+  'timer.focus': 'Fokus',
+  'timer.reset': 'Timer zurücksetzen',
+  'timer.cycle': 'Zyklus {position}',
+  'timer.cycleHint': 'Fokus-Sitzungen in diesem Zyklus',
+  'timer.interrupted': '{count} unterbrochen',
+  'timer.modes': 'Timer-Modus',
+
+  'header.stats': 'Statistik',
+  'header.coach': 'Zen-Coach',
+  'header.coachOffline': 'Der Zen-Coach braucht eine Verbindung',
+  'header.templates': 'Vorlagen',
+  'header.room': 'Fokusraum',
+  'header.plan': 'Tag planen / Tagesrückblick',
+  'header.settings': 'Einstellungen',
+  'header.soundscape': 'Klangkulisse',
+  'header.mute': 'Töne stummschalten',
+  'header.unmute': 'Töne einschalten',
+  'header.shortcuts': 'Tastenkürzel ({combo})',
+  'header.mini': 'Mini-Timer abkoppeln',
+  'header.zen': 'Zen-Modus starten',
+
+  'banner.update': 'Eine neue Version von ZenFocus ist bereit.',
+  'banner.reload': 'Neu laden',
+  'banner.dismiss': 'Schließen',
+  'banner.offline': 'Du bist offline. Timer und Aufgaben funktionieren weiter.',
+  'banner.offlineQueued': {
+    one: 'Du bist offline. Timer und Aufgaben funktionieren weiter; {count} Smart Breakdown läuft, sobald du wieder online bist.',
+    other: 'Du bist offline. Timer und Aufgaben funktionieren weiter; {count} Smart Breakdowns laufen, sobald du wieder online bist.',
+  },
+  'banner.offlineWaiting': 'Du bist offline. Timer und Aufgaben funktionieren weiter, Smart Breakdowns warten, bis du wieder online bist.',
+
+  'sequence.stop': 'Zurück zum normalen Zyklus',
+  'room.chip': { one: 'Raum {code} · {count} Person', other: 'Raum {code} · {count} Personen' },
+  'room.connecting': 'Verbinde mit Raum {code}…',
+  'room.title': 'Fokusraum',
+  'room.copy': 'Raumcode kopieren',
+  'room.leave': 'Verlassen',
+  'room.shared': 'Start, Pause und Moduswechsel gelten für alle hier.',
+  'room.connectingTo': 'Verbinde mit {server}…',
+  'room.you': '(du)',
+  'room.justJoined': 'Gerade beigetreten',
+  'room.paused': 'Pausiert',
+  'room.shortBreak': 'In einer kurzen Pause',
+  'room.longBreak': 'In einer langen Pause',
+  'room.focusingOn': 'Fokussiert auf „{task}“',
+  'room.focusing': 'Fokussiert',
+  'room.intro': 'Tritt mit demselben Code wie dein Team bei, um einen gemeinsamen Timer zu nutzen und zu sehen, woran alle arbeiten.',
+  'room.name': 'Dein Name',
+  'room.code': 'Raumcode',
+  'room.codePlaceholder': 'z. B. {code}',
+  'room.newCode': 'Neuen Code ausdenken',
+  'room.server': 'Server',
+  'room.selfHost': 'Eigenen Server starten mit',
+  'room.join': 'Raum beitreten',
+  'room.badUrl': '„{server}“ ist keine WebSocket-Adresse.',
+  'room.lost': 'Verbindung verloren. Verbinde neu…',
+  'room.unreachable': 'Der Raumserver unter {server} ist nicht erreichbar. Neuer Versuch…',
+
+  'tasks.heading': 'Aktuelle Prioritäten',
+  'tasks.done': '{done}/{total} erledigt',
+  'tasks.placeholder': 'Woran arbeitest du?',
+  'tasks.add': 'Aufgabe hinzufügen',
+  'tasks.empty': 'Noch keine Aufgaben. Füge eine hinzu und leg los.',
+  'tasks.filteredEmpty': 'Hier ist nichts. Füge eine Aufgabe hinzu oder ändere den Filter.',
+
+  'zen.label': 'Zen-Modus',
+  'zen.exit': 'Zen-Modus beenden',
+  'zen.noTask': 'Keine aktive Aufgabe',
+  'zen.nextStep': 'Nächster Schritt: {step}',
+  'zen.interruptions': '{summary} in dieser Sitzung',
+
+  'notify.focusDone': 'Fokus-Sitzung beendet',
+  'notify.breakDone': 'Die Pause ist vorbei',
+  'notify.started': '{mode} hat begonnen.',
+  'notify.readyFocus': 'Bereit für die nächste Fokus-Sitzung?',
+  'notify.timeForShort': 'Zeit für eine kurze Pause.',
+  'notify.timeForLong': 'Zeit für eine lange Pause.',
+  'notify.startFocus': 'Fokus starten',
+  'notify.startBreak': 'Pause starten',
+  'notify.snooze': '{minutes} Min. später',
+  'notify.reminder': 'Erinnerung',
+  'notify.minutesLeft': { one: 'Noch {count} Minute', other: 'Noch {count} Minuten' },
+  'notify.wrapUp': 'Schließe „{task}“ ab.',
+  'notify.almostOver': '{mode} ist fast vorbei.',
+
+  'announce.ready': '{mode} bereit, {minutes} Minuten.',
+  'announce.started': '{mode} gestartet, {minutes} Minuten.',
+  'announce.paused': { one: '{mode} pausiert, noch {count} Minute.', other: '{mode} pausiert, noch {count} Minuten.' },
+  'announce.halfway': 'Halbzeit: {mode}.',
+  'announce.minutesLeft': { one: 'Noch {count} Minute.', other: 'Noch {count} Minuten.' },
+
+  'palette.breakdown': 'Smart Breakdown: {task}',
+  'palette.complete': 'Erledigen: {task}',
+  'palette.stats': 'Statistik öffnen',
+  'palette.settings': 'Einstellungen öffnen',
+  'palette.soundscape': 'Klangkulisse öffnen',
+  'palette.coach': 'Zen-Coach fragen',
+  'palette.plan': 'Meinen Tag planen',
+  'palette.review': 'Tagesrückblick',
+  'palette.templates': 'Vorlagen öffnen',
+  'palette.room': 'Fokusraum öffnen',
+  'palette.stopSequence': 'Sequenz „{name}“ beenden',
+  'palette.archive': 'Erledigte Aufgaben archivieren',
+  'palette.skip': 'Zur nächsten Phase springen',
+  'palette.start': 'Starten',
+  'palette.focusOn': 'Fokussieren',
+  'palette.placeholder': 'Befehl oder Aufgabe eingeben…',
+  'palette.noMatch': 'Nichts passt zu „{query}“',
+  'palette.group.commands': 'Befehle',
+  'palette.group.tasks': 'Aufgaben',
+  'palette.group.templates': 'Vorlagen',
+
+  'shortcut.toggleTimer': 'Timer starten / pausieren',
+  'shortcut.reset': 'Timer zurücksetzen',
+  'shortcut.focusMode': 'Zu Fokus wechseln',
+  'shortcut.shortMode': 'Zur kurzen Pause wechseln',
+  'shortcut.longMode': 'Zur langen Pause wechseln',
+  'shortcut.zen': 'Zen-Modus umschalten',
+  'shortcut.newTask': 'Neue Aufgabe',
+  'shortcut.nextTask': 'Nächste Aufgabe auswählen',
+  'shortcut.prevTask': 'Vorherige Aufgabe auswählen',
+  'shortcut.completeTask': 'Ausgewählte Aufgabe erledigen',
+  'shortcut.pinTask': 'Ausgewählte Aufgabe anheften',
+  'shortcut.breakdown': 'Smart Breakdown für ausgewählte Aufgabe',
+  'shortcut.distraction': 'Ablenkung notieren',
+  'distraction.placeholder': 'Was lenkt dich ab? Park es hier',
+  'distraction.label': 'Ablenkung notieren',
+  'distraction.kind': 'Art der Unterbrechung',
+  'distraction.internal': 'Intern',
+  'distraction.internalHint': 'Ein eigener abschweifender Gedanke oder Impuls',
+  'distraction.external': 'Extern',
+  'distraction.externalHint': 'Jemand oder etwas hat dich herausgerissen',
+  'distraction.logged': { one: '{count} in dieser Sitzung notiert.', other: '{count} in dieser Sitzung notiert.' },
+  'distraction.later': 'Am Ende der Sitzung kannst du Gedanken in Aufgaben verwandeln.',
+  'distraction.reviewTitle': 'Während der Sitzung geparkt',
+  'distraction.reviewHint': 'Hake an, was es wert ist, um es zu deinen Aufgaben hinzuzufügen.',
+  'distraction.addTasks': { one: '{count} als Aufgabe hinzufügen', other: '{count} als Aufgaben hinzufügen' },
+  'distraction.clear': 'Liste leeren',
+  'distraction.dismiss': 'Später',
+  'shortcut.palette': 'Befehlspalette',
+  'shortcut.help': 'Tastenkürzel',
+
+  'coach.prompt': 'Ich nutze eine Fokus-Timer-App. Meine aktuelle Hauptaufgabe ist: „{task}“. Gib mir einen einzigen, kurzen, kraftvollen Satz als Rat (stoisch, zur Produktivität oder motivierend), der mir hilft, mit genau dieser Aufgabe anzufangen oder bei ihr zu bleiben. Höchstens 20 Wörter.',
+  'coach.generalFocus': 'allgemeine Konzentration',
+
+  'settings.language': 'Sprache',
+  'settings.languageAuto': 'Wie der Browser',
+  'settings.title': 'Timer-Einstellungen',
+  'settings.durations': 'Dauer (Minuten)',
+  'settings.cycle': 'Zyklus',
+  'settings.longBreakEvery': 'Lange Pause nach je',
+  'settings.focusSessions': 'Fokus-Sitzungen',
+  'settings.autoStartBreaks': 'Pausen automatisch starten',
+  'settings.autoStartFocus': 'Fokus nach Pausen automatisch starten',
+  'settings.notifications': 'Benachrichtigungen',
+  'settings.desktopNotifications': 'Desktop-Benachrichtigungen',
+  'settings.notificationsBlocked': 'Benachrichtigungen sind für diese Seite blockiert. Erlaube sie in den Website-Einstellungen deines Browsers; bis dahin zeigen Klang und Tab-Titel weiterhin, wann eine Sitzung endet.',
+  'settings.notificationsUnsupported': 'Dieser Browser kann keine Benachrichtigungen anzeigen. Klang und Tab-Titel zeigen weiterhin, wann eine Sitzung endet.',
+  'settings.warnBefore': 'Vor dem Ende warnen',
+  'settings.warnMinutes': '{minutes} Min.',
+  'settings.favicon': 'Fortschrittsring im Tab-Symbol',
+  'settings.ai': 'KI-Assistent',
+  'settings.provider': 'Anbieter',
+  'settings.model': 'Modell',
+  'settings.endpoint': 'Endpunkt',
+  'settings.apiKey': 'API-Schlüssel',
+  'settings.apiKeyGemini': 'Nutzt VITE_GEMINI_API_KEY, wenn leer',
+  'settings.apiKeyOptional': 'Optional für lokale Server',
+  'settings.mockHint': 'Vorgefertigte, immer gleiche Antworten. Kein Netz und kein API-Schlüssel nötig.',
+  'settings.appearance': 'Darstellung',
+  'settings.theme': 'Design',
+  'settings.themeAuto': 'Wie das System',
+  'settings.themeAccents': 'Akzentfarben des Designs verwenden',
+  'settings.data': 'Daten',
+  'settings.export.json': 'Komplette Sicherung',
+  'settings.export.markdown': 'Aufgaben',
+  'settings.export.csv': 'Sitzungsverlauf',
+  'settings.export.ics': 'Geplante Fokus-Blöcke',
+  'settings.exportHint.json': '.json',
+  'settings.exportHint.markdown': '.md-Checkliste',
+  'settings.exportHint.csv': '.csv',
+  'settings.exportHint.ics': '.ics-Kalender',
+  'settings.import': '.json, .md oder .csv importieren',
+  'settings.importFailed': 'Import fehlgeschlagen.',
+  'settings.importHint': 'Importe werden per ID zusammengeführt: Passende Einträge werden aktualisiert, alles andere bleibt erhalten.',
+  'settings.defaults': 'Standard',
+  'settings.defaultsHint': 'Dauer und Zyklus zurücksetzen',
+  'settings.save': 'Speichern',
+
+  'panel.close': 'Schließen',
+
+  'archive.title': 'Archiv',
+  'archive.empty': 'Noch nichts archiviert.',
+  'archive.pomodoros': { one: '{count} Pomodoro', other: '{count} Pomodoros' },
+  'archive.archivedOn': 'archiviert am {date}',
+  'archive.restore': 'Zurück in die Liste',
+  'archive.delete': 'Endgültig löschen',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.hint': 'Klicke auf eine Taste, um sie neu zu belegen, und drücke dann die neue Kombination. Esc bricht ab.',
+  'shortcuts.rebind': '{action}: {combo}. Drücken zum Neubelegen.',
+  'shortcuts.recording': 'Tasten drücken…',
+  'shortcuts.restore': 'Standard wiederherstellen',
+
+  'theme.dark': 'Dunkel',
+  'theme.light': 'Hell',
+  'theme.contrast': 'Hoher Kontrast',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-kompatibel (Ollama, llama.cpp…)',
+  'provider.mock': 'Offline-Demo',
+
+  'project.inbox': 'Eingang',
+  'interruptions.none': 'Keine Unterbrechungen',
+  'interruptions.summary': {
+    one: '{count} Unterbrechung ({internal} intern · {external} extern)',
+    other: '{count} Unterbrechungen ({internal} intern · {external} extern)',
+  },
+
+  'stats.title': 'Fokus-Statistik',
+  'stats.today': 'Heute',
+  'stats.sessions': { one: '{count} Sitzung', other: '{count} Sitzungen' },
+  'stats.interruptions': { one: '{count} Unterbrechung', other: '{count} Unterbrechungen' },
+  'stats.lastWeek': 'Letzte 7 Tage',
+  'stats.weekHint': '{done} erledigt · {abandoned} abgebrochen',
+  'stats.streak': 'Serie',
+  'stats.streakHint': 'Tage in Folge',
+  'stats.best': 'Rekord',
+  'stats.bestHint': 'längste Serie',
+  'stats.days': '{count} T.',
+  'stats.thisWeek': 'Diese Woche',
+  'stats.calendar': 'Fokus-Kalender',
+  'stats.byTask': 'Fokus nach Aufgabe',
+  'stats.empty': 'Noch keine Fokus-Sitzungen erfasst.',
+  'stats.byProject': 'Fokus nach Projekt',
+  'stats.byTag': 'Fokus nach Tag',
+  'stats.unassigned': 'Ohne Aufgabe',
+
+  'sound.title': 'Klangkulisse',
+  'sound.mix': 'Ambient-Mix',
+  'sound.preview': 'Anhören',
+  'sound.stop': 'Stopp',
+  'sound.layer.rain': 'Regen',
+  'sound.layer.brown': 'Braunes Rauschen',
+  'sound.layer.pink': 'Rosa Rauschen',
+  'sound.layer.white': 'Weißes Rauschen',
+  'sound.layer.binaural': 'Binauraler Ton',
+  'sound.binauralHint': 'Der binaurale Ton braucht Kopfhörer. Alles wird im Browser erzeugt.',
+  'sound.volume': 'Lautstärke',
+  'sound.ambience': 'Ambiente',
+  'sound.chimeVolume': 'Signalton',
+  'sound.chime': 'Signalton am Sitzungsende',
+  'sound.chime.bell': 'Glocke',
+  'sound.chime.bowl': 'Klangschale',
+  'sound.chime.digital': 'Digital',
+  'sound.chime.beep': 'Klassischer Piepton',
+  'sound.chime.none': 'Keiner',
+  'sound.play': '{chime} abspielen',
+
+  'priority.high': 'Hoch',
+  'priority.medium': 'Mittel',
+  'priority.low': 'Niedrig',
+  'sort.manual': 'Meine Reihenfolge',
+  'sort.priority': 'Priorität',
+  'sort.due': 'Fälligkeit',
+  'due.today': 'Heute',
+  'due.tomorrow': 'Morgen',
+  'due.yesterday': 'Gestern',
+  'recurrence.daily': 'Jeden Tag',
+  'recurrence.weekdays': 'Werktags',
+  'recurrence.weekly': 'Jede Woche',
+  'recurrence.custom': 'An gewählten Tagen',
+  'recurrence.every': 'Jeden {days}',
+
+  'details.project': 'Projekt',
+  'details.priority': 'Priorität',
+  'details.noPriority': 'Keine Priorität',
+  'details.due': 'Fälligkeitsdatum',
+  'details.tags': 'Tags',
+  'details.tagsPlaceholder': 'Tags, durch Kommas getrennt',
+  'details.repeat': 'Wiederholen',
+  'details.noRepeat': 'Keine Wiederholung',
+  'details.repeatOn': 'Wiederholen am',
+  'details.template': 'Vorlage',
+  'details.templateHint': 'Diese Aufgabe samt Schritten als Vorlage speichern',
+
+  'filters.all': 'Alle',
+  'filters.newProject': 'Neues Projekt',
+  'filters.projectName': 'Projektname',
+  'filters.newProjectName': 'Name des neuen Projekts',
+  'filters.deleteProject': 'Projekt löschen (die Aufgaben wandern in den Eingang)',
+  'filters.byTag': 'Nach Tag filtern',
+  'filters.anyTag': 'Alle Tags',
+  'filters.sort': 'Aufgaben sortieren',
+  'filters.sortBy': 'Sortierung: {order}',
+  'filters.archiveDone': '{count} erledigte archivieren',
+  'filters.archiveHint': 'Erledigte Aufgaben ins Archiv verschieben',
+  'filters.showArchive': 'Archiv anzeigen',
+
+  'task.reorderHint': 'Ziehen oder mit den Pfeiltasten verschieben',
+  'task.reorder': '„{task}“ verschieben',
+  'task.expand': 'Schritte aufklappen',
+  'task.collapse': 'Schritte zuklappen',
+  'task.complete': '„{task}“ als erledigt markieren',
+  'task.name': 'Aufgabenname',
+  'task.priority': 'Priorität {priority}',
+  'task.due': 'Fällig am {date}',
+  'task.showTag': 'Nur #{tag} anzeigen',
+  'task.stepsLeft': 'Noch {minutes} Min. an Schritten',
+  'task.pomodoroEstimate': { one: '≈ {count} Pomodoro', other: '≈ {count} Pomodoros' },
+  'task.pin': 'Auf diese Aufgabe fokussieren',
+  'task.unpin': 'Lösen (zurück zur ersten offenen Aufgabe)',
+  'task.breakdown': 'Teilaufgaben per KI erzeugen',
+  'task.queued': 'Eingereiht: läuft, sobald du wieder online bist (klicken zum Abbrechen)',
+  'task.delete': 'Aufgabe löschen',
+  'task.editHint': 'Doppelklicken zum Bearbeiten',
+  'step.name': 'Name des Schritts',
+  'step.after': 'nach Schritt {steps}',
+  'step.promote': 'Zur Aufgabe machen',
+  'step.delete': 'Schritt löschen',
+  'step.add': 'Schritt hinzufügen',
+  'estimate.lower': 'Schätzung senken',
+  'estimate.raise': 'Schätzung erhöhen',
+  'estimate.hint': 'Erledigte / geschätzte Pomodoros',
+
+  'next.title': '„{task}“ erledigt',
+  'next.running': 'Der Timer läuft noch. Was kommt als Nächstes?',
+  'next.empty': 'Keine offenen Aufgaben mehr. Genieß den Rest der Sitzung.',
+  'next.dismiss': 'Nicht jetzt',
+
+  'templates.title': 'Vorlagen',
+  'templates.empty': 'Noch keine Vorlagen. Öffne eine Aufgabe und wähle „Vorlage“, um sie mit ihren Schritten zu speichern.',
+  'templates.name': 'Name der Vorlage',
+  'templates.start': 'Starten',
+  'templates.startHint': 'Aufgabe hinzufügen und Timer starten',
+  'templates.steps': { one: '{count} Schritt', other: '{count} Schritte' },
+  'templates.blocks': 'Blöcke à {minutes} Min.',
+  'templates.delete': 'Vorlage löschen',
+  'templates.sequence': 'Timer-Sequenz',
+  'templates.sequencePlaceholder': 'Normaler Zyklus',
+  'templates.sequenceHint': 'Fokus-/Pausenminuten und Runden, z. B. 50/10 x3',
+
+  'planner.planTitle': 'Meinen Tag planen',
+  'planner.reviewTitle': 'Tagesrückblick',
+  'planner.plan': 'Plan',
+  'planner.review': 'Rückblick',
+  'planner.available': 'Verfügbare Zeit',
+  'planner.hours': 'Stunden, die ich mich heute konzentrieren kann',
+  'planner.fits': {
+    one: 'Passt für {count} Fokusblock à {minutes} Minuten, Pausen inklusive.',
+    other: 'Passt für {count} Fokusblöcke à {minutes} Minuten, Pausen inklusive.',
+  },
+  'planner.planOffline': 'Die Planung braucht eine Verbindung',
+  'planner.replan': 'Anderen Plan vorschlagen',
+  'planner.start': 'Meinen Tag planen',
+  'planner.schedule': 'Vorgeschlagener Ablauf',
+  'planner.emptyPlan': 'Nichts mehr im Plan.',
+  'planner.earlier': 'Früher einplanen',
+  'planner.later': 'Später einplanen',
+  'planner.fewer': 'Ein Block weniger',
+  'planner.more': 'Ein Block mehr',
+  'planner.remove': 'Aus dem Plan nehmen',
+  'planner.booked': '{booked} von {capacity} Blöcken verplant',
+  'planner.doneAround': 'fertig gegen {time}',
+  'planner.apply': 'In meine Liste übernehmen',
+  'planner.discard': 'Verwerfen',
+  'planner.today': 'Heute',
+  'planner.focused': 'Fokussiert',
+  'planner.pomodoros': 'Pomodoros',
+  'planner.finished': 'Erledigt',
+  'planner.reviewOffline': 'Der Rückblick braucht eine Verbindung',
+  'planner.reviewAgain': 'Erneut zurückblicken',
+  'planner.reviewStart': 'Meinen Tag zurückblicken',
+  'planner.wins': 'Erfolge',
+  'planner.carryTitle': 'Auf morgen übertragen',
+  'planner.nothingToCarry': 'Nichts zu übertragen. Gute Arbeit.',
+  'planner.carry': { one: '{count} Aufgabe oben auf die Liste für morgen setzen', other: '{count} Aufgaben oben auf die Liste für morgen setzen' },
+
+  'ai.unreachable': 'Der KI-Endpunkt ist nicht erreichbar. Prüfe deine Verbindung oder die Endpunkt-URL.',
+  'ai.failed': 'Bei der Anfrage an die KI ist etwas schiefgelaufen.',
+  'ai.gemini.noKey': 'Kein Gemini-API-Schlüssel eingerichtet. Trage einen in den Einstellungen ein oder setze VITE_GEMINI_API_KEY.',
+  'ai.gemini.keyRejected': 'Gemini hat den API-Schlüssel abgelehnt.',
+  'ai.gemini.unknownModel': 'Gemini kennt dieses Modell nicht.',
+  'ai.gemini.quota': 'Gemini-Kontingent aufgebraucht. Versuch es gleich noch einmal.',
+  'ai.gemini.failed': 'Gemini-Anfrage fehlgeschlagen ({status}).',
+  'ai.gemini.empty': 'Gemini hat eine leere Antwort geliefert.',
+  'ai.openai.noEndpoint': 'Für den OpenAI-kompatiblen Anbieter ist kein Endpunkt eingerichtet.',
+  'ai.openai.keyRejected': 'Der KI-Server hat den API-Schlüssel abgelehnt.',
+  'ai.openai.unknownModel': 'Der KI-Server kennt dieses Modell nicht.',
+  'ai.openai.quota': 'Kontingent des KI-Servers aufgebraucht. Versuch es gleich noch einmal.',
+  'ai.openai.failed': 'Anfrage an den KI-Server fehlgeschlagen ({status}).',
+  'ai.openai.empty': 'Der KI-Server hat eine leere Antwort geliefert.',
+  'ai.invalid.breakdown': 'Die KI hat eine ungültige Aufteilung geliefert. Versuch es noch einmal!',
+  'ai.invalid.plan': 'Die KI hat einen ungültigen Plan geliefert. Versuch es noch einmal!',
+  'ai.invalid.review': 'Die KI hat einen ungültigen Rückblick geliefert. Versuch es noch einmal!',
+  'ai.invalid.coach': 'Die KI hat einen ungültigen Tipp geliefert. Versuch es noch einmal!',
+  'plan.noTasks': 'Lege zuerst ein paar offene Aufgaben an und plane dann deinen Tag.',
+  'plan.tooShort': {
+    one: '{count} Stunde reicht nicht für einen einzigen Fokusblock.',
+    other: '{count} Stunden reichen nicht für einen einzigen Fokusblock.',
+  },
+  'import.summary': 'Importiert: {items}.',
+  'import.tasks': { one: '{count} Aufgabe', other: '{count} Aufgaben' },
+  'import.templates': { one: '{count} Vorlage', other: '{count} Vorlagen' },
+  'import.sessions': { one: '{count} Sitzung', other: '{count} Sitzungen' },
+  'import.skipped': { one: '{count} ungültiger Eintrag übersprungen.', other: '{count} ungültige Einträge übersprungen.' },
+  'import.notJson': 'Diese Datei ist kein gültiges JSON.',
+  'import.notBackup': 'Das ist keine ZenFocus-Sicherung.',
+  'import.newer': 'Diese Sicherung stammt von einer neueren ZenFocus-Version.',
+  'import.noChecklist': 'In dieser Datei wurden keine Checklisten-Einträge gefunden.',
+  'import.csvColumns': 'Dieser CSV fehlen die Spalten des ZenFocus-Verlaufs.',
+  'import.unsupported': 'Dateityp nicht unterstützt. Verwende .json, .md oder .csv.',
+  'export.icsTitle': 'Fokus: {task}',
+  'room.error': 'Der Raumserver hat das abgelehnt.',
+  'room.error.notJson': 'Nachrichten müssen JSON sein.',
+  'room.error.badRoom': 'Raumcodes bestehen aus 4 bis 12 Buchstaben oder Ziffern.',
+  'room.error.badMember': 'Zum Beitreten braucht es eine Mitglieds-ID und einen Namen.',
+  'room.error.notJoined': 'Tritt zuerst einem Raum bei.',
+  'room.error.unknownType': 'Unbekannter Nachrichtentyp.',
+};
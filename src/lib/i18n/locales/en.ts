@@ -0,0 +1,437 @@
+// Source locale: every key lives here first, and the other locales must match it.
+// Plural entries are picked by the `count` variable.
+export const en = {
+  'mode.focus': 'Focus Flow',
+  'mode.short': 'Short Break',
+  'mode.long': 'Long Break',
+  'tab.focus': 'Focus',
+  'tab.short': 'Short Break',
+  'tab.long': 'Long Break',
+
+  'timer.flowing': 'Flowing',
+  'timer.paused': 'Paused',
+  'timer.start': 'Start',
+  'timer.pause': 'Pause',
+  'timer.focus': 'Focus',
+  'timer.reset': 'Reset timer',
+  'timer.cycle': 'Cycle {position}',
+  'timer.cycleHint': 'Focus sessions in this cycle',
+  'timer.interrupted': '{count} interrupted',
+  'timer.modes': 'Timer mode',
+
+  'header.stats': 'Statistics',
+  'header.coach': 'Zen Coach',
+  'header.coachOffline': 'The Zen Coach needs a connection',
+  'header.templates': 'Templates',
+  'header.room': 'Focus room',
+  'header.plan': 'Plan my day / end-of-day review',
+  'header.settings': 'Settings',
+  'header.soundscape': 'Soundscape',
+  'header.mute': 'Mute sounds',
+  'header.unmute': 'Unmute sounds',
+  'header.shortcuts': 'Keyboard shortcuts ({combo})',
+  'header.mini': 'Pop out mini timer',
+  'header.zen': 'Enter Zen Mode',
+
+  'banner.update': 'A new version of ZenFocus is ready.',
+  'banner.reload': 'Reload',
+  'banner.dismiss': 'Dismiss',
+  'banner.offline': "You're offline. The timer and your tasks keep working.",
+  'banner.offlineQueued': {
+    one: "You're offline. The timer and your tasks keep working; {count} Smart Breakdown will run once you're back.",
+    other: "You're offline. The timer and your tasks keep working; {count} Smart Breakdowns will run once you're back.",
+  },
+  'banner.offlineWaiting': "You're offline. The timer and your tasks keep working, and Smart Breakdowns will wait until you're back.",
+
+  'sequence.stop': 'Back to the regular cycle',
+  'room.chip': { one: 'Room {code} · {count} person', other: 'Room {code} · {count} people' },
+  'room.connecting': 'Connecting to room {code}…',
+  'room.title': 'Focus Room',
+  'room.copy': 'Copy the room code',
+  'room.leave': 'Leave',
+  'room.shared': 'Start, pause and mode switches are shared with everyone here.',
+  'room.connectingTo': 'Connecting to {server}…',
+  'room.you': '(you)',
+  'room.justJoined': 'Just joined',
+  'room.paused': 'Paused',
+  'room.shortBreak': 'On a short break',
+  'room.longBreak': 'On a long break',
+  'room.focusingOn': 'Focusing on "{task}"',
+  'room.focusing': 'Focusing',
+  'room.intro': 'Join the same code as your team to run one shared timer and see what everyone is focusing on.',
+  'room.name': 'Your name',
+  'room.code': 'Room code',
+  'room.codePlaceholder': 'e.g. {code}',
+  'room.newCode': 'Make up a new code',
+  'room.server': 'Server',
+  'room.selfHost': 'Run your own with',
+  'room.join': 'Join room',
+  'room.badUrl': '"{server}" is not a WebSocket address.',
+  'room.lost': 'Connection lost. Reconnecting…',
+  'room.unreachable': "Can't reach the room server at {server}. Retrying…",
+
+  'tasks.heading': 'Current Priorities',
+  'tasks.done': '{done}/{total} Done',
+  'tasks.placeholder': 'What are you working on?',
+  'tasks.add': 'Add task',
+  'tasks.empty': 'No tasks yet. Add one to start flowing.',
+  'tasks.filteredEmpty': 'Nothing here. Add a task or change the filter.',
+
+  'zen.label': 'Zen Mode',
+  'zen.exit': 'Exit Zen Mode',
+  'zen.noTask': 'No active task',
+  'zen.nextStep': 'Next Step: {step}',
+  'zen.interruptions': '{summary} this session',
+
+  'notify.focusDone': 'Focus session complete',
+  'notify.breakDone': 'Break is over',
+  'notify.started': '{mode} has started.',
+  'notify.readyFocus': 'Ready for the next focus session?',
+  'notify.timeForShort': 'Time for a short break.',
+  'notify.timeForLong': 'Time for a long break.',
+  'notify.startFocus': 'Start focus',
+  'notify.startBreak': 'Start break',
+  'notify.snooze': 'Snooze {minutes} min',
+  'notify.reminder': 'Reminder',
+  'notify.minutesLeft': { one: '{count} minute left', other: '{count} minutes left' },
+  'notify.wrapUp': 'Wrap up "{task}".',
+  'notify.almostOver': '{mode} is almost over.',
+
+  'announce.ready': '{mode} ready, {minutes} minutes.',
+  'announce.started': '{mode} started, {minutes} minutes.',
+  'announce.paused': { one: '{mode} paused, {count} minute left.', other: '{mode} paused, {count} minutes left.' },
+  'announce.halfway': 'Halfway through {mode}.',
+  'announce.minutesLeft': { one: '{count} minute left.', other: '{count} minutes left.' },
+
+  'palette.breakdown': 'Smart Breakdown: {task}',
+  'palette.complete': 'Complete: {task}',
+  'palette.stats': 'Open statistics',
+  'palette.settings': 'Open settings',
+  'palette.soundscape': 'Open soundscape',
+  'palette.coach': 'Ask the Zen Coach',
+  'palette.plan': 'Plan my day',
+  'palette.review': 'End-of-day review',
+  'palette.templates': 'Open templates',
+  'palette.room': 'Open focus room',
+  'palette.stopSequence': 'Stop {name} sequence',
+  'palette.archive': 'Archive completed tasks',
+  'palette.skip': 'Skip to the next phase',
+  'palette.start': 'Start',
+  'palette.focusOn': 'Focus on',
+  'palette.placeholder': 'Type a command or task…',
+  'palette.noMatch': 'Nothing matches "{query}"',
+  'palette.group.commands': 'Commands',
+  'palette.group.tasks': 'Tasks',
+  'palette.group.templates': 'Templates',
+
+  'shortcut.toggleTimer': 'Start / pause timer',
+  'shortcut.reset': 'Reset timer',
+  'shortcut.focusMode': 'Switch to focus',
+  'shortcut.shortMode': 'Switch to short break',
+  'shortcut.longMode': 'Switch to long break',
+  'shortcut.zen': 'Toggle Zen Mode',
+  'shortcut.newTask': 'New task',
+  'shortcut.nextTask': 'Select next task',
+  'shortcut.prevTask': 'Select previous task',
+  'shortcut.completeTask': 'Complete selected task',
+  'shortcut.pinTask': 'Pin selected task',
+  'shortcut.breakdown': 'Smart Breakdown selected task',
+  'shortcut.distraction': 'Log a distraction',
+  'distraction.placeholder': "What's pulling at you? Park it here",
+  'distraction.label': 'Log a distraction',
+  'distraction.kind': 'Kind of interruption',
+  'distraction.internal': 'Internal',
+  'distraction.internalHint': 'A stray thought or urge of your own',
+  'distraction.external': 'External',
+  'distraction.externalHint': 'Someone or something pulled you away',
+  'distraction.logged': { one: '{count} logged this session.', other: '{count} logged this session.' },
+  'distraction.later': 'You can turn thoughts into tasks when the session ends.',
+  'distraction.reviewTitle': 'Parked during your session',
+  'distraction.reviewHint': 'Tick anything worth doing to add it to your tasks.',
+  'distraction.addTasks': { one: 'Add {count} as task', other: 'Add {count} as tasks' },
+  'distraction.clear': 'Clear list',
+  'distraction.dismiss': 'Later',
+  'shortcut.palette': 'Command palette',
+  'shortcut.help': 'Keyboard shortcuts',
+
+  'coach.prompt': 'I am using a focus timer app. My current main task is: "{task}". Give me one single, short, powerful sentence of advice (Stoic, productivity, or motivational) to help me start or focus on this specific task. Keep it under 20 words.',
+  'coach.generalFocus': 'general focus',
+
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Same as the browser',
+  'settings.title': 'Timer Settings',
+  'settings.durations': 'Durations (minutes)',
+  'settings.cycle': 'Cycle',
+  'settings.longBreakEvery': 'Long break every',
+  'settings.focusSessions': 'focus sessions',
+  'settings.autoStartBreaks': 'Auto-start breaks',
+  'settings.autoStartFocus': 'Auto-start focus after breaks',
+  'settings.notifications': 'Notifications',
+  'settings.desktopNotifications': 'Desktop notifications',
+  'settings.notificationsBlocked': "Notifications are blocked for this site. Allow them in your browser's site settings; until then the chime and tab title still tell you when a session ends.",
+  'settings.notificationsUnsupported': "This browser can't show notifications. The chime and tab title still tell you when a session ends.",
+  'settings.warnBefore': 'Warn before the end',
+  'settings.warnMinutes': '{minutes} min',
+  'settings.favicon': 'Progress ring in tab icon',
+  'settings.ai': 'AI Assistant',
+  'settings.provider': 'Provider',
+  'settings.model': 'Model',
+  'settings.endpoint': 'Endpoint',
+  'settings.apiKey': 'API key',
+  'settings.apiKeyGemini': 'Uses VITE_GEMINI_API_KEY when empty',
+  'settings.apiKeyOptional': 'Optional for local servers',
+  'settings.mockHint': 'Canned, deterministic answers. No network or API key needed.',
+  'settings.appearance': 'Appearance',
+  'settings.theme': 'Theme',
+  'settings.themeAuto': 'Match the system',
+  'settings.themeAccents': "Use the theme's accent colors",
+  'settings.data': 'Data',
+  'settings.export.json': 'Full backup',
+  'settings.export.markdown': 'Tasks',
+  'settings.export.csv': 'Session history',
+  'settings.export.ics': 'Planned focus blocks',
+  'settings.exportHint.json': '.json',
+  'settings.exportHint.markdown': '.md checklist',
+  'settings.exportHint.csv': '.csv',
+  'settings.exportHint.ics': '.ics calendar',
+  'settings.import': 'Import .json, .md or .csv',
+  'settings.importFailed': 'Import failed.',
+  'settings.importHint': 'Imports merge by id: matching items are updated, everything else is kept.',
+  'settings.defaults': 'Defaults',
+  'settings.defaultsHint': 'Reset timer durations and cycle',
+  'settings.save': 'Save',
+
+  'panel.close': 'Close',
+
+  'archive.title': 'Archive',
+  'archive.empty': 'Nothing archived yet.',
+  'archive.pomodoros': { one: '{count} pomodoro', other: '{count} pomodoros' },
+  'archive.archivedOn': 'archived {date}',
+  'archive.restore': 'Restore to the list',
+  'archive.delete': 'Delete for good',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.hint': 'Click a key to rebind it, then press the new combination. Esc cancels.',
+  'shortcuts.rebind': '{action}: {combo}. Press to rebind.',
+  'shortcuts.recording': 'Press keys…',
+  'shortcuts.restore': 'Restore defaults',
+
+  'theme.dark': 'Dark',
+  'theme.light': 'Light',
+  'theme.contrast': 'High contrast',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-compatible (Ollama, llama.cpp…)',
+  'provider.mock': 'Offline demo',
+
+  'project.inbox': 'Inbox',
+  'interruptions.none': 'No interruptions',
+  'interruptions.summary': {
+    one: '{count} interruption ({internal} internal · {external} external)',
+    other: '{count} interruptions ({internal} internal · {external} external)',
+  },
+
+  'stats.title': 'Focus Statistics',
+  'stats.today': 'Today',
+  'stats.sessions': { one: '{count} session', other: '{count} sessions' },
+  'stats.interruptions': { one: '{count} interruption', other: '{count} interruptions' },
+  'stats.lastWeek': 'Last 7 days',
+  'stats.weekHint': '{done} done · {abandoned} abandoned',
+  'stats.streak': 'Streak',
+  'stats.streakHint': 'consecutive days',
+  'stats.best': 'Best',
+  'stats.bestHint': 'longest streak',
+  'stats.days': '{count}d',
+  'stats.thisWeek': 'This Week',
+  'stats.calendar': 'Focus Calendar',
+  'stats.byTask': 'Focus by Task',
+  'stats.empty': 'No focus sessions logged yet.',
+  'stats.byProject': 'Focus by Project',
+  'stats.byTag': 'Focus by Tag',
+  'stats.unassigned': 'Unassigned',
+
+  'sound.title': 'Soundscape',
+  'sound.mix': 'Ambient Mix',
+  'sound.preview': 'Preview',
+  'sound.stop': 'Stop',
+  'sound.layer.rain': 'Rain',
+  'sound.layer.brown': 'Brown noise',
+  'sound.layer.pink': 'Pink noise',
+  'sound.layer.white': 'White noise',
+  'sound.layer.binaural': 'Binaural tone',
+  'sound.binauralHint': 'The binaural tone needs headphones. Everything is synthesized in the browser.',
+  'sound.volume': 'Volume',
+  'sound.ambience': 'Ambience',
+  'sound.chimeVolume': 'Chime',
+  'sound.chime': 'End-of-Session Chime',
+  'sound.chime.bell': 'Bell',
+  'sound.chime.bowl': 'Singing bowl',
+  'sound.chime.digital': 'Digital',
+  'sound.chime.beep': 'Classic beep',
+  'sound.chime.none': 'None',
+  'sound.play': 'Play {chime}',
+
+  'priority.high': 'High',
+  'priority.medium': 'Medium',
+  'priority.low': 'Low',
+  'sort.manual': 'My order',
+  'sort.priority': 'Priority',
+  'sort.due': 'Due date',
+  'due.today': 'Today',
+  'due.tomorrow': 'Tomorrow',
+  'due.yesterday': 'Yesterday',
+  'recurrence.daily': 'Every day',
+  'recurrence.weekdays': 'Weekdays',
+  'recurrence.weekly': 'Every week',
+  'recurrence.custom': 'On chosen days',
+  'recurrence.every': 'Every {days}',
+
+  'details.project': 'Project',
+  'details.priority': 'Priority',
+  'details.noPriority': 'No priority',
+  'details.due': 'Due date',
+  'details.tags': 'Tags',
+  'details.tagsPlaceholder': 'tags, comma separated',
+  'details.repeat': 'Repeat',
+  'details.noRepeat': "Doesn't repeat",
+  'details.repeatOn': 'Repeat on',
+  'details.template': 'Template',
+  'details.templateHint': 'Save this task and its steps as a template',
+
+  'filters.all': 'All',
+  'filters.newProject': 'New project',
+  'filters.projectName': 'Project name',
+  'filters.newProjectName': 'New project name',
+  'filters.deleteProject': 'Delete project (its tasks move to the Inbox)',
+  'filters.byTag': 'Filter by tag',
+  'filters.anyTag': 'Any tag',
+  'filters.sort': 'Sort tasks',
+  'filters.sortBy': 'Sort: {order}',
+  'filters.archiveDone': 'Archive {count} done',
+  'filters.archiveHint': 'Move finished tasks to the archive',
+  'filters.showArchive': 'Show archive',
+
+  'task.reorderHint': 'Drag, or use arrow keys, to reorder',
+  'task.reorder': 'Reorder "{task}"',
+  'task.expand': 'Expand steps',
+  'task.collapse': 'Collapse steps',
+  'task.complete': 'Mark "{task}" as done',
+  'task.name': 'Task name',
+  'task.priority': '{priority} priority',
+  'task.due': 'Due {date}',
+  'task.showTag': 'Show only #{tag}',
+  'task.stepsLeft': '{minutes} min of steps left',
+  'task.pomodoroEstimate': { one: '≈ {count} pomodoro', other: '≈ {count} pomodoros' },
+  'task.pin': 'Focus on this task',
+  'task.unpin': 'Unpin (fall back to the first open task)',
+  'task.breakdown': 'Auto-generate subtasks with AI',
+  'task.queued': "Queued: runs when you're back online (click to cancel)",
+  'task.delete': 'Delete task',
+  'task.editHint': 'Double-click to edit',
+  'step.name': 'Step name',
+  'step.after': 'after step {steps}',
+  'step.promote': 'Promote to task',
+  'step.delete': 'Delete step',
+  'step.add': 'Add a step',
+  'estimate.lower': 'Lower estimate',
+  'estimate.raise': 'Raise estimate',
+  'estimate.hint': 'Completed / estimated pomodoros',
+
+  'next.title': 'Done with "{task}"',
+  'next.running': "The timer is still running. What's next?",
+  'next.empty': 'No open tasks left. Enjoy the rest of the session.',
+  'next.dismiss': 'Not now',
+
+  'templates.title': 'Templates',
+  'templates.empty': 'No templates yet. Open a task and choose "Template" to save it with its steps.',
+  'templates.name': 'Template name',
+  'templates.start': 'Start',
+  'templates.startHint': 'Add the task and start its timer',
+  'templates.steps': { one: '{count} step', other: '{count} steps' },
+  'templates.blocks': '{minutes} min blocks',
+  'templates.delete': 'Delete template',
+  'templates.sequence': 'Timer sequence',
+  'templates.sequencePlaceholder': 'Regular cycle',
+  'templates.sequenceHint': 'Focus/break minutes and rounds, e.g. 50/10 x3',
+
+  'planner.planTitle': 'Plan My Day',
+  'planner.reviewTitle': 'Day in Review',
+  'planner.plan': 'Plan',
+  'planner.review': 'Review',
+  'planner.available': 'Available time',
+  'planner.hours': 'Hours I can focus today',
+  'planner.fits': {
+    one: 'Fits {count} focus block of {minutes} minutes, breaks included.',
+    other: 'Fits {count} focus blocks of {minutes} minutes, breaks included.',
+  },
+  'planner.planOffline': 'Planning needs a connection',
+  'planner.replan': 'Propose another plan',
+  'planner.start': 'Plan my day',
+  'planner.schedule': 'Proposed schedule',
+  'planner.emptyPlan': 'Nothing left in the plan.',
+  'planner.earlier': 'Move earlier',
+  'planner.later': 'Move later',
+  'planner.fewer': 'One block fewer',
+  'planner.more': 'One block more',
+  'planner.remove': 'Leave out of the plan',
+  'planner.booked': '{booked} of {capacity} blocks booked',
+  'planner.doneAround': 'done around {time}',
+  'planner.apply': 'Apply to my list',
+  'planner.discard': 'Discard',
+  'planner.today': 'Today',
+  'planner.focused': 'Focused',
+  'planner.pomodoros': 'Pomodoros',
+  'planner.finished': 'Finished',
+  'planner.reviewOffline': 'The review needs a connection',
+  'planner.reviewAgain': 'Review again',
+  'planner.reviewStart': 'Review my day',
+  'planner.wins': 'Wins',
+  'planner.carryTitle': 'Carry over to tomorrow',
+  'planner.nothingToCarry': 'Nothing to carry over. Nice work.',
+  'planner.carry': { one: "Put {count} task at the top of tomorrow's list", other: "Put {count} tasks at the top of tomorrow's list" },
+
+  'ai.unreachable': "Couldn't reach the AI endpoint. Check your connection or endpoint URL.",
+  'ai.failed': 'Something went wrong talking to the AI.',
+  'ai.gemini.noKey': 'No Gemini API key configured. Add one in Settings or set VITE_GEMINI_API_KEY.',
+  'ai.gemini.keyRejected': 'Gemini rejected the API key.',
+  'ai.gemini.unknownModel': "Gemini doesn't know that model.",
+  'ai.gemini.quota': 'Gemini quota exceeded. Try again shortly.',
+  'ai.gemini.failed': 'Gemini request failed ({status}).',
+  'ai.gemini.empty': 'Gemini returned an empty response.',
+  'ai.openai.noEndpoint': 'No endpoint configured for the OpenAI-compatible provider.',
+  'ai.openai.keyRejected': 'The AI server rejected the API key.',
+  'ai.openai.unknownModel': "The AI server doesn't know that model.",
+  'ai.openai.quota': "The AI server's quota is used up. Try again shortly.",
+  'ai.openai.failed': 'The AI server request failed ({status}).',
+  'ai.openai.empty': 'The AI server returned an empty response.',
+  'ai.invalid.breakdown': 'The AI returned an invalid breakdown. Try again!',
+  'ai.invalid.plan': 'The AI returned an invalid plan. Try again!',
+  'ai.invalid.review': 'The AI returned an invalid review. Try again!',
+  'ai.invalid.coach': 'The AI returned an invalid tip. Try again!',
+  'plan.noTasks': 'Add a few open tasks first, then plan your day.',
+  'plan.tooShort': { one: "{count} hour doesn't fit a single focus block.", other: "{count} hours don't fit a single focus block." },
+  'import.summary': 'Imported {items}.',
+  'import.tasks': { one: '{count} task', other: '{count} tasks' },
+  'import.templates': { one: '{count} template', other: '{count} templates' },
+  'import.sessions': { one: '{count} session', other: '{count} sessions' },
+  'import.skipped': { one: 'Skipped {count} invalid record.', other: 'Skipped {count} invalid records.' },
+  'import.notJson': 'This file is not valid JSON.',
+  'import.notBackup': 'This is not a ZenFocus backup.',
+  'import.newer': 'This backup was made by a newer version of ZenFocus.',
+  'import.noChecklist': 'No checklist items found in this file.',
+  'import.csvColumns': 'This CSV is missing ZenFocus history columns.',
+  'import.unsupported': 'Unsupported file type. Use .json, .md or .csv.',
+  'export.icsTitle': 'Focus: {task}',
+  'room.error': 'The room server refused that.',
+  'room.error.notJson': 'Messages must be JSON.',
+  'room.error.badRoom': 'Room codes are 4 to 12 letters or digits.',
+  'room.error.badMember': 'Joining needs a member id and name.',
+  'room.error.notJoined': 'Join a room first.',
+  'room.error.unknownType': 'Unknown message type.',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+// Keyed by Intl.PluralRules categories; "other" is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Messages = Record<MessageKey, string | PluralMessage>;
@@ -0,0 +1,436 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'mode.focus': 'Flujo de enfoque',
+  'mode.short': 'Pausa corta',
+  'mode.long': 'Pausa larga',
+  'tab.focus': 'Enfoque',
+  'tab.short': 'Pausa corta',
+  'tab.long': 'Pausa larga',
+
+  'timer.flowing': 'En flujo',
+  'timer.paused': 'En pausa',
+  'timer.start': 'Iniciar',
+  'timer.pause': 'Pausar',
+  'timer.focus': 'Enfocar',
+  'timer.reset': 'Reiniciar temporizador',
+  'timer.cycle': 'Ciclo {position}',
+  'timer.cycleHint': 'Sesiones de enfoque en este ciclo',
+  'timer.interrupted': '{count} interrupciones',
+  'timer.modes': 'Modo del temporizador',
+
+  'header.stats': 'Estadísticas',
+  'header.coach': 'Coach Zen',
+  'header.coachOffline': 'El Coach Zen necesita conexión',
+  'header.templates': 'Plantillas',
+  'header.room': 'Sala de enfoque',
+  'header.plan': 'Planificar el día / repaso del día',
+  'header.settings': 'Ajustes',
+  'header.soundscape': 'Paisaje sonoro',
+  'header.mute': 'Silenciar sonidos',
+  'header.unmute': 'Activar sonidos',
+  'header.shortcuts': 'Atajos de teclado ({combo})',
+  'header.mini': 'Abrir mini temporizador',
+  'header.zen': 'Entrar en modo Zen',
+
+  'banner.update': 'Hay una nueva versión de ZenFocus lista.',
+  'banner.reload': 'Recargar',
+  'banner.dismiss': 'Cerrar',
+  'banner.offline': 'Estás sin conexión. El temporizador y tus tareas siguen funcionando.',
+  'banner.offlineQueued': {
+    one: 'Estás sin conexión. El temporizador y tus tareas siguen funcionando; {count} Smart Breakdown se hará cuando vuelvas.',
+    other: 'Estás sin conexión. El temporizador y tus tareas siguen funcionando; {count} Smart Breakdowns se harán cuando vuelvas.',
+  },
+  'banner.offlineWaiting': 'Estás sin conexión. El temporizador y tus tareas siguen funcionando, y los Smart Breakdowns esperarán a que vuelvas.',
+
+  'sequence.stop': 'Volver al ciclo normal',
+  'room.chip': { one: 'Sala {code} · {count} persona', other: 'Sala {code} · {count} personas' },
+  'room.connecting': 'Conectando a la sala {code}…',
+  'room.title': 'Sala de enfoque',
+  'room.copy': 'Copiar el código de la sala',
+  'room.leave': 'Salir',
+  'room.shared': 'Iniciar, pausar y cambiar de modo se comparte con todos aquí.',
+  'room.connectingTo': 'Conectando con {server}…',
+  'room.you': '(tú)',
+  'room.justJoined': 'Acaba de entrar',
+  'room.paused': 'En pausa',
+  'room.shortBreak': 'En un descanso corto',
+  'room.longBreak': 'En un descanso largo',
+  'room.focusingOn': 'Concentrado en «{task}»',
+  'room.focusing': 'Concentrado',
+  'room.intro': 'Usa el mismo código que tu equipo para compartir un temporizador y ver en qué está cada uno.',
+  'room.name': 'Tu nombre',
+  'room.code': 'Código de sala',
+  'room.codePlaceholder': 'p. ej. {code}',
+  'room.newCode': 'Inventar un código nuevo',
+  'room.server': 'Servidor',
+  'room.selfHost': 'Ejecuta el tuyo con',
+  'room.join': 'Entrar en la sala',
+  'room.badUrl': '«{server}» no es una dirección WebSocket.',
+  'room.lost': 'Conexión perdida. Reconectando…',
+  'room.unreachable': 'No se puede contactar con el servidor de salas en {server}. Reintentando…',
+
+  'tasks.heading': 'Prioridades actuales',
+  'tasks.done': '{done}/{total} hechas',
+  'tasks.placeholder': '¿En qué estás trabajando?',
+  'tasks.add': 'Añadir tarea',
+  'tasks.empty': 'Aún no hay tareas. Añade una para empezar.',
+  'tasks.filteredEmpty': 'No hay nada aquí. Añade una tarea o cambia el filtro.',
+
+  'zen.label': 'Modo Zen',
+  'zen.exit': 'Salir del modo Zen',
+  'zen.noTask': 'Ninguna tarea activa',
+  'zen.nextStep': 'Siguiente paso: {step}',
+  'zen.interruptions': '{summary} en esta sesión',
+
+  'notify.focusDone': 'Sesión de enfoque completada',
+  'notify.breakDone': 'Se acabó la pausa',
+  'notify.started': '{mode} ha comenzado.',
+  'notify.readyFocus': '¿Listo para la siguiente sesión de enfoque?',
+  'notify.timeForShort': 'Hora de una pausa corta.',
+  'notify.timeForLong': 'Hora de una pausa larga.',
+  'notify.startFocus': 'Empezar enfoque',
+  'notify.startBreak': 'Empezar pausa',
+  'notify.snooze': 'Posponer {minutes} min',
+  'notify.reminder': 'Recordatorio',
+  'notify.minutesLeft': { one: 'Queda {count} minuto', other: 'Quedan {count} minutos' },
+  'notify.wrapUp': 'Termina «{task}».',
+  'notify.almostOver': '{mode} casi termina.',
+
+  'announce.ready': '{mode} listo, {minutes} minutos.',
+  'announce.started': '{mode} iniciado, {minutes} minutos.',
+  'announce.paused': { one: '{mode} en pausa, queda {count} minuto.', other: '{mode} en pausa, quedan {count} minutos.' },
+  'announce.halfway': 'Mitad de {mode}.',
+  'announce.minutesLeft': { one: 'Queda {count} minuto.', other: 'Quedan {count} minutos.' },
+
+  'palette.breakdown': 'Smart Breakdown: {task}',
+  'palette.complete': 'Completar: {task}',
+  'palette.stats': 'Abrir estadísticas',
+  'palette.settings': 'Abrir ajustes',
+  'palette.soundscape': 'Abrir paisaje sonoro',
+  'palette.coach': 'Preguntar al Coach Zen',
+  'palette.plan': 'Planificar mi día',
+  'palette.review': 'Repaso del día',
+  'palette.templates': 'Abrir plantillas',
+  'palette.room': 'Abrir sala de enfoque',
+  'palette.stopSequence': 'Detener la secuencia «{name}»',
+  'palette.archive': 'Archivar tareas completadas',
+  'palette.skip': 'Saltar a la siguiente fase',
+  'palette.start': 'Iniciar',
+  'palette.focusOn': 'Enfocar',
+  'palette.placeholder': 'Escribe un comando o una tarea…',
+  'palette.noMatch': 'Nada coincide con «{query}»',
+  'palette.group.commands': 'Comandos',
+  'palette.group.tasks': 'Tareas',
+  'palette.group.templates': 'Plantillas',
+
+  'shortcut.toggleTimer': 'Iniciar / pausar temporizador',
+  'shortcut.reset': 'Reiniciar temporizador',
+  'shortcut.focusMode': 'Cambiar a enfoque',
+  'shortcut.shortMode': 'Cambiar a pausa corta',
+  'shortcut.longMode': 'Cambiar a pausa larga',
+  'shortcut.zen': 'Alternar modo Zen',
+  'shortcut.newTask': 'Nueva tarea',
+  'shortcut.nextTask': 'Seleccionar tarea siguiente',
+  'shortcut.prevTask': 'Seleccionar tarea anterior',
+  'shortcut.completeTask': 'Completar tarea seleccionada',
+  'shortcut.pinTask': 'Fijar tarea seleccionada',
+  'shortcut.breakdown': 'Smart Breakdown de la tarea seleccionada',
+  'shortcut.distraction': 'Anotar una distracción',
+  'distraction.placeholder': '¿Qué te distrae? Apárcalo aquí',
+  'distraction.label': 'Anotar una distracción',
+  'distraction.kind': 'Tipo de interrupción',
+  'distraction.internal': 'Interna',
+  'distraction.internalHint': 'Un pensamiento o impulso propio',
+  'distraction.external': 'Externa',
+  'distraction.externalHint': 'Alguien o algo te ha interrumpido',
+  'distraction.logged': { one: '{count} anotada en esta sesión.', other: '{count} anotadas en esta sesión.' },
+  'distraction.later': 'Al terminar la sesión puedes convertir los pensamientos en tareas.',
+  'distraction.reviewTitle': 'Aparcado durante la sesión',
+  'distraction.reviewHint': 'Marca lo que merezca la pena para añadirlo a tus tareas.',
+  'distraction.addTasks': { one: 'Añadir {count} como tarea', other: 'Añadir {count} como tareas' },
+  'distraction.clear': 'Vaciar la lista',
+  'distraction.dismiss': 'Más tarde',
+  'shortcut.palette': 'Paleta de comandos',
+  'shortcut.help': 'Atajos de teclado',
+
+  'coach.prompt': 'Uso una app de temporizador de enfoque. Mi tarea principal ahora es: «{task}». Dame una sola frase de consejo, corta y potente (estoica, de productividad o motivadora), que me ayude a empezar o a concentrarme en esta tarea concreta. Menos de 20 palabras.',
+  'coach.generalFocus': 'concentración general',
+
+  'settings.language': 'Idioma',
+  'settings.languageAuto': 'Igual que el navegador',
+  'settings.title': 'Ajustes del temporizador',
+  'settings.durations': 'Duración (minutos)',
+  'settings.cycle': 'Ciclo',
+  'settings.longBreakEvery': 'Pausa larga cada',
+  'settings.focusSessions': 'sesiones de enfoque',
+  'settings.autoStartBreaks': 'Iniciar descansos automáticamente',
+  'settings.autoStartFocus': 'Iniciar el enfoque automáticamente tras los descansos',
+  'settings.notifications': 'Notificaciones',
+  'settings.desktopNotifications': 'Notificaciones de escritorio',
+  'settings.notificationsBlocked': 'Las notificaciones están bloqueadas para este sitio. Permítelas en los ajustes del sitio de tu navegador; mientras tanto, el sonido y el título de la pestaña te avisan cuando termina una sesión.',
+  'settings.notificationsUnsupported': 'Este navegador no puede mostrar notificaciones. El sonido y el título de la pestaña te siguen avisando cuando termina una sesión.',
+  'settings.warnBefore': 'Avisar antes del final',
+  'settings.warnMinutes': '{minutes} min',
+  'settings.favicon': 'Anillo de progreso en el icono de la pestaña',
+  'settings.ai': 'Asistente de IA',
+  'settings.provider': 'Proveedor',
+  'settings.model': 'Modelo',
+  'settings.endpoint': 'Endpoint',
+  'settings.apiKey': 'Clave de API',
+  'settings.apiKeyGemini': 'Usa VITE_GEMINI_API_KEY si está vacía',
+  'settings.apiKeyOptional': 'Opcional para servidores locales',
+  'settings.mockHint': 'Respuestas predefinidas y deterministas. No hace falta red ni clave de API.',
+  'settings.appearance': 'Apariencia',
+  'settings.theme': 'Tema',
+  'settings.themeAuto': 'Igual que el sistema',
+  'settings.themeAccents': 'Usar los colores de acento del tema',
+  'settings.data': 'Datos',
+  'settings.export.json': 'Copia de seguridad completa',
+  'settings.export.markdown': 'Tareas',
+  'settings.export.csv': 'Historial de sesiones',
+  'settings.export.ics': 'Bloques de enfoque planificados',
+  'settings.exportHint.json': '.json',
+  'settings.exportHint.markdown': 'lista .md',
+  'settings.exportHint.csv': '.csv',
+  'settings.exportHint.ics': 'calendario .ics',
+  'settings.import': 'Importar .json, .md o .csv',
+  'settings.importFailed': 'La importación ha fallado.',
+  'settings.importHint': 'Las importaciones se combinan por id: los elementos coincidentes se actualizan y todo lo demás se conserva.',
+  'settings.defaults': 'Predeterminados',
+  'settings.defaultsHint': 'Restablecer duraciones y ciclo',
+  'settings.save': 'Guardar',
+
+  'panel.close': 'Cerrar',
+
+  'archive.title': 'Archivo',
+  'archive.empty': 'Todavía no hay nada archivado.',
+  'archive.pomodoros': { one: '{count} pomodoro', other: '{count} pomodoros' },
+  'archive.archivedOn': 'archivada el {date}',
+  'archive.restore': 'Devolver a la lista',
+  'archive.delete': 'Eliminar para siempre',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.hint': 'Haz clic en una tecla para reasignarla y pulsa la nueva combinación. Esc cancela.',
+  'shortcuts.rebind': '{action}: {combo}. Pulsa para reasignar.',
+  'shortcuts.recording': 'Pulsa las teclas…',
+  'shortcuts.restore': 'Restaurar valores predeterminados',
+
+  'theme.dark': 'Oscuro',
+  'theme.light': 'Claro',
+  'theme.contrast': 'Alto contraste',
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'Compatible con OpenAI (Ollama, llama.cpp…)',
+  'provider.mock': 'Demo sin conexión',
+
+  'project.inbox': 'Bandeja de entrada',
+  'interruptions.none': 'Sin interrupciones',
+  'interruptions.summary': {
+    one: '{count} interrupción ({internal} internas · {external} externas)',
+    other: '{count} interrupciones ({internal} internas · {external} externas)',
+  },
+
+  'stats.title': 'Estadísticas de enfoque',
+  'stats.today': 'Hoy',
+  'stats.sessions': { one: '{count} sesión', other: '{count} sesiones' },
+  'stats.interruptions': { one: '{count} interrupción', other: '{count} interrupciones' },
+  'stats.lastWeek': 'Últimos 7 días',
+  'stats.weekHint': '{done} completadas · {abandoned} abandonadas',
+  'stats.streak': 'Racha',
+  'stats.streakHint': 'días seguidos',
+  'stats.best': 'Mejor',
+  'stats.bestHint': 'racha más larga',
+  'stats.days': '{count} d',
+  'stats.thisWeek': 'Esta semana',
+  'stats.calendar': 'Calendario de enfoque',
+  'stats.byTask': 'Enfoque por tarea',
+  'stats.empty': 'Todavía no hay sesiones de enfoque registradas.',
+  'stats.byProject': 'Enfoque por proyecto',
+  'stats.byTag': 'Enfoque por etiqueta',
+  'stats.unassigned': 'Sin tarea',
+
+  'sound.title': 'Paisaje sonoro',
+  'sound.mix': 'Mezcla ambiental',
+  'sound.preview': 'Escuchar',
+  'sound.stop': 'Detener',
+  'sound.layer.rain': 'Lluvia',
+  'sound.layer.brown': 'Ruido marrón',
+  'sound.layer.pink': 'Ruido rosa',
+  'sound.layer.white': 'Ruido blanco',
+  'sound.layer.binaural': 'Tono binaural',
+  'sound.binauralHint': 'El tono binaural necesita auriculares. Todo se sintetiza en el navegador.',
+  'sound.volume': 'Volumen',
+  'sound.ambience': 'Ambiente',
+  'sound.chimeVolume': 'Aviso',
+  'sound.chime': 'Aviso de fin de sesión',
+  'sound.chime.bell': 'Campana',
+  'sound.chime.bowl': 'Cuenco tibetano',
+  'sound.chime.digital': 'Digital',
+  'sound.chime.beep': 'Pitido clásico',
+  'sound.chime.none': 'Ninguno',
+  'sound.play': 'Reproducir {chime}',
+
+  'priority.high': 'Alta',
+  'priority.medium': 'Media',
+  'priority.low': 'Baja',
+  'sort.manual': 'Mi orden',
+  'sort.priority': 'Prioridad',
+  'sort.due': 'Fecha límite',
+  'due.today': 'Hoy',
+  'due.tomorrow': 'Mañana',
+  'due.yesterday': 'Ayer',
+  'recurrence.daily': 'Cada día',
+  'recurrence.weekdays': 'Entre semana',
+  'recurrence.weekly': 'Cada semana',
+  'recurrence.custom': 'Los días elegidos',
+  'recurrence.every': 'Cada {days}',
+
+  'details.project': 'Proyecto',
+  'details.priority': 'Prioridad',
+  'details.noPriority': 'Sin prioridad',
+  'details.due': 'Fecha límite',
+  'details.tags': 'Etiquetas',
+  'details.tagsPlaceholder': 'etiquetas, separadas por comas',
+  'details.repeat': 'Repetir',
+  'details.noRepeat': 'No se repite',
+  'details.repeatOn': 'Repetir los',
+  'details.template': 'Plantilla',
+  'details.templateHint': 'Guardar esta tarea y sus pasos como plantilla',
+
+  'filters.all': 'Todas',
+  'filters.newProject': 'Nuevo proyecto',
+  'filters.projectName': 'Nombre del proyecto',
+  'filters.newProjectName': 'Nombre del nuevo proyecto',
+  'filters.deleteProject': 'Eliminar proyecto (sus tareas pasan a la bandeja de entrada)',
+  'filters.byTag': 'Filtrar por etiqueta',
+  'filters.anyTag': 'Cualquier etiqueta',
+  'filters.sort': 'Ordenar tareas',
+  'filters.sortBy': 'Orden: {order}',
+  'filters.archiveDone': 'Archivar {count} completadas',
+  'filters.archiveHint': 'Mover las tareas terminadas al archivo',
+  'filters.showArchive': 'Ver archivo',
+
+  'task.reorderHint': 'Arrastra o usa las flechas para reordenar',
+  'task.reorder': 'Reordenar «{task}»',
+  'task.expand': 'Mostrar pasos',
+  'task.collapse': 'Ocultar pasos',
+  'task.complete': 'Marcar «{task}» como hecha',
+  'task.name': 'Nombre de la tarea',
+  'task.priority': 'Prioridad {priority}',
+  'task.due': 'Vence el {date}',
+  'task.showTag': 'Mostrar solo #{tag}',
+  'task.stepsLeft': 'Quedan {minutes} min de pasos',
+  'task.pomodoroEstimate': { one: '≈ {count} pomodoro', other: '≈ {count} pomodoros' },
+  'task.pin': 'Enfocarse en esta tarea',
+  'task.unpin': 'Desfijar (volver a la primera tarea abierta)',
+  'task.breakdown': 'Generar subtareas con IA',
+  'task.queued': 'En cola: se ejecutará cuando vuelvas a estar en línea (haz clic para cancelar)',
+  'task.delete': 'Eliminar tarea',
+  'task.editHint': 'Doble clic para editar',
+  'step.name': 'Nombre del paso',
+  'step.after': 'después del paso {steps}',
+  'step.promote': 'Convertir en tarea',
+  'step.delete': 'Eliminar paso',
+  'step.add': 'Añadir un paso',
+  'estimate.lower': 'Reducir estimación',
+  'estimate.raise': 'Aumentar estimación',
+  'estimate.hint': 'Pomodoros completados / estimados',
+
+  'next.title': '«{task}» terminada',
+  'next.running': 'El temporizador sigue en marcha. ¿Qué sigue?',
+  'next.empty': 'No quedan tareas abiertas. Disfruta del resto de la sesión.',
+  'next.dismiss': 'Ahora no',
+
+  'templates.title': 'Plantillas',
+  'templates.empty': 'Todavía no hay plantillas. Abre una tarea y elige «Plantilla» para guardarla con sus pasos.',
+  'templates.name': 'Nombre de la plantilla',
+  'templates.start': 'Empezar',
+  'templates.startHint': 'Añadir la tarea e iniciar su temporizador',
+  'templates.steps': { one: '{count} paso', other: '{count} pasos' },
+  'templates.blocks': 'bloques de {minutes} min',
+  'templates.delete': 'Eliminar plantilla',
+  'templates.sequence': 'Secuencia del temporizador',
+  'templates.sequencePlaceholder': 'Ciclo normal',
+  'templates.sequenceHint': 'Minutos de enfoque/descanso y rondas, p. ej. 50/10 x3',
+
+  'planner.planTitle': 'Planificar mi día',
+  'planner.reviewTitle': 'Resumen del día',
+  'planner.plan': 'Plan',
+  'planner.review': 'Repaso',
+  'planner.available': 'Tiempo disponible',
+  'planner.hours': 'Horas que puedo concentrarme hoy',
+  'planner.fits': {
+    one: 'Caben {count} bloque de enfoque de {minutes} minutos, descansos incluidos.',
+    other: 'Caben {count} bloques de enfoque de {minutes} minutos, descansos incluidos.',
+  },
+  'planner.planOffline': 'La planificación necesita conexión',
+  'planner.replan': 'Proponer otro plan',
+  'planner.start': 'Planificar mi día',
+  'planner.schedule': 'Horario propuesto',
+  'planner.emptyPlan': 'No queda nada en el plan.',
+  'planner.earlier': 'Mover antes',
+  'planner.later': 'Mover después',
+  'planner.fewer': 'Un bloque menos',
+  'planner.more': 'Un bloque más',
+  'planner.remove': 'Quitar del plan',
+  'planner.booked': '{booked} de {capacity} bloques reservados',
+  'planner.doneAround': 'terminado hacia las {time}',
+  'planner.apply': 'Aplicar a mi lista',
+  'planner.discard': 'Descartar',
+  'planner.today': 'Hoy',
+  'planner.focused': 'Enfocado',
+  'planner.pomodoros': 'Pomodoros',
+  'planner.finished': 'Terminadas',
+  'planner.reviewOffline': 'El repaso necesita conexión',
+  'planner.reviewAgain': 'Repasar de nuevo',
+  'planner.reviewStart': 'Repasar mi día',
+  'planner.wins': 'Logros',
+  'planner.carryTitle': 'Pasar a mañana',
+  'planner.nothingToCarry': 'Nada que pasar a mañana. Buen trabajo.',
+  'planner.carry': {
+    one: 'Poner {count} tarea al principio de la lista de mañana',
+    other: 'Poner {count} tareas al principio de la lista de mañana',
+  },
+
+  'ai.unreachable': 'No se pudo contactar con el endpoint de IA. Revisa tu conexión o la URL del endpoint.',
+  'ai.failed': 'Algo salió mal al hablar con la IA.',
+  'ai.gemini.noKey': 'No hay clave de API de Gemini. Añade una en Ajustes o define VITE_GEMINI_API_KEY.',
+  'ai.gemini.keyRejected': 'Gemini rechazó la clave de API.',
+  'ai.gemini.unknownModel': 'Gemini no conoce ese modelo.',
+  'ai.gemini.quota': 'Cuota de Gemini agotada. Inténtalo de nuevo en un momento.',
+  'ai.gemini.failed': 'La solicitud a Gemini falló ({status}).',
+  'ai.gemini.empty': 'Gemini devolvió una respuesta vacía.',
+  'ai.openai.noEndpoint': 'No hay endpoint configurado para el proveedor compatible con OpenAI.',
+  'ai.openai.keyRejected': 'El servidor de IA rechazó la clave de API.',
+  'ai.openai.unknownModel': 'El servidor de IA no conoce ese modelo.',
+  'ai.openai.quota': 'Cuota del servidor de IA agotada. Inténtalo de nuevo en un momento.',
+  'ai.openai.failed': 'La solicitud al servidor de IA falló ({status}).',
+  'ai.openai.empty': 'El servidor de IA devolvió una respuesta vacía.',
+  'ai.invalid.breakdown': 'La IA devolvió un desglose no válido. ¡Inténtalo de nuevo!',
+  'ai.invalid.plan': 'La IA devolvió un plan no válido. ¡Inténtalo de nuevo!',
+  'ai.invalid.review': 'La IA devolvió un repaso no válido. ¡Inténtalo de nuevo!',
+  'ai.invalid.coach': 'La IA devolvió un consejo no válido. ¡Inténtalo de nuevo!',
+  'plan.noTasks': 'Añade primero algunas tareas pendientes y luego planifica tu día.',
+  'plan.tooShort': {
+    one: '{count} hora no alcanza para un solo bloque de enfoque.',
+    other: '{count} horas no alcanzan para un solo bloque de enfoque.',
+  },
+  'import.summary': 'Importado: {items}.',
+  'import.tasks': { one: '{count} tarea', other: '{count} tareas' },
+  'import.templates': { one: '{count} plantilla', other: '{count} plantillas' },
+  'import.sessions': { one: '{count} sesión', other: '{count} sesiones' },
+  'import.skipped': { one: 'Se omitió {count} registro no válido.', other: 'Se omitieron {count} registros no válidos.' },
+  'import.notJson': 'Este archivo no es JSON válido.',
+  'import.notBackup': 'Esto no es una copia de seguridad de ZenFocus.',
+  'import.newer': 'Esta copia la creó una versión más reciente de ZenFocus.',
+  'import.noChecklist': 'No se encontraron elementos de lista en este archivo.',
+  'import.csvColumns': 'A este CSV le faltan las columnas del historial de ZenFocus.',
+  'import.unsupported': 'Tipo de archivo no admitido. Usa .json, .md o .csv.',
+  'export.icsTitle': 'Enfoque: {task}',
+  'room.error': 'El servidor de salas lo ha rechazado.',
+  'room.error.notJson': 'Los mensajes deben ser JSON.',
+  'room.error.badRoom': 'Los códigos de sala tienen de 4 a 12 letras o dígitos.',
+  'room.error.badMember': 'Para entrar hace falta un id de miembro y un nombre.',
+  'room.error.notJoined': 'Entra primero en una sala.',
+  'room.error.unknownType': 'Tipo de mensaje desconocido.',
+};
@@ -0,0 +1,103 @@
+import type { AISettings, FocusTemplate, Project, SessionRecord, Task, ThemeSettings, TimerSettings } from '../../types';
+import { withDefaults } from '../cycle';
+import { LocalizedError } from '../i18n';
+import { AI_SETTINGS, TIMER_SETTINGS } from '../storage/schema';
+import type { StorageSpec } from '../storage';
+import { isObject, isProject, isSessionRecord, isTask, isTemplate, isThemeSettings, mergeById, partition } from './validate';
+
+export const BACKUP_VERSION = 1;
+
+export interface AppSnapshot {
+  tasks: Task[];
+  projects: Project[];
+  templates: FocusTemplate[];
+  history: SessionRecord[];
+  settings: TimerSettings;
+  aiSettings: AISettings;
+  soundEnabled: boolean;
+  theme: ThemeSettings;
+}
+
+interface BackupFile {
+  app: 'zenfocus';
+  version: number;
+  exportedAt: string;
+  data: Omit<AppSnapshot, 'aiSettings'> & { aiSettings: Omit<AISettings, 'apiKey'> };
+}
+
+export const serializeBackup = (snapshot: AppSnapshot, exportedAt: Date) => {
+  // Never write API keys into a file that may be shared or synced
+  const { provider, model, endpoint } = snapshot.aiSettings;
+  const file: BackupFile = {
+    app: 'zenfocus',
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    data: { ...snapshot, aiSettings: { provider, model, endpoint } },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => isObject(a) && isObject(b)
+  ? Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(key => sameValue(a[key], b[key]))
+  : a === b;
+
+// Settings the store would have to repair are refused whole, so nothing half-valid
+// replaces what the user has now
+const checkSettings = <T>(spec: StorageSpec<T>, value: unknown, complete: (value: object) => T) => {
+  if (value === undefined) return { value: null, rejected: 0 };
+  const settings = isObject(value) ? complete(value) : null;
+  return settings !== null && sameValue(spec.repair(settings), settings) ? { value: settings, rejected: 0 } : { value: null, rejected: 1 };
+};
+
+// What an import added, counted per kind; kinds the file can't hold are left out
+export interface ImportSummary {
+  tasks?: number;
+  templates?: number;
+  sessions?: number;
+  skipped: number;
+}
+
+export interface ImportResult {
+  snapshot: AppSnapshot;
+  summary: ImportSummary;
+}
+
+export const importBackup = (text: string, current: AppSnapshot): ImportResult => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('import.notJson');
+  }
+  if (file?.app !== 'zenfocus' || typeof file.version !== 'number') throw new LocalizedError('import.notBackup');
+  if (file.version > BACKUP_VERSION) throw new LocalizedError('import.newer');
+
+  const data = (file.data || {}) as Partial<BackupFile['data']>;
+  const tasks = partition(data.tasks, isTask);
+  const history = partition(data.history, isSessionRecord);
+  const projects = partition(data.projects, isProject);
+  const templates = partition(data.templates, isTemplate);
+  // Older backups may lack newer timer options; those get their defaults
+  const settings = checkSettings(TIMER_SETTINGS, data.settings, value => withDefaults(value));
+  // Keep the local key: backups never contain one
+  const aiSettings = checkSettings(AI_SETTINGS, data.aiSettings, value => ({ ...current.aiSettings, ...value, apiKey: current.aiSettings.apiKey }));
+
+  const snapshot: AppSnapshot = {
+    tasks: mergeById(current.tasks, tasks.valid),
+    projects: mergeById(current.projects, projects.valid),
+    templates: mergeById(current.templates, templates.valid),
+    history: mergeById(current.history, history.valid).sort((a, b) => a.startedAt - b.startedAt),
+    settings: settings.value ?? current.settings,
+    aiSettings: aiSettings.value ?? current.aiSettings,
+    soundEnabled: typeof data.soundEnabled === 'boolean' ? data.soundEnabled : current.soundEnabled,
+    theme: isThemeSettings(data.theme) ? data.theme : current.theme,
+  };
+
+  const summary: ImportSummary = {
+    tasks: tasks.valid.length,
+    templates: templates.valid.length || undefined,
+    sessions: history.valid.length,
+    skipped: tasks.rejected + history.rejected + projects.rejected + templates.rejected + settings.rejected + aiSettings.rejected,
+  };
+  return { snapshot, summary };
+};
@@ -0,0 +1,99 @@
+import type { SessionRecord } from '../../types';
+import { LocalizedError } from '../i18n';
+
+const COLUMNS = [
+  'id', 'mode', 'status', 'started_at', 'ended_at', 'planned_seconds', 'actual_seconds', 'task_id', 'task_text',
+] as const;
+
+// Added later, so older exports without them still import
+const OPTIONAL_COLUMNS = ['interruptions_internal', 'interruptions_external'] as const;
+
+const escapeCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (history: SessionRecord[]) => {
+  const rows = history.map(s => [
+    s.id,
+    s.mode,
+    s.status,
+    new Date(s.startedAt).toISOString(),
+    new Date(s.endedAt).toISOString(),
+    s.plannedSeconds,
+    s.actualSeconds,
+    s.taskId,
+    s.taskText,
+    s.interruptions?.internal,
+    s.interruptions?.external,
+  ].map(escapeCell).join(','));
+  return [[...COLUMNS, ...OPTIONAL_COLUMNS].join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// RFC 4180 style: quoted cells may contain commas, quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+// Raw rows mapped back to record shape; run them through isSessionRecord before use
+export const csvToHistory = (text: string): unknown[] => {
+  const [header, ...rows] = parseCsv(text);
+  const index = Object.fromEntries((header || []).map((name, i) => [name.trim(), i]));
+  if (COLUMNS.some(column => index[column] === undefined)) throw new LocalizedError('import.csvColumns');
+
+  return rows.map(row => {
+    const get = (column: typeof COLUMNS[number] | typeof OPTIONAL_COLUMNS[number]) =>
+      index[column] === undefined ? '' : row[index[column]] ?? '';
+    const internal = get('interruptions_internal');
+    const external = get('interruptions_external');
+    const record = {
+      id: Number(get('id')),
+      mode: get('mode'),
+      status: get('status'),
+      startedAt: Date.parse(get('started_at')),
+      endedAt: Date.parse(get('ended_at')),
+      plannedSeconds: Number(get('planned_seconds')),
+      actualSeconds: Number(get('actual_seconds')),
+      taskId: get('task_id') ? Number(get('task_id')) : undefined,
+      taskText: get('task_text') || undefined,
+      interruptions: internal || external ? { internal: Number(internal) || 0, external: Number(external) || 0 } : undefined,
+    };
+    const numbers = [record.id, record.startedAt, record.endedAt, record.plannedSeconds, record.actualSeconds];
+    return numbers.every(Number.isFinite) ? record : undefined;
+  });
+};
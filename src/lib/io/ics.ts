@@ -0,0 +1,85 @@
+import type { Task, TimerSettings } from '../../types';
+import { nextPhase } from '../cycle';
+
+export interface FocusBlock {
+  start: number; // epoch ms
+  end: number;
+  title: string;
+  taskId?: number;
+}
+
+// Lay open tasks out back to back from `start`, one block per estimated
+// pomodoro (at least one per task), with the cycle's breaks in between.
+export const planFocusBlocks = (
+  tasks: Task[], settings: TimerSettings, start: number, completedFocus = 0, titleOf = (task: Task) => task.text,
+): FocusBlock[] => {
+  const blocks: FocusBlock[] = [];
+  let cursor = start;
+  let count = completedFocus;
+
+  for (const task of tasks.filter(t => !t.completed)) {
+    const remaining = Math.max(1, (task.estimatedPomodoros || 1) - (task.completedPomodoros || 0));
+    for (let i = 0; i < remaining; i++) {
+      const end = cursor + settings.durations.focus * 60_000;
+      blocks.push({ start: cursor, end, title: titleOf(task), taskId: task.id });
+      const next = nextPhase('focus', count, settings);
+      count = next.completedFocus;
+      cursor = end + settings.durations[next.mode] * 60_000;
+      if (next.mode === 'long') count = 0;
+    }
+  }
+  return blocks;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toIcsDate = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space
+const fold = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const blocksToIcs = (blocks: FocusBlock[], stamp: number) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ZenFocus//Focus Blocks//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  for (const block of blocks) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${block.start}-${block.taskId ?? 'block'}@zenfocus`,
+      `DTSTAMP:${toIcsDate(stamp)}`,
+      `DTSTART:${toIcsDate(block.start)}`,
+      `DTEND:${toIcsDate(block.end)}`,
+      `SUMMARY:${escapeText(block.title)}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,76 @@
+import type { AppSnapshot, ImportResult, ImportSummary } from './backup';
+import { importBackup } from './backup';
+import { markdownToTasks } from './markdown';
+import { csvToHistory } from './csv';
+import type { Task } from '../../types';
+import { LocalizedError, type Translate } from '../i18n';
+import { isSessionRecord, isTask, overlay, overlayById, partition } from './validate';
+
+export type { AppSnapshot, ImportResult, ImportSummary } from './backup';
+export { serializeBackup } from './backup';
+export { tasksToMarkdown } from './markdown';
+export { historyToCsv } from './csv';
+export type { FocusBlock } from './ics';
+export { planFocusBlocks, blocksToIcs } from './ics';
+
+export type ExportFormat = 'json' | 'markdown' | 'csv' | 'ics';
+
+// Markdown holds the checklist itself; project, tags, dates, dependencies and
+// the expanded state stay as they are. Subtasks follow the file's list.
+const overlayTask = (existing: Task, task: Task): Task => {
+  const subtasks = new Map((existing.subtasks || []).map(st => [st.id, st]));
+  return {
+    ...overlay(existing, task),
+    isExpanded: existing.isExpanded,
+    subtasks: (task.subtasks || []).map(st => {
+      const known = subtasks.get(st.id);
+      return known ? overlay(known, st) : st;
+    }),
+  };
+};
+
+// Pick the importer from the file extension, falling back to sniffing the content
+export const importFile = (name: string, text: string, current: AppSnapshot, makeId: () => number): ImportResult => {
+  const ext = name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+
+  if (ext === 'json' || (!ext && text.trimStart().startsWith('{'))) return importBackup(text, current);
+
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') {
+    const { valid, rejected } = partition(markdownToTasks(text, makeId), isTask);
+    if (valid.length === 0) throw new LocalizedError('import.noChecklist');
+    return {
+      snapshot: { ...current, tasks: overlayById(current.tasks, valid, overlayTask) },
+      summary: { tasks: valid.length, skipped: rejected },
+    };
+  }
+
+  if (ext === 'csv') {
+    const { valid, rejected } = partition(csvToHistory(text), isSessionRecord);
+    return {
+      snapshot: { ...current, history: overlayById(current.history, valid).sort((a, b) => a.startedAt - b.startedAt) },
+      summary: { sessions: valid.length, skipped: rejected },
+    };
+  }
+
+  throw new LocalizedError('import.unsupported');
+};
+
+export const describeImport = ({ tasks, templates, sessions, skipped }: ImportSummary, t: Translate, locale: string) => {
+  const items = [
+    tasks !== undefined && t('import.tasks', { count: tasks }),
+    templates !== undefined && t('import.templates', { count: templates }),
+    sessions !== undefined && t('import.sessions', { count: sessions }),
+  ].filter(item => item !== false);
+  const summary = t('import.summary', { items: new Intl.ListFormat(locale, { type: 'conjunction' }).format(items) });
+  return skipped > 0 ? `${summary} ${t('import.skipped', { count: skipped })}` : summary;
+};
+
+// Hand a generated file to the browser as a download
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
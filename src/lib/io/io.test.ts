@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord, Task } from '../../types';
+import { DEFAULT_SETTINGS } from '../cycle';
+import { DEFAULT_AI_SETTINGS } from '../ai';
+import { createTranslator } from '../i18n';
+import {
+  blocksToIcs, describeImport, historyToCsv, importFile, planFocusBlocks, serializeBackup, tasksToMarkdown, type AppSnapshot,
+} from './index';
+import { markdownToTasks } from './markdown';
+
+const tasks: Task[] = [
+  {
+    id: 1,
+    text: 'Ship release',
+    completed: false,
+    estimatedPomodoros: 3,
+    completedPomodoros: 1,
+    subtasks: [
+      { id: 11, text: 'Write changelog', completed: true, estimatedMinutes: 15 },
+      { id: 12, text: 'Tag build', completed: false },
+    ],
+    isExpanded: false,
+  },
+  { id: 2, text: 'Inbox zero', completed: true, subtasks: [], isExpanded: false },
+];
+
+const session: SessionRecord = {
+  id: 500,
+  mode: 'focus',
+  status: 'completed',
+  startedAt: Date.UTC(2025, 0, 6, 9),
+  endedAt: Date.UTC(2025, 0, 6, 9, 25),
+  plannedSeconds: 1500,
+  actualSeconds: 1500,
+  taskId: 1,
+  taskText: 'Ship "v2", finally',
+};
+
+const snapshot: AppSnapshot = {
+  tasks,
+  projects: [],
+  templates: [],
+  history: [session],
+  settings: DEFAULT_SETTINGS,
+  aiSettings: { ...DEFAULT_AI_SETTINGS, apiKey: 'secret' },
+  soundEnabled: true,
+  theme: { theme: 'auto', accents: {} },
+};
+
+let nextId = 1000;
+const makeId = () => nextId++;
+
+describe('markdown', () => {
+  it('round-trips tasks with subtasks and estimates', () => {
+    expect(markdownToTasks(tasksToMarkdown(tasks), makeId)).toEqual(tasks);
+  });
+
+  it('keeps what Markdown cannot hold when re-importing known tasks', () => {
+    const planned: Task = {
+      ...tasks[0],
+      isExpanded: true,
+      projectId: 7,
+      tags: ['release'],
+      priority: 'high',
+      dueDate: '2025-01-10',
+      recurrence: { rule: 'weekly', days: [1], lastOn: '2025-01-06' },
+      subtasks: [tasks[0].subtasks![0], { ...tasks[0].subtasks![1], dependsOn: [11] }],
+    };
+    const edited = tasksToMarkdown([planned]).replace('Tag build', 'Tag the build').replace('- [ ] Ship', '- [x] Ship');
+    const { snapshot: imported } = importFile('tasks.md', edited, { ...snapshot, tasks: [planned] }, makeId);
+    expect(imported.tasks).toEqual([{
+      ...planned,
+      completed: true,
+      subtasks: [planned.subtasks![0], { ...planned.subtasks![1], text: 'Tag the build' }],
+    }]);
+  });
+
+  it('reads plain checklists from other tools', () => {
+    const parsed = markdownToTasks('- [ ] Plan trip\n  - [x] Book flight\n* [X] Call mum\nNot a task', makeId);
+    expect(parsed.map(t => [t.text, t.completed, t.subtasks?.map(st => st.text)])).toEqual([
+      ['Plan trip', false, ['Book flight']],
+      ['Call mum', true, []],
+    ]);
+  });
+});
+
+describe('csv', () => {
+  it('round-trips history including quoted text', () => {
+    const csv = historyToCsv([session]);
+    expect(csv).toContain('"Ship ""v2"", finally"');
+    const { snapshot: imported } = importFile('history.csv', csv, { ...snapshot, history: [] }, makeId);
+    expect(imported.history).toEqual([session]);
+  });
+
+  it('keeps interruption counts and still reads exports from before they existed', () => {
+    const interrupted = { ...session, interruptions: { internal: 2, external: 1 } };
+    const csv = historyToCsv([interrupted]);
+    expect(importFile('history.csv', csv, { ...snapshot, history: [] }, makeId).snapshot.history).toEqual([interrupted]);
+
+    const plain = historyToCsv([{ ...session, taskText: 'Plain' }]);
+    const legacy = plain.split('\r\n').map(line => line.split(',').slice(0, 9).join(',')).join('\r\n');
+    expect(importFile('history.csv', legacy, { ...snapshot, history: [] }, makeId).snapshot.history).toEqual([
+      { ...session, taskText: 'Plain' },
+    ]);
+  });
+
+  it('keeps project and tags on sessions it already has', () => {
+    const tagged = { ...session, projectId: 7, tags: ['release'] };
+    const csv = historyToCsv([{ ...tagged, taskText: 'Renamed' }]);
+    expect(importFile('history.csv', csv, { ...snapshot, history: [tagged] }, makeId).snapshot.history).toEqual([
+      { ...tagged, taskText: 'Renamed' },
+    ]);
+  });
+});
+
+describe('json backup', () => {
+  it('leaves the API key out of exports', () => {
+    expect(serializeBackup(snapshot, new Date())).not.toContain('secret');
+  });
+
+  it('merges by id instead of overwriting', () => {
+    const incoming = { ...snapshot, tasks: [{ ...tasks[0], text: 'Ship release v2' }, { id: 3, text: 'New', completed: false }] };
+    const current = { ...snapshot, aiSettings: { ...snapshot.aiSettings, apiKey: 'local-key' } };
+    const { snapshot: merged, summary } = importFile('backup.json', serializeBackup(incoming, new Date()), current, makeId);
+
+    expect(merged.tasks.map(t => [t.id, t.text])).toEqual([[1, 'Ship release v2'], [2, 'Inbox zero'], [3, 'New']]);
+    expect(merged.history).toHaveLength(1);
+    expect(merged.aiSettings.apiKey).toBe('local-key');
+    expect(summary).toEqual({ tasks: 2, templates: undefined, sessions: 1, skipped: 0 });
+  });
+
+  it('carries templates with their timer sequence', () => {
+    const template = { id: 5, name: 'Deep work', text: 'Deep work', subtasks: [], sequence: { focus: 50, rest: 10, rounds: 3 } };
+    const file = serializeBackup({ ...snapshot, templates: [template] }, new Date());
+    const { snapshot: imported, summary } = importFile('backup.json', file, snapshot, makeId);
+    expect(imported.templates).toEqual([template]);
+    expect(summary).toMatchObject({ tasks: 2, templates: 1, sessions: 1 });
+  });
+
+  it('carries the theme and keeps the current one when the file has none or a broken one', () => {
+    const theme = { theme: 'light' as const, accents: { focus: '#ff8800' } };
+    const file = serializeBackup({ ...snapshot, theme }, new Date());
+    expect(importFile('backup.json', file, snapshot, makeId).snapshot.theme).toEqual(theme);
+
+    const broken = JSON.stringify({ app: 'zenfocus', version: 1, data: { theme: { theme: 'neon', accents: {} } } });
+    expect(importFile('b.json', broken, snapshot, makeId).snapshot.theme).toEqual(snapshot.theme);
+  });
+
+  it('keeps the current settings when the backup carries broken ones', () => {
+    const file = JSON.stringify({
+      app: 'zenfocus',
+      version: 1,
+      data: {
+        settings: { ...DEFAULT_SETTINGS, durations: { ...DEFAULT_SETTINGS.durations, focus: 'x' }, longBreakInterval: 0 },
+        aiSettings: { provider: 'bogus', model: 'm', endpoint: '' },
+      },
+    });
+    const current = { ...snapshot, settings: { ...DEFAULT_SETTINGS, longBreakInterval: 6 } };
+    const { snapshot: imported, summary } = importFile('b.json', file, current, makeId);
+    expect(imported.settings).toBe(current.settings);
+    expect(imported.aiSettings).toBe(current.aiSettings);
+    expect(summary.skipped).toBe(2);
+
+    const valid = serializeBackup({ ...snapshot, settings: { ...DEFAULT_SETTINGS, longBreakInterval: 6 } }, new Date());
+    expect(importFile('b.json', valid, snapshot, makeId).snapshot.settings.longBreakInterval).toBe(6);
+  });
+
+  it('recognises a backup without a file extension by its content', () => {
+    const { snapshot: imported } = importFile('zenfocus-backup', serializeBackup(snapshot, new Date()), { ...snapshot, tasks: [] }, makeId);
+    expect(imported.tasks).toEqual(tasks);
+  });
+
+  it('skips invalid records and rejects foreign files', () => {
+    const file = JSON.stringify({ app: 'zenfocus', version: 1, data: { tasks: [{ id: 'x' }, tasks[1]] } });
+    expect(importFile('b.json', file, { ...snapshot, tasks: [] }, makeId).summary.skipped).toBe(1);
+    expect(() => importFile('b.json', '{"hello": 1}', snapshot, makeId)).toThrow(/not a ZenFocus backup/);
+    expect(() => importFile('b.json', '{"app":"zenfocus","version":99}', snapshot, makeId)).toThrow(/newer version/);
+  });
+});
+
+describe('describeImport', () => {
+  it('lists what came in, in the reader\'s language', () => {
+    expect(describeImport({ tasks: 2, templates: 1, sessions: 1, skipped: 0 }, createTranslator('en'), 'en'))
+      .toBe('Imported 2 tasks, 1 template, and 1 session.');
+    expect(describeImport({ sessions: 3, skipped: 1 }, createTranslator('de'), 'de'))
+      .toBe('Importiert: 3 Sitzungen. 1 ungültiger Eintrag übersprungen.');
+  });
+});
+
+describe('ics', () => {
+  it('plans one block per remaining pomodoro with breaks between', () => {
+    const start = Date.UTC(2025, 0, 6, 9);
+    const blocks = planFocusBlocks(tasks, DEFAULT_SETTINGS, start);
+    expect(blocks).toHaveLength(2);
+    expect(blocks[1].start - blocks[0].end).toBe(5 * 60_000);
+  });
+
+  it('escapes text and folds long lines', () => {
+    const title = 'Focus: review, plan; ship — ' + 'x'.repeat(80);
+    const ics = blocksToIcs([{ start: Date.UTC(2025, 0, 6, 9), end: Date.UTC(2025, 0, 6, 9, 25), title }], 0);
+    expect(ics).toContain('DTSTART:20250106T090000Z');
+    expect(ics).toContain('SUMMARY:Focus: review\\, plan\\; ship');
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+});
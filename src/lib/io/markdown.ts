@@ -0,0 +1,66 @@
+import type { SubTask, Task } from '../../types';
+
+// Metadata rides along in an HTML comment so the checklist stays readable
+// in any Markdown viewer but still round-trips ids and estimates.
+const META = /\s*<!--\s*zf:([^>]*?)\s*-->\s*$/;
+const ITEM = /^(\s*)[-*]\s+\[( |x|X)\]\s+(.*)$/;
+
+const formatMeta = (fields: Record<string, number | undefined>) => {
+  const parts = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`);
+  return parts.length ? ` <!-- zf:${parts.join(' ')} -->` : '';
+};
+
+const parseMeta = (raw: string | undefined) => {
+  const meta: Record<string, number> = {};
+  for (const pair of (raw || '').split(/\s+/)) {
+    const [key, value] = pair.split('=');
+    if (key && value !== undefined && Number.isFinite(Number(value))) meta[key] = Number(value);
+  }
+  return meta;
+};
+
+// Single-line text only; newlines would break the list structure
+const clean = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export const tasksToMarkdown = (tasks: Task[]) => {
+  const lines = ['# ZenFocus Tasks', ''];
+  for (const task of tasks) {
+    const meta = formatMeta({ id: task.id, est: task.estimatedPomodoros, done: task.completedPomodoros });
+    lines.push(`- [${task.completed ? 'x' : ' '}] ${clean(task.text)}${meta}`);
+    for (const st of task.subtasks || []) {
+      lines.push(`  - [${st.completed ? 'x' : ' '}] ${clean(st.text)}${formatMeta({ id: st.id, min: st.estimatedMinutes })}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Reads any Markdown checklist: top-level items become tasks and indented
+// items become subtasks of the task above. Items without ids get fresh ones.
+export const markdownToTasks = (markdown: string, makeId: () => number): Task[] => {
+  const tasks: Task[] = [];
+  for (const line of markdown.split(/\r?\n/)) {
+    const match = line.match(ITEM);
+    if (!match) continue;
+    const [, indent, mark, rest] = match;
+    const metaMatch = rest.match(META);
+    const text = clean(rest.replace(META, ''));
+    if (!text) continue;
+    const meta = parseMeta(metaMatch?.[1]);
+    const completed = mark.toLowerCase() === 'x';
+    const parent = tasks[tasks.length - 1];
+
+    if (indent.length > 0 && parent) {
+      const subtask: SubTask = { id: meta.id ?? makeId(), text, completed };
+      if (meta.min !== undefined) subtask.estimatedMinutes = meta.min;
+      parent.subtasks = [...(parent.subtasks || []), subtask];
+    } else {
+      const task: Task = { id: meta.id ?? makeId(), text, completed, subtasks: [], isExpanded: false };
+      if (meta.est !== undefined) task.estimatedPomodoros = meta.est;
+      if (meta.done !== undefined) task.completedPomodoros = meta.done;
+      tasks.push(task);
+    }
+  }
+  return tasks;
+};
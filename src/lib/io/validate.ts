@@ -0,0 +1,133 @@
+import type {
+  Distraction, FocusTemplate, InterruptionCounts, Project, Recurrence, RecurrenceRule, SessionRecord, SubTask, Task, TaskPriority, ThemeSettings,
+  TimerMode, TimerSequence,
+} from '../../types';
+
+const MODES: TimerMode[] = ['focus', 'short', 'long'];
+
+export const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+const isOptional = (value: unknown, type: 'number' | 'string' | 'boolean') => value === undefined || typeof value === type;
+const isOptionalStrings = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(v => typeof v === 'string'));
+
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+export const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const RULES: RecurrenceRule[] = ['daily', 'weekdays', 'weekly', 'custom'];
+const THEME_CHOICES: ThemeSettings['theme'][] = ['auto', 'dark', 'light', 'contrast'];
+export const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isSubTask = (value: unknown): value is SubTask =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && typeof value.text === 'string'
+  && typeof value.completed === 'boolean'
+  && isOptional(value.estimatedMinutes, 'number')
+  && (value.dependsOn === undefined || (Array.isArray(value.dependsOn) && value.dependsOn.every(d => typeof d === 'number')));
+
+export const isTask = (value: unknown): value is Task =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && typeof value.text === 'string'
+  && typeof value.completed === 'boolean'
+  && (value.subtasks === undefined || (Array.isArray(value.subtasks) && value.subtasks.every(isSubTask)))
+  && isOptional(value.isExpanded, 'boolean')
+  && isOptional(value.estimatedPomodoros, 'number')
+  && isOptional(value.completedPomodoros, 'number')
+  && isOptional(value.projectId, 'number')
+  && isOptionalStrings(value.tags)
+  && (value.priority === undefined || PRIORITIES.includes(value.priority as TaskPriority))
+  && (value.dueDate === undefined || (typeof value.dueDate === 'string' && DATE_KEY.test(value.dueDate)))
+  && isOptional(value.archivedAt, 'number')
+  && (value.recurrence === undefined || isRecurrence(value.recurrence));
+
+export const isRecurrence = (value: unknown): value is Recurrence =>
+  isObject(value)
+  && RULES.includes(value.rule as RecurrenceRule)
+  && Array.isArray(value.days) && value.days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)
+  && typeof value.lastOn === 'string' && DATE_KEY.test(value.lastOn);
+
+// A zero-length break would stall the sequence, so every part needs at least one
+const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+export const isTimerSequence = (value: unknown): value is TimerSequence =>
+  isObject(value) && isPositiveInt(value.focus) && isPositiveInt(value.rest) && isPositiveInt(value.rounds);
+
+export const isTemplate = (value: unknown): value is FocusTemplate =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && typeof value.name === 'string'
+  && typeof value.text === 'string'
+  && Array.isArray(value.subtasks) && value.subtasks.every(isSubTask)
+  && isOptional(value.projectId, 'number')
+  && isOptionalStrings(value.tags)
+  && (value.priority === undefined || PRIORITIES.includes(value.priority as TaskPriority))
+  && (value.sequence === undefined || isTimerSequence(value.sequence));
+
+export const isProject = (value: unknown): value is Project =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && typeof value.name === 'string'
+  && typeof value.color === 'string';
+
+export const isThemeSettings = (value: unknown): value is ThemeSettings =>
+  isObject(value)
+  && THEME_CHOICES.includes(value.theme as ThemeSettings['theme'])
+  && isObject(value.accents)
+  && Object.entries(value.accents).every(([mode, color]) => MODES.includes(mode as TimerMode) && typeof color === 'string' && HEX_COLOR.test(color));
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+export const isInterruptionCounts = (value: unknown): value is InterruptionCounts =>
+  isObject(value) && isCount(value.internal) && isCount(value.external);
+
+export const isDistraction = (value: unknown): value is Distraction =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && typeof value.text === 'string'
+  && (value.kind === 'internal' || value.kind === 'external')
+  && typeof value.capturedAt === 'number'
+  && isOptional(value.sessionStartedAt, 'number');
+
+export const isSessionRecord = (value: unknown): value is SessionRecord =>
+  isObject(value)
+  && typeof value.id === 'number'
+  && MODES.includes(value.mode as TimerMode)
+  && (value.status === 'completed' || value.status === 'abandoned')
+  && typeof value.startedAt === 'number'
+  && typeof value.endedAt === 'number'
+  && typeof value.plannedSeconds === 'number'
+  && typeof value.actualSeconds === 'number'
+  && isOptional(value.taskId, 'number')
+  && isOptional(value.taskText, 'string')
+  && isOptional(value.projectId, 'number')
+  && isOptionalStrings(value.tags)
+  && (value.interruptions === undefined || isInterruptionCounts(value.interruptions));
+
+// Keep the valid entries of an imported list and count what was dropped
+export const partition = <T>(values: unknown, guard: (value: unknown) => value is T) => {
+  const list = Array.isArray(values) ? values : [];
+  const valid = list.filter(guard);
+  return { valid, rejected: list.length - valid.length };
+};
+
+// Incoming records replace existing ones with the same id; new ids are appended
+export const mergeById = <T extends { id: number }>(current: T[], incoming: T[]) => {
+  const byId = new Map(incoming.map(item => [item.id, item]));
+  const merged = current.map(item => byId.get(item.id) ?? item);
+  const known = new Set(current.map(item => item.id));
+  return [...merged, ...incoming.filter(item => !known.has(item.id))];
+};
+
+// Copy the fields an import actually carries onto what's already there
+export const overlay = <T extends object>(existing: T, incoming: T): T => ({
+  ...existing,
+  ...Object.fromEntries(Object.entries(incoming).filter(([, value]) => value !== undefined)),
+});
+
+// For lossy formats (Markdown, CSV): a known record keeps every field the file can't hold
+export const overlayById = <T extends { id: number }>(current: T[], incoming: T[], merge: (existing: T, item: T) => T = overlay) => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  return mergeById(current, incoming.map(item => {
+    const existing = byId.get(item.id);
+    return existing ? merge(existing, item) : item;
+  }));
+};
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { crossedWarnings, notificationPermission, showNotification } from './notify';
+
+describe('crossedWarnings', () => {
+  it('fires once as the countdown passes a threshold', () => {
+    expect(crossedWarnings(61, 60, [1])).toEqual([1]);
+    expect(crossedWarnings(60, 59, [1])).toEqual([]);
+    expect(crossedWarnings(120, 119, [1, 5])).toEqual([]);
+  });
+
+  it('reports every threshold a throttled tab skipped over', () => {
+    expect(crossedWarnings(400, 30, [1, 2, 5])).toEqual([1, 2, 5]);
+  });
+
+  it('stays quiet when the session already ended', () => {
+    expect(crossedWarnings(400, 0, [1, 5])).toEqual([]);
+  });
+});
+
+describe('showNotification', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('falls back quietly where notifications are unsupported or denied', async () => {
+    vi.stubGlobal('Notification', undefined);
+    expect(notificationPermission()).toBe('unsupported');
+    expect(await showNotification({ title: 'Done', body: '', tag: 't' })).toBe(false);
+
+    vi.stubGlobal('Notification', { permission: 'denied' });
+    expect(await showNotification({ title: 'Done', body: '', tag: 't' })).toBe(false);
+  });
+
+  it('uses a plain notification when no service worker is registered', async () => {
+    const created: unknown[] = [];
+    vi.stubGlobal('Notification', Object.assign(
+      function (this: object, title: string, options: object) { created.push({ title, ...options }); },
+      { permission: 'granted' },
+    ));
+    expect(await showNotification({ title: 'Focus session complete', body: 'Time for a break.', tag: 'phase' })).toBe(true);
+    expect(created).toMatchObject([{ title: 'Focus session complete', body: 'Time for a break.', tag: 'phase' }]);
+  });
+});
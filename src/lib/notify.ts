@@ -0,0 +1,64 @@
+import type { NotificationSettings } from '../types';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  warnings: [1],
+  favicon: true,
+};
+
+export const WARNING_CHOICES = [1, 2, 5];
+export const SNOOZE_MINUTES = 5;
+
+// Buttons on a notification; clicks come back from the service worker as messages
+export type NotificationAction = 'start-next' | 'snooze';
+
+export interface AppNotification {
+  title: string;
+  body: string;
+  tag: string; // a newer notification with the same tag replaces the older one
+  actions?: { action: NotificationAction; title: string }[];
+}
+
+export type PermissionState = NotificationPermission | 'unsupported';
+
+export const notificationPermission = (): PermissionState =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestNotificationPermission = async (): Promise<PermissionState> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+};
+
+// Action buttons need a service worker registration; without one we still show
+// a plain notification that focuses the tab when clicked. Returns false when
+// nothing could be shown, so callers know they're on the fallback path.
+export const showNotification = async ({ title, body, tag, actions = [] }: AppNotification) => {
+  if (notificationPermission() !== 'granted') return false;
+  const options = { body, tag, icon: '/icon.svg', badge: '/icon.svg', data: { url: location.href } };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      // `actions` isn't in TypeScript's NotificationOptions yet
+      await registration.showNotification(title, { ...options, actions } as NotificationOptions);
+      return true;
+    }
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    console.error("Couldn't show notification", error);
+    return false;
+  }
+};
+
+// Warning thresholds (in minutes) passed between two readings of the countdown.
+// Nothing fires if the time ran out in the same step, e.g. after a long sleep.
+export const crossedWarnings = (previousSeconds: number, secondsLeft: number, warnings: number[]) =>
+  secondsLeft <= 0 ? [] : warnings.filter(minutes => previousSeconds > minutes * 60 && secondsLeft <= minutes * 60);
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MINI_WINDOW_SIZE, openMiniWindow, supportsPictureInPicture } from './pip';
+
+// Just enough of a Window for openMiniWindow to fill in
+const fakeWindow = () => ({ document: document.implementation.createHTMLDocument('') }) as unknown as Window;
+
+describe('mini window', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.head.replaceChildren();
+  });
+
+  it('prefers Document Picture-in-Picture', async () => {
+    const pipWindow = fakeWindow();
+    const requestWindow = vi.fn().mockResolvedValue(pipWindow);
+    vi.stubGlobal('documentPictureInPicture', { requestWindow });
+    const open = vi.spyOn(window, 'open');
+
+    expect(supportsPictureInPicture()).toBe(true);
+    await expect(openMiniWindow()).resolves.toBe(pipWindow);
+    expect(requestWindow).toHaveBeenCalledWith(MINI_WINDOW_SIZE);
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a popup and copies the app styles over', async () => {
+    const style = document.createElement('style');
+    style.textContent = '.text-emerald-400 { color: #34d399; }';
+    document.head.appendChild(style);
+    const popup = fakeWindow();
+    popup.document.body.innerHTML = '<p>left over from before a reload</p>';
+    vi.spyOn(window, 'open').mockReturnValue(popup);
+
+    expect(supportsPictureInPicture()).toBe(false);
+    await expect(openMiniWindow()).resolves.toBe(popup);
+    expect(popup.document.body.children).toHaveLength(0);
+    expect(popup.document.head.querySelector('style')?.textContent).toContain('.text-emerald-400');
+  });
+
+  it('reports a blocked popup', async () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    await expect(openMiniWindow()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+// Always-on-top mini timer window. Document Picture-in-Picture keeps it above
+// other apps (Chromium only); elsewhere a small popup is the closest we get.
+// Either way the window is same-origin, so React can portal straight into it.
+
+interface DocumentPictureInPicture {
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>;
+}
+
+export const MINI_WINDOW_SIZE = { width: 300, height: 380 };
+const POPUP_NAME = 'zenfocus-mini';
+
+const getPictureInPicture = () =>
+  (window as Window & { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture;
+
+export const supportsPictureInPicture = () => getPictureInPicture() !== undefined;
+
+// Carry the app's stylesheets over so the Tailwind classes work in the new document
+export const copyStyles = (from: Document, to: Document) => {
+  for (const sheet of Array.from(from.styleSheets)) {
+    try {
+      const style = to.createElement('style');
+      style.textContent = Array.from(sheet.cssRules, rule => rule.cssText).join('\n');
+      to.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets can't be read, so link to them instead
+      if (!sheet.href) continue;
+      const link = to.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = sheet.href;
+      to.head.appendChild(link);
+    }
+  }
+};
+
+const openPopup = () => {
+  const { width, height } = MINI_WINDOW_SIZE;
+  return window.open('', POPUP_NAME, `popup,width=${width},height=${height}`);
+};
+
+// Resolves to null when the browser blocked the popup
+export const openMiniWindow = async (): Promise<Window | null> => {
+  const pip = getPictureInPicture();
+  let mini: Window | null;
+  try {
+    mini = pip ? await pip.requestWindow(MINI_WINDOW_SIZE) : openPopup();
+  } catch {
+    mini = openPopup();
+  }
+  if (!mini) return null;
+
+  // A popup left over from before a reload still has the old content in it
+  const doc = mini.document;
+  doc.head.replaceChildren();
+  doc.body.replaceChildren();
+  doc.title = 'ZenFocus';
+  copyStyles(document, doc);
+  doc.body.className = 'bg-slate-950 text-slate-200 font-sans';
+  return mini;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SessionRecord, Task } from '../types';
+import { createProvider, type AIProvider } from './ai';
+import { DEFAULT_SETTINGS } from './cycle';
+import {
+  applyPlan, fitToCapacity, focusCapacity, parsePlan, parseReview, requestDayPlan, requestDayReview, summarizeDay,
+} from './planning';
+
+const tasks: Task[] = [
+  { id: 1, text: 'Write report', completed: false, estimatedPomodoros: 3, completedPomodoros: 1 },
+  { id: 2, text: 'Inbox zero', completed: false },
+  { id: 3, text: 'Ship release', completed: true },
+];
+
+const providerReturning = (...answers: string[]) => {
+  const generate = vi.fn<AIProvider['generate']>();
+  for (const answer of answers) generate.mockResolvedValueOnce(answer);
+  return { id: 'mock', generate } satisfies AIProvider;
+};
+
+const session = (overrides: Partial<SessionRecord>): SessionRecord => ({
+  id: 1, mode: 'focus', status: 'completed', startedAt: 0, endedAt: 0, plannedSeconds: 1500, actualSeconds: 1500, ...overrides,
+});
+
+describe('focusCapacity', () => {
+  it('counts the focus blocks that fit, with breaks in between', () => {
+    // 25 + 5 + 25 + 5 + 25 + 5 + 25 = 115 minutes for four blocks
+    expect(focusCapacity(115, DEFAULT_SETTINGS)).toBe(4);
+    expect(focusCapacity(114, DEFAULT_SETTINGS)).toBe(3);
+    expect(focusCapacity(20, DEFAULT_SETTINGS)).toBe(0);
+  });
+
+  it('accounts for the long break the cycle is due', () => {
+    // Three focus blocks already done, so the first one is followed by a 15-minute break
+    expect(focusCapacity(65, DEFAULT_SETTINGS, 3)).toBe(2);
+    expect(focusCapacity(64, DEFAULT_SETTINGS, 3)).toBe(1);
+  });
+});
+
+describe('parsePlan', () => {
+  it('keeps the model order and merges repeated tasks', () => {
+    const raw = '```json\n{"summary":"Report first.","blocks":[{"task":1,"pomodoros":2,"note":"Draft"},{"task":2,"pomodoros":1},{"task":1,"pomodoros":1}]}\n```';
+    expect(parsePlan(raw, tasks)).toEqual({
+      ok: true,
+      value: {
+        summary: 'Report first.',
+        entries: [
+          { taskId: 1, text: 'Write report', pomodoros: 3, note: 'Draft' },
+          { taskId: 2, text: 'Inbox zero', pomodoros: 1, note: undefined },
+        ],
+      },
+    });
+  });
+
+  it('maps task numbers back to ids, which need not be integers', () => {
+    const imported = [{ id: 1_700_000_000_000.25, text: 'Imported', completed: false }];
+    expect(parsePlan('{"blocks":[{"task":1,"pomodoros":1}]}', imported)).toMatchObject({
+      ok: true,
+      value: { entries: [{ taskId: 1_700_000_000_000.25, text: 'Imported' }] },
+    });
+  });
+
+  it('rejects task numbers that were not offered', () => {
+    expect(parsePlan('{"blocks":[{"task":42,"pomodoros":1}]}', tasks)).toEqual({
+      ok: false,
+      error: "block 1 refers to a task number that wasn't offered",
+    });
+  });
+});
+
+describe('fitToCapacity', () => {
+  it('trims an overbooked plan from the end', () => {
+    const entries = [
+      { taskId: 1, text: 'a', pomodoros: 3 },
+      { taskId: 2, text: 'b', pomodoros: 2 },
+      { taskId: 3, text: 'c', pomodoros: 1 },
+    ];
+    expect(fitToCapacity(entries, 4).map(e => [e.taskId, e.pomodoros])).toEqual([[1, 3], [2, 1]]);
+  });
+});
+
+describe('requestDayPlan', () => {
+  it('only offers open tasks and fits the answer to the time available', async () => {
+    const plan = await requestDayPlan(createProvider({ provider: 'mock', model: '', endpoint: '', apiKey: '' }), tasks, 1, DEFAULT_SETTINGS);
+    // One hour fits two blocks; the mock asks for 2 + 1
+    expect(plan.entries.map(e => [e.taskId, e.pomodoros])).toEqual([[1, 2]]);
+  });
+
+  it('gives the model one chance to repair its answer', async () => {
+    const provider = providerReturning('{"blocks":[{"task":3,"pomodoros":1}]}', '{"blocks":[{"task":2,"pomodoros":1}]}');
+    const plan = await requestDayPlan(provider, tasks, 2, DEFAULT_SETTINGS);
+    expect(plan.entries).toEqual([{ taskId: 2, text: 'Inbox zero', pomodoros: 1, note: undefined }]);
+    expect(provider.generate.mock.calls[1][0].prompt).toMatch(/wasn't offered/);
+  });
+});
+
+describe('applyPlan', () => {
+  it('moves planned tasks to the top and books their pomodoros', () => {
+    const result = applyPlan(tasks, [{ taskId: 2, text: 'Inbox zero', pomodoros: 1 }, { taskId: 1, text: 'Write report', pomodoros: 2 }]);
+    expect(result.map(t => [t.id, t.estimatedPomodoros])).toEqual([[2, 1], [1, 3], [3, undefined]]);
+  });
+});
+
+describe('end-of-day review', () => {
+  const history = [
+    session({ id: 1, startedAt: 1_000, taskId: 3, taskText: 'Ship release' }),
+    session({ id: 2, startedAt: 2_000, taskId: 2, taskText: 'Inbox zero', status: 'abandoned', actualSeconds: 600 }),
+    session({ id: 3, startedAt: 99_000, taskId: 1, taskText: 'Write report' }),
+  ];
+
+  it('summarizes the day and lists tasks touched today first', () => {
+    const day = summarizeDay(history, tasks, 0, 10_000);
+    expect(day.totals).toMatchObject({ focusSeconds: 2100, completed: 1, abandoned: 1 });
+    expect(day.finished.map(t => t.id)).toEqual([3]);
+    expect(day.unfinished.map(t => t.id)).toEqual([2, 1]);
+  });
+
+  it('only carries over open tasks, once each', async () => {
+    const day = summarizeDay(history, tasks, 0, 10_000);
+    expect(parseReview('{"summary":"Good day.","carryOver":[{"task":3}]}', day.unfinished)).toMatchObject({ ok: false });
+
+    const provider = providerReturning('{"summary":"Good day.","wins":["Shipped"],"carryOver":[{"task":2,"reason":"Due soon"},{"task":2}]}');
+    await expect(requestDayReview(provider, day)).resolves.toEqual({
+      summary: 'Good day.',
+      wins: ['Shipped'],
+      carryOver: [{ taskId: 1, text: 'Write report', reason: 'Due soon' }],
+    });
+  });
+});
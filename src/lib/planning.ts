@@ -0,0 +1,260 @@
+import type { SessionRecord, Task, TimerSettings } from '../types';
+import type { AIProvider, Parsed } from './ai';
+import { AIError, isPositiveInt, parseJsonReply, requestParsed } from './ai';
+import { nextPhase } from './cycle';
+import { estimatePomodoros, remainingEstimate } from './breakdown';
+import { focusByTask, formatDuration, totalsBetween, type PeriodTotals, type TaskFocus } from './stats';
+import { planFocusBlocks, type FocusBlock } from './io';
+import { prioritizeTasks, updateTask } from './tasks';
+
+// --- Plan my day ---
+
+export interface PlanEntry {
+  taskId: number;
+  text: string;
+  pomodoros: number;
+  note?: string;
+}
+
+export interface DayPlan {
+  summary: string;
+  entries: PlanEntry[];
+}
+
+export const PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    blocks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          task: { type: 'integer', minimum: 1 },
+          pomodoros: { type: 'integer', minimum: 1, maximum: 16 },
+          note: { type: 'string' },
+        },
+        required: ['task', 'pomodoros'],
+      },
+    },
+  },
+  required: ['blocks'],
+} as const;
+
+// How many focus blocks fit in the time available, breaks included
+export const focusCapacity = (minutes: number, settings: TimerSettings, completedFocus = 0) => {
+  let used = 0;
+  let count = completedFocus;
+  let blocks = 0;
+  while (used + settings.durations.focus <= minutes) {
+    blocks++;
+    const next = nextPhase('focus', count, settings);
+    count = next.mode === 'long' ? 0 : next.completedFocus;
+    used += settings.durations.focus + settings.durations[next.mode];
+  }
+  return blocks;
+};
+
+// Pomodoros still ahead on a task: the explicit estimate wins, then the subtask minutes
+const pomodorosLeft = (task: Task, focusMinutes: number) => {
+  if (task.estimatedPomodoros) return Math.max(0, task.estimatedPomodoros - (task.completedPomodoros || 0));
+  return estimatePomodoros(remainingEstimate(task.subtasks), focusMinutes) || undefined;
+};
+
+// Task ids can be fractional, which a schema-bound model can't return, so the prompts
+// number the tasks they offer and the replies are mapped back by that number
+const offeredTask = (tasks: Task[], number: unknown) => Number.isInteger(number) ? tasks[(number as number) - 1] : undefined;
+
+const offerItems = (tasks: Task[]) => tasks.map((t, i) => ({ id: i + 1, text: t.text }));
+
+const describeTask = (task: Task, index: number, focusMinutes: number) => {
+  const left = pomodorosLeft(task, focusMinutes);
+  const nextStep = task.subtasks?.find(st => !st.completed);
+  return `- task ${index + 1}: "${task.text}"` +
+    (left !== undefined ? `, about ${left} pomodoros left` : ', no estimate') +
+    (task.priority ? `, ${task.priority} priority` : '') +
+    (task.dueDate ? `, due ${task.dueDate}` : '') +
+    (nextStep ? `, next step "${nextStep.text}"` : '');
+};
+
+export const buildPlanPrompt = (tasks: Task[], hours: number, settings: TimerSettings, capacity: number) =>
+  `Act as a productivity coach planning my work day with the Pomodoro technique. ` +
+  `I have ${hours} hours available, which fits ${capacity} focus blocks of ${settings.durations.focus} minutes ` +
+  `(short breaks of ${settings.durations.short} minutes, a ${settings.durations.long}-minute long break every ${settings.longBreakInterval} blocks). ` +
+  `My open tasks, in my current priority order:\n${tasks.map((t, i) => describeTask(t, i, settings.durations.focus)).join('\n')}\n\n` +
+  `Propose an ordered schedule using at most ${capacity} focus blocks in total. Put the most important or time-sensitive work first ` +
+  `and leave out tasks that don't fit. ` +
+  `Return ONLY a JSON object of the form {"summary": string, "blocks": [{"task": integer, "pomodoros": integer, "note": string}]}, ` +
+  `where "task" is one of the task numbers above, "pomodoros" is how many consecutive focus blocks to spend on it, ` +
+  `"note" is an optional short hint for that stretch and "summary" is one sentence about the plan. ` +
+  `Do not include markdown formatting or commentary.`;
+
+const asRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+// Runtime check of the model's plan against PLAN_SCHEMA and the tasks it was offered.
+// A task listed twice is merged into its first slot.
+export const parsePlan = (raw: string, tasks: Task[]): Parsed<DayPlan> => {
+  const data = asRecord(parseJsonReply(raw));
+  if (!data) return { ok: false, error: 'response is not a JSON object' };
+  if (!Array.isArray(data.blocks)) return { ok: false, error: 'missing a "blocks" array' };
+
+  const entries: PlanEntry[] = [];
+  for (const [i, value] of data.blocks.entries()) {
+    const block = asRecord(value);
+    if (!block) return { ok: false, error: `block ${i + 1} is not an object` };
+    const task = offeredTask(tasks, block.task);
+    if (!task) return { ok: false, error: `block ${i + 1} refers to a task number that wasn't offered` };
+    if (!isPositiveInt(block.pomodoros)) return { ok: false, error: `block ${i + 1} needs a positive whole number of pomodoros` };
+    const note = typeof block.note === 'string' && block.note.trim() ? block.note.trim() : undefined;
+
+    const existing = entries.find(e => e.taskId === task.id);
+    if (existing) existing.pomodoros += block.pomodoros;
+    else entries.push({ taskId: task.id, text: task.text, pomodoros: block.pomodoros, note });
+  }
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  return { ok: true, value: { summary, entries } };
+};
+
+// Models tend to overbook, so cut the tail rather than rejecting the whole plan
+export const fitToCapacity = (entries: PlanEntry[], capacity: number): PlanEntry[] => {
+  const fitted: PlanEntry[] = [];
+  let left = capacity;
+  for (const entry of entries) {
+    if (left <= 0) break;
+    const pomodoros = Math.min(entry.pomodoros, left);
+    fitted.push({ ...entry, pomodoros });
+    left -= pomodoros;
+  }
+  return fitted;
+};
+
+export const requestDayPlan = async (
+  provider: AIProvider, tasks: Task[], hours: number, settings: TimerSettings, completedFocus = 0,
+): Promise<DayPlan> => {
+  const open = tasks.filter(t => !t.completed);
+  if (open.length === 0) throw new AIError('plan.noTasks');
+  const capacity = focusCapacity(hours * 60, settings, completedFocus);
+  if (capacity === 0) throw new AIError('plan.tooShort', { count: hours });
+
+  const plan = await requestParsed(provider, {
+    purpose: 'plan',
+    prompt: buildPlanPrompt(open, hours, settings, capacity),
+    items: offerItems(open),
+    json: true,
+    schema: PLAN_SCHEMA,
+  }, raw => parsePlan(raw, open));
+  return { ...plan, entries: fitToCapacity(plan.entries, capacity) };
+};
+
+// Plans start on the next quarter hour so blocks land on tidy calendar slots
+export const nextQuarterHour = (ts: number) => Math.ceil(ts / (15 * 60_000)) * 15 * 60_000;
+
+// Clock times for each planned stretch, using the same layout as the calendar export
+export const scheduleEntries = (entries: PlanEntry[], settings: TimerSettings, start: number, completedFocus = 0): FocusBlock[] =>
+  planFocusBlocks(
+    entries.map(e => ({ id: e.taskId, text: e.text, completed: false, subtasks: [], estimatedPomodoros: e.pomodoros })),
+    settings, start, completedFocus,
+  );
+
+// Accepting a plan puts its tasks on top in plan order and books the pomodoros as estimates
+export const applyPlan = (tasks: Task[], entries: PlanEntry[]) =>
+  entries.reduce(
+    (list, e) => updateTask(list, e.taskId, t => ({ ...t, estimatedPomodoros: (t.completedPomodoros || 0) + e.pomodoros })),
+    prioritizeTasks(tasks, entries.map(e => e.taskId)),
+  );
+
+// --- End-of-day review ---
+
+export interface DaySummary {
+  totals: PeriodTotals;
+  worked: TaskFocus[];
+  finished: Task[]; // worked on today and now done
+  unfinished: Task[]; // open tasks, the ones touched today first
+}
+
+export interface CarryOverItem {
+  taskId: number;
+  text: string;
+  reason?: string;
+}
+
+export interface DayReview {
+  summary: string;
+  wins: string[];
+  carryOver: CarryOverItem[];
+}
+
+export const REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    wins: { type: 'array', maxItems: 5, items: { type: 'string' } },
+    carryOver: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { task: { type: 'integer', minimum: 1 }, reason: { type: 'string' } },
+        required: ['task'],
+      },
+    },
+  },
+  required: ['summary', 'carryOver'],
+} as const;
+
+export const summarizeDay = (history: SessionRecord[], tasks: Task[], from: number, to: number): DaySummary => {
+  const today = history.filter(s => s.startedAt >= from && s.startedAt < to);
+  const touched = new Set(today.map(s => s.taskId).filter(id => id !== undefined));
+  const open = tasks.filter(t => !t.completed);
+  return {
+    totals: totalsBetween(today, from, to),
+    worked: focusByTask(today),
+    finished: tasks.filter(t => t.completed && touched.has(t.id)),
+    unfinished: [...open.filter(t => touched.has(t.id)), ...open.filter(t => !touched.has(t.id))],
+  };
+};
+
+export const buildReviewPrompt = (day: DaySummary) =>
+  `Act as a supportive productivity coach reviewing my work day. ` +
+  `Today I focused for ${formatDuration(day.totals.focusSeconds)} over ${day.totals.completed} completed pomodoros` +
+  (day.totals.abandoned ? ` (${day.totals.abandoned} cut short)` : '') + `, with ` +
+  `${day.totals.interruptions.internal} internal and ${day.totals.interruptions.external} external interruptions logged.\n` +
+  `Focus time per task:\n${day.worked.map(w => `- "${w.text}": ${formatDuration(w.seconds)}`).join('\n') || '- nothing logged'}\n` +
+  `Finished today:\n${day.finished.map(t => `- "${t.text}"`).join('\n') || '- nothing'}\n` +
+  `Still open:\n${day.unfinished.map((t, i) => `- task ${i + 1}: "${t.text}"`).join('\n') || '- nothing'}\n\n` +
+  `Write a short, honest, encouraging summary of the day (at most three sentences), list up to 3 concrete wins, ` +
+  `and pick which open tasks to carry over to tomorrow, most important first, with a short reason each. ` +
+  `Return ONLY a JSON object of the form {"summary": string, "wins": [string], "carryOver": [{"task": integer, "reason": string}]}, ` +
+  `where "task" is one of the open task numbers above. Do not include markdown formatting or commentary.`;
+
+export const parseReview = (raw: string, open: Task[]): Parsed<DayReview> => {
+  const data = asRecord(parseJsonReply(raw));
+  if (!data) return { ok: false, error: 'response is not a JSON object' };
+  if (typeof data.summary !== 'string' || !data.summary.trim()) return { ok: false, error: 'missing a "summary"' };
+  if (!Array.isArray(data.carryOver)) return { ok: false, error: 'missing a "carryOver" array' };
+
+  const carryOver: CarryOverItem[] = [];
+  for (const [i, value] of data.carryOver.entries()) {
+    const item = asRecord(value);
+    const task = offeredTask(open, item?.task);
+    if (!item || !task) return { ok: false, error: `carry-over item ${i + 1} refers to a task number that wasn't offered` };
+    if (carryOver.some(c => c.taskId === task.id)) continue;
+    const reason = typeof item.reason === 'string' && item.reason.trim() ? item.reason.trim() : undefined;
+    carryOver.push({ taskId: task.id, text: task.text, reason });
+  }
+
+  const wins = Array.isArray(data.wins)
+    ? data.wins.filter((w): w is string => typeof w === 'string' && w.trim() !== '').map(w => w.trim()).slice(0, 5)
+    : [];
+  return { ok: true, value: { summary: data.summary.trim(), wins, carryOver } };
+};
+
+export const requestDayReview = (provider: AIProvider, day: DaySummary): Promise<DayReview> =>
+  requestParsed(provider, {
+    purpose: 'review',
+    prompt: buildReviewPrompt(day),
+    items: offerItems(day.unfinished),
+    json: true,
+    schema: REVIEW_SCHEMA,
+  }, raw => parseReview(raw, day.unfinished));
@@ -0,0 +1,56 @@
+// Service worker registration and the "new version available" handshake.
+// A new worker waits until the user accepts the update prompt, then takes over
+// and the page reloads into the new build.
+
+let waiting: ServiceWorker | null = null;
+let updating = false;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker) => {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToUpdates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isUpdateReady = () => waiting !== null;
+
+export const applyUpdate = () => {
+  if (!waiting) return;
+  updating = true;
+  waiting.postMessage({ type: 'skip-waiting' });
+};
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  const container = navigator.serviceWorker;
+
+  // The very first install also changes controller; only reload when we asked for it
+  container.addEventListener('controllerchange', () => {
+    if (updating) location.reload();
+  });
+
+  try {
+    const registration = await container.register('/sw.js');
+    // A worker that's installed while another controls the page is an update
+    if (registration.waiting && container.controller) setWaiting(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && container.controller) setWaiting(worker);
+      });
+    });
+    // Long-lived tabs check for a new deploy whenever they come back into view
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  } catch (error) {
+    console.error('Service worker registration failed', error);
+  }
+};
+
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { describeRecurrence, makeRecurrence, occursOn, renewRecurring } from './recurrence';
+import { createTranslator } from './i18n';
+
+// 2024-05-06 is a Monday
+const MONDAY = '2024-05-06';
+const SATURDAY = '2024-05-11';
+
+let nextId = 100;
+const makeId = () => nextId++;
+
+const routine = (overrides: Partial<Task> = {}): Task => ({
+  id: 1,
+  text: 'Inbox zero',
+  completed: true,
+  completedPomodoros: 2,
+  subtasks: [
+    { id: 11, text: 'Archive', completed: true },
+    { id: 12, text: 'Reply', completed: true, dependsOn: [11] },
+  ],
+  recurrence: makeRecurrence('daily', '2024-05-05'),
+  ...overrides,
+});
+
+describe('occursOn', () => {
+  it('follows each rule', () => {
+    expect(occursOn(makeRecurrence('weekdays', MONDAY), SATURDAY)).toBe(false);
+    expect(occursOn(makeRecurrence('weekdays', MONDAY), MONDAY)).toBe(true);
+    expect(occursOn(makeRecurrence('weekly', MONDAY), '2024-05-13')).toBe(true);
+    expect(occursOn(makeRecurrence('weekly', MONDAY), '2024-05-07')).toBe(false);
+    expect(occursOn(makeRecurrence('custom', MONDAY, [3, 6]), SATURDAY)).toBe(true);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names the rule or the chosen days in the given language', () => {
+    expect(describeRecurrence(makeRecurrence('daily', '2024-05-06'), createTranslator('en'), 'en')).toBe('Every day');
+    expect(describeRecurrence({ rule: 'custom', days: [3, 1], lastOn: '2024-05-06' }, createTranslator('de'), 'de')).toMatch(/^Jeden Mo\.?, Mi\.?$/);
+  });
+});
+
+describe('renewRecurring', () => {
+  it('hands a finished series on to a fresh copy below it', () => {
+    const [done, next] = renewRecurring([routine()], MONDAY, makeId);
+    expect(done).toMatchObject({ id: 1, completed: true, recurrence: undefined });
+    expect(next).toMatchObject({ text: 'Inbox zero', completed: false, completedPomodoros: undefined, recurrence: { lastOn: MONDAY } });
+    expect(next.subtasks?.every(st => !st.completed)).toBe(true);
+    // Step links follow the new ids
+    expect(next.subtasks?.[1].dependsOn).toEqual([next.subtasks?.[0].id]);
+  });
+
+  it('rolls an unfinished task over instead of duplicating it', () => {
+    const renewed = renewRecurring([routine({ completed: false })], MONDAY, makeId);
+    expect(renewed).toHaveLength(1);
+    expect(renewed[0].recurrence?.lastOn).toBe(MONDAY);
+  });
+
+  it('leaves the list alone on days off and days already renewed', () => {
+    const tasks = [routine({ recurrence: makeRecurrence('weekdays', '2024-05-10') })];
+    expect(renewRecurring(tasks, SATURDAY, makeId)).toBe(tasks);
+    expect(renewRecurring(tasks, '2024-05-10', makeId)).toBe(tasks);
+  });
+});
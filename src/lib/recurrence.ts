@@ -0,0 +1,66 @@
+import type { Recurrence, RecurrenceRule, Task } from '../types';
+import { freshSubtasks } from './tasks';
+import type { Translate } from './i18n';
+
+export const RECURRENCE_RULES: RecurrenceRule[] = ['daily', 'weekdays', 'weekly', 'custom'];
+
+// 2024-01-07 was a Sunday, so day d of the week falls on the 7th + d
+const weekdayName = (day: number, locale: string | undefined, weekday: 'short' | 'narrow') =>
+  new Date(2024, 0, 7 + day).toLocaleDateString(locale, { weekday });
+
+// One-letter day names, Sunday first like Date.getDay()
+export const weekdayLetters = (locale?: string) => Array.from({ length: 7 }, (_, day) => weekdayName(day, locale, 'narrow'));
+
+const weekdayOf = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).getDay();
+};
+
+// A new series counts today as its first occurrence; weekly repeats on today's weekday
+export const makeRecurrence = (rule: RecurrenceRule, today: string, days?: number[]): Recurrence => ({
+  rule,
+  days: rule === 'weekly' ? [weekdayOf(today)] : rule === 'custom' ? days ?? [weekdayOf(today)] : [],
+  lastOn: today,
+});
+
+export const occursOn = (recurrence: Recurrence, dateKey: string) => {
+  const weekday = weekdayOf(dateKey);
+  switch (recurrence.rule) {
+    case 'daily': return true;
+    case 'weekdays': return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+    case 'custom': return recurrence.days.includes(weekday);
+  }
+};
+
+export const describeRecurrence = (recurrence: Recurrence, t: Translate, locale?: string) => {
+  if (recurrence.rule !== 'weekly' && recurrence.rule !== 'custom') return t(`recurrence.${recurrence.rule}`);
+  const names = [...recurrence.days].sort().map(d => weekdayName(d, locale, 'short'));
+  return t('recurrence.every', { days: names.join(', ') });
+};
+
+const nextOccurrence = (task: Task, today: string, makeId: () => number): Task => ({
+  ...task,
+  id: makeId(),
+  completed: false,
+  subtasks: freshSubtasks(task.subtasks || [], makeId),
+  isExpanded: false,
+  completedPomodoros: undefined,
+  archivedAt: undefined,
+  dueDate: task.dueDate && today,
+  recurrence: { ...task.recurrence!, lastOn: today },
+});
+
+// Run on each new day. A finished task hands the series on to a fresh copy right below it;
+// one still open just rolls over, so skipped days don't pile up duplicates.
+export const renewRecurring = (tasks: Task[], today: string, makeId: () => number): Task[] => {
+  let changed = false;
+  const renewed = tasks.flatMap(task => {
+    const { recurrence } = task;
+    if (!recurrence || recurrence.lastOn >= today || !occursOn(recurrence, today)) return [task];
+    changed = true;
+    if (!task.completed) return [{ ...task, recurrence: { ...recurrence, lastOn: today } }];
+    return [{ ...task, recurrence: undefined }, nextOccurrence(task, today, makeId)];
+  });
+  return changed ? renewed : tasks;
+};
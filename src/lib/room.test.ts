@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ROOM_CODE, createRoomCode, fromSharedTimer, normalizeRoomCode, parseServerMessage, toSharedTimer } from './room';
+import type { TimerState } from './timer';
+
+describe('room codes', () => {
+  it('ignores case and separators', () => {
+    expect(normalizeRoomCode('k7q-pz 3')).toBe('K7QPZ3');
+  });
+
+  it('makes up valid codes without look-alike characters', () => {
+    const code = createRoomCode(() => 0.999);
+    expect(code).toMatch(ROOM_CODE);
+    expect(createRoomCode(() => 0)).toBe('AAAAAA');
+    expect(code).not.toMatch(/[01IO]/);
+  });
+});
+
+describe('shared timers', () => {
+  it('sends the time left, so a receiver with another clock ends at the same moment', () => {
+    const running: TimerState = { mode: 'focus', status: 'running', plannedSeconds: 1500, endsAt: 10_000 + 60_000, remainingMs: 1_500_000 };
+    const shared = toSharedTimer(running, 10_000);
+    expect(shared).toEqual({ mode: 'focus', status: 'running', plannedSeconds: 1500, remainingMs: 60_000 });
+    expect(fromSharedTimer(shared, 500_000)).toMatchObject({ status: 'running', endsAt: 560_000, remainingMs: 60_000 });
+  });
+
+  it('keeps a paused timer paused', () => {
+    const paused: TimerState = { mode: 'short', status: 'paused', plannedSeconds: 300, endsAt: null, remainingMs: 120_000 };
+    expect(fromSharedTimer(toSharedTimer(paused, 0), 99_000)).toEqual(paused);
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts known messages', () => {
+    expect(parseServerMessage('{"type":"members","members":[]}')).toEqual({ type: 'members', members: [] });
+  });
+
+  it('keeps known error codes only', () => {
+    expect(parseServerMessage('{"type":"error","code":"badRoom","message":"Bad code"}')).toEqual({ type: 'error', code: 'badRoom', message: 'Bad code' });
+    expect(parseServerMessage('{"type":"error","code":"later","message":"Newer"}')).toEqual({ type: 'error', code: undefined, message: 'Newer' });
+  });
+
+  it('drops malformed or unknown messages', () => {
+    expect(parseServerMessage('not json')).toBeNull();
+    expect(parseServerMessage('{"type":"timer","timer":null,"by":"a"}')).toBeNull();
+    expect(parseServerMessage('{"type":"confetti"}')).toBeNull();
+  });
+});
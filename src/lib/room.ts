@@ -0,0 +1,93 @@
+import type { TimerMode } from '../types';
+import { getRemainingMs, type TimerState, type TimerStatus } from './timer';
+import { isObject } from './io/validate';
+
+// Wire format of the focus room server in server/room-server.js, which documents the protocol
+
+// Timers travel as time left at sending, so members' clocks never have to agree
+export interface SharedTimer {
+  mode: TimerMode;
+  status: TimerStatus;
+  plannedSeconds: number;
+  remainingMs: number;
+}
+
+export interface MemberStatus {
+  mode: TimerMode;
+  isActive: boolean;
+  task?: string; // only shared while focusing
+}
+
+export interface RoomMember {
+  id: string;
+  name: string;
+  status: MemberStatus | null; // null until the member's first presence update
+}
+
+// Why the server refused a message; `message` carries the same in English for other clients
+export const ROOM_ERRORS = ['notJson', 'badRoom', 'badMember', 'notJoined', 'unknownType'] as const;
+export type RoomError = typeof ROOM_ERRORS[number];
+
+export type ServerMessage =
+  | { type: 'joined'; room: string; timer: SharedTimer | null; members: RoomMember[] }
+  | { type: 'members'; members: RoomMember[] }
+  | { type: 'timer'; timer: SharedTimer; by: string }
+  | { type: 'error'; code?: RoomError; message: string };
+
+export type ClientMessage =
+  | { type: 'join'; room: string; member: { id: string; name: string } }
+  | { type: 'presence'; status: MemberStatus | null }
+  | { type: 'timer'; timer: SharedTimer };
+
+export const DEFAULT_ROOM_SERVER: string = import.meta.env.VITE_ROOM_SERVER || 'ws://localhost:8787';
+
+export const ROOM_CODE = /^[A-Z0-9]{4,12}$/;
+
+// Codes get typed from a chat message or read out loud, so case and separators don't matter
+export const normalizeRoomCode = (code: string) => code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+// No 0/O or 1/I, which are easy to mix up
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const createRoomCode = (random = Math.random) =>
+  Array.from({ length: 6 }, () => CODE_CHARS[Math.floor(random() * CODE_CHARS.length)]).join('');
+
+export const toSharedTimer = (state: TimerState, now: number): SharedTimer => ({
+  mode: state.mode,
+  status: state.status,
+  plannedSeconds: state.plannedSeconds,
+  remainingMs: getRemainingMs(state, now),
+});
+
+export const fromSharedTimer = (timer: SharedTimer, now: number): TimerState => ({
+  mode: timer.mode,
+  status: timer.status,
+  plannedSeconds: timer.plannedSeconds,
+  endsAt: timer.status === 'running' ? now + timer.remainingMs : null,
+  remainingMs: timer.remainingMs,
+});
+
+// The server validates what it relays, so this only guards against a foreign or newer server
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  switch (message.type) {
+    case 'joined':
+      return typeof message.room === 'string' && Array.isArray(message.members) ? message as ServerMessage : null;
+    case 'members':
+      return Array.isArray(message.members) ? message as ServerMessage : null;
+    case 'timer':
+      return isObject(message.timer) && typeof message.by === 'string' ? message as ServerMessage : null;
+    case 'error':
+      if (typeof message.message !== 'string') return null;
+      // A code this client doesn't know yet falls back to a general message
+      return { type: 'error', code: (ROOM_ERRORS as readonly unknown[]).includes(message.code) ? message.code as RoomError : undefined, message: message.message };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BINDINGS, eventToCombo, findAction, rebind, targetOwnsKey } from './shortcuts';
+
+const key = (k: string, mods: { ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean } = {}) =>
+  ({ key: k, ctrlKey: false, metaKey: false, altKey: false, ...mods });
+
+describe('eventToCombo', () => {
+  it('normalizes keys and folds Ctrl/⌘ into Mod', () => {
+    expect(eventToCombo(key(' '))).toBe('Space');
+    expect(eventToCombo(key('R'))).toBe('r');
+    expect(eventToCombo(key('K', { metaKey: true }))).toBe('Mod+k');
+    expect(eventToCombo(key('k', { ctrlKey: true, altKey: true }))).toBe('Mod+Alt+k');
+    expect(eventToCombo(key('Escape'))).toBe('Escape');
+    expect(eventToCombo(key('Shift'))).toBeNull();
+  });
+
+  it('maps the defaults to their actions', () => {
+    expect(findAction(DEFAULT_BINDINGS, 'Space')).toBe('toggleTimer');
+    expect(findAction(DEFAULT_BINDINGS, 'Mod+k')).toBe('palette');
+    expect(findAction(DEFAULT_BINDINGS, 'q')).toBeNull();
+  });
+});
+
+describe('rebind', () => {
+  it('swaps with the action that already owned the combo', () => {
+    const next = rebind(DEFAULT_BINDINGS, 'reset', 'z');
+    expect(next.reset).toBe('z');
+    expect(next.zen).toBe('r');
+    expect(DEFAULT_BINDINGS.reset).toBe('r');
+  });
+});
+
+describe('targetOwnsKey', () => {
+  it('leaves typing and button activation alone', () => {
+    const input = document.createElement('input');
+    const button = document.createElement('button');
+    expect(targetOwnsKey(input, 'n')).toBe(true);
+    expect(targetOwnsKey(input, 'Mod+k')).toBe(false);
+    expect(targetOwnsKey(button, 'Space')).toBe(true);
+    expect(targetOwnsKey(button, 'r')).toBe(false);
+    expect(targetOwnsKey(document.body, 'Space')).toBe(false);
+  });
+});
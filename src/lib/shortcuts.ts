@@ -0,0 +1,66 @@
+export type ShortcutAction =
+  | 'toggleTimer' | 'reset' | 'focusMode' | 'shortMode' | 'longMode' | 'zen'
+  | 'newTask' | 'nextTask' | 'prevTask' | 'completeTask' | 'pinTask' | 'breakdown'
+  | 'distraction' | 'palette' | 'help';
+
+export type Bindings = Record<ShortcutAction, string>;
+
+// Combos are written as "[Mod+][Alt+]key", where Mod is Ctrl or ⌘ and the key
+// is lowercase or a named key such as "Space". Shift is ignored so "?" works
+// on every layout.
+export const DEFAULT_BINDINGS: Bindings = {
+  toggleTimer: 'Space',
+  reset: 'r',
+  focusMode: '1',
+  shortMode: '2',
+  longMode: '3',
+  zen: 'z',
+  newTask: 'n',
+  nextTask: 'j',
+  prevTask: 'k',
+  completeTask: 'x',
+  pinTask: 'p',
+  breakdown: 'b',
+  distraction: 'd',
+  palette: 'Mod+k',
+  help: '?',
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_BINDINGS) as ShortcutAction[];
+
+// Bare keys that never make sense as a shortcut on their own
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'CapsLock', 'Dead', 'Unidentified'];
+
+export const eventToCombo = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>) => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  return `${e.ctrlKey || e.metaKey ? 'Mod+' : ''}${e.altKey ? 'Alt+' : ''}${key}`;
+};
+
+export const findAction = (bindings: Bindings, combo: string) =>
+  SHORTCUT_ACTIONS.find(action => bindings[action] === combo) ?? null;
+
+// Give `action` a new combo. Whatever used that combo takes over the old one,
+// so no two actions ever share a key.
+export const rebind = (bindings: Bindings, action: ShortcutAction, combo: string): Bindings => {
+  const taken = findAction(bindings, combo);
+  const next = { ...bindings, [action]: combo };
+  if (taken && taken !== action) next[taken] = bindings[action];
+  return next;
+};
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const formatCombo = (combo: string) =>
+  combo
+    .split('+')
+    .map(part => part === 'Mod' ? (isMac() ? '⌘' : 'Ctrl') : part.length === 1 ? part.toUpperCase() : part)
+    .join(isMac() ? '' : '+');
+
+// Focused controls keep the keys they handle natively: text fields take every
+// plain key, buttons and links take Space and Enter. Modifier combos always pass.
+export const targetOwnsKey = (target: EventTarget | null, combo: string) => {
+  if (!(target instanceof HTMLElement) || combo.startsWith('Mod+')) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return (combo === 'Space' || combo === 'Enter') && !!target.closest('button, a, [role="button"]');
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Project, SessionRecord, Task } from '../types';
+import { buildHeatmap, computeStreaks, focusByProject, focusByTag, totalsBetween } from './stats';
+
+// Day keys follow the local calendar. Pin a zone that changes to summer time on
+// 30 March 2025 so the date arithmetic is tested across a 23-hour day everywhere.
+process.env.TZ = 'Europe/Berlin';
+
+const session = (id: number, seconds: number, extra: Partial<SessionRecord> = {}): SessionRecord => ({
+  id,
+  mode: 'focus',
+  status: 'completed',
+  startedAt: id,
+  endedAt: id + seconds * 1000,
+  plannedSeconds: seconds,
+  actualSeconds: seconds,
+  ...extra,
+});
+
+const projects: Project[] = [{ id: 7, name: 'Thesis', color: '#34d399' }];
+const tasks: Task[] = [{ id: 1, text: 'Edit chapter', completed: false, projectId: 7, tags: ['writing'] }];
+
+describe('focusByProject', () => {
+  it('uses the project recorded on the session, or the task it belongs to', () => {
+    const history = [
+      session(1, 600, { projectId: 7 }),
+      session(2, 300, { taskId: 1 }),
+      session(3, 1200),
+      session(4, 900, { mode: 'short' }),
+    ];
+    expect(focusByProject(history, tasks, projects)).toEqual([
+      { key: 'inbox', text: 'Inbox', seconds: 1200, sessions: 1 },
+      { key: '7', text: 'Thesis', seconds: 900, sessions: 2 },
+    ]);
+  });
+
+  it('treats deleted projects as the inbox', () => {
+    expect(focusByProject([session(1, 60, { projectId: 9 })], [], projects)[0].key).toBe('inbox');
+  });
+});
+
+describe('focusByTag', () => {
+  it('counts a session toward each of its tags', () => {
+    const history = [session(1, 600, { tags: ['writing', 'deep'] }), session(2, 300, { taskId: 1 }), session(3, 100)];
+    expect(focusByTag(history, tasks)).toEqual([
+      { key: 'writing', text: '#writing', seconds: 900, sessions: 2 },
+      { key: 'deep', text: '#deep', seconds: 600, sessions: 1 },
+    ]);
+  });
+});
+
+// A session at noon local time on the given day
+const on = (id: number, month: number, day: number, extra: Partial<SessionRecord> = {}) =>
+  session(id, 1500, { startedAt: new Date(2025, month - 1, day, 12).getTime(), ...extra });
+
+describe('totalsBetween', () => {
+  it('sums focus and break time started inside the range', () => {
+    const history = [
+      on(1, 1, 6),
+      on(2, 1, 6, { status: 'abandoned', actualSeconds: 600, interruptions: { internal: 2, external: 1 } }),
+      on(3, 1, 6, { mode: 'short', actualSeconds: 300 }),
+      on(4, 1, 7),
+    ];
+    expect(totalsBetween(history, new Date(2025, 0, 6).getTime(), new Date(2025, 0, 7).getTime())).toEqual({
+      focusSeconds: 2100,
+      breakSeconds: 300,
+      completed: 1,
+      abandoned: 1,
+      interruptions: { internal: 2, external: 1 },
+    });
+  });
+});
+
+describe('computeStreaks', () => {
+  const now = new Date(2025, 0, 10, 18).getTime();
+
+  it('counts today and the days before it', () => {
+    expect(computeStreaks([on(1, 1, 8), on(2, 1, 9), on(3, 1, 10)], now)).toEqual({ current: 3, best: 3 });
+  });
+
+  it('keeps a streak that ended yesterday alive until today is over', () => {
+    expect(computeStreaks([on(1, 1, 8), on(2, 1, 9)], now)).toEqual({ current: 2, best: 2 });
+    expect(computeStreaks([on(1, 1, 7), on(2, 1, 8)], now)).toEqual({ current: 0, best: 2 });
+  });
+
+  it('restarts after a missed day and ignores abandoned sessions', () => {
+    const history = [on(1, 1, 2), on(2, 1, 3), on(3, 1, 4), on(4, 1, 6), on(5, 1, 9, { status: 'abandoned' }), on(6, 1, 10)];
+    expect(computeStreaks(history, now)).toEqual({ current: 1, best: 3 });
+  });
+
+  it('runs through the switch to summer time', () => {
+    const history = [on(1, 3, 29), on(2, 3, 30), on(3, 3, 31)];
+    expect(computeStreaks(history, new Date(2025, 2, 31, 9).getTime())).toEqual({ current: 3, best: 3 });
+  });
+});
+
+describe('buildHeatmap', () => {
+  it('lays out whole weeks from Sunday, without skipping or repeating the short day', () => {
+    const columns = buildHeatmap([on(1, 3, 30)], new Date(2025, 3, 2, 9).getTime(), 2);
+    expect(columns.map(week => week.map(day => day.key))).toEqual([
+      ['2025-03-23', '2025-03-24', '2025-03-25', '2025-03-26', '2025-03-27', '2025-03-28', '2025-03-29'],
+      ['2025-03-30', '2025-03-31', '2025-04-01', '2025-04-02'],
+    ]);
+    expect(columns[1][0].seconds).toBe(1500);
+  });
+});
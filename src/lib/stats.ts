@@ -0,0 +1,158 @@
+import type { InterruptionCounts, Project, SessionRecord, Task } from '../types';
+import { NO_INTERRUPTIONS, addCounts } from './distractions';
+
+// Local calendar day key (YYYY-MM-DD) so "today" matches the user's wall clock
+export const toDateKey = (ts: number) => {
+  const d = new Date(ts);
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Shift by calendar days (not 24h blocks) so DST changes don't skip a day
+export const addDays = (ts: number, days: number) => {
+  const d = new Date(ts);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+const focusSessions = (history: SessionRecord[]) => history.filter(s => s.mode === 'focus');
+
+// Focused seconds per local day, counting completed and abandoned focus time alike
+export const focusSecondsByDay = (history: SessionRecord[]) => {
+  const totals = new Map<string, number>();
+  for (const s of focusSessions(history)) {
+    const key = toDateKey(s.startedAt);
+    totals.set(key, (totals.get(key) || 0) + s.actualSeconds);
+  }
+  return totals;
+};
+
+export interface PeriodTotals {
+  focusSeconds: number;
+  breakSeconds: number;
+  completed: number;
+  abandoned: number;
+  interruptions: InterruptionCounts;
+}
+
+export const totalsBetween = (history: SessionRecord[], from: number, to: number): PeriodTotals => {
+  const totals: PeriodTotals = { focusSeconds: 0, breakSeconds: 0, completed: 0, abandoned: 0, interruptions: NO_INTERRUPTIONS };
+  for (const s of history) {
+    if (s.startedAt < from || s.startedAt >= to) continue;
+    if (s.mode === 'focus') {
+      totals.focusSeconds += s.actualSeconds;
+      if (s.status === 'completed') totals.completed++;
+      else totals.abandoned++;
+      totals.interruptions = addCounts(totals.interruptions, s.interruptions);
+    } else {
+      totals.breakSeconds += s.actualSeconds;
+    }
+  }
+  return totals;
+};
+
+// Streaks count consecutive days with at least one completed focus session.
+// The current streak stays alive through today even if nothing is logged yet.
+export const computeStreaks = (history: SessionRecord[], now: number) => {
+  const days = new Set(
+    focusSessions(history).filter(s => s.status === 'completed').map(s => toDateKey(s.startedAt))
+  );
+
+  let current = 0;
+  let cursor = startOfDay(now);
+  if (!days.has(toDateKey(cursor))) cursor = addDays(cursor, -1);
+  while (days.has(toDateKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  let best = 0;
+  let run = 0;
+  let prev: number | null = null;
+  for (const key of [...days].sort()) {
+    const [y, m, d] = key.split('-').map(Number);
+    const ts = new Date(y, m - 1, d).getTime();
+    run = prev !== null && toDateKey(addDays(prev, 1)) === key ? run + 1 : 1;
+    best = Math.max(best, run);
+    prev = ts;
+  }
+
+  return { current, best };
+};
+
+export interface TaskFocus {
+  key: string;
+  text: string;
+  seconds: number;
+  sessions: number;
+}
+
+// Group focus time under any number of keys per session, longest first; a session with two tags counts toward both
+const focusBy = (history: SessionRecord[], keysOf: (s: SessionRecord) => { key: string; text: string }[]): TaskFocus[] => {
+  const groups = new Map<string, TaskFocus>();
+  for (const s of focusSessions(history)) {
+    for (const { key, text } of keysOf(s)) {
+      const entry = groups.get(key) || { key, text, seconds: 0, sessions: 0 };
+      entry.seconds += s.actualSeconds;
+      if (s.status === 'completed') entry.sessions++;
+      groups.set(key, entry);
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.seconds - a.seconds);
+};
+
+// Focus time grouped by the task each session was attributed to
+export const focusByTask = (history: SessionRecord[], unassigned = 'Unassigned'): TaskFocus[] =>
+  focusBy(history, s => [{ key: s.taskId !== undefined ? String(s.taskId) : 'none', text: s.taskText || unassigned }]);
+
+// Sessions logged before projects and tags existed borrow them from their task, if it's still around
+const taskOf = (s: SessionRecord, tasks: Task[]) => tasks.find(t => t.id === s.taskId);
+
+export const focusByProject = (history: SessionRecord[], tasks: Task[], projects: Project[], inbox = 'Inbox'): TaskFocus[] =>
+  focusBy(history, s => {
+    const project = projects.find(p => p.id === (s.projectId ?? taskOf(s, tasks)?.projectId));
+    return [project ? { key: String(project.id), text: project.name } : { key: 'inbox', text: inbox }];
+  });
+
+export const focusByTag = (history: SessionRecord[], tasks: Task[]): TaskFocus[] =>
+  focusBy(history, s => (s.tags ?? taskOf(s, tasks)?.tags ?? []).map(tag => ({ key: tag, text: `#${tag}` })));
+
+export interface HeatmapDay {
+  key: string;
+  date: number;
+  seconds: number;
+}
+
+// Week columns (Sunday first) ending with the week containing `now`
+export const buildHeatmap = (history: SessionRecord[], now: number, weeks = 15): HeatmapDay[][] => {
+  const totals = focusSecondsByDay(history);
+  const today = startOfDay(now);
+  const firstDay = addDays(today, -(weeks - 1) * 7 - new Date(today).getDay());
+
+  const columns: HeatmapDay[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const column: HeatmapDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = addDays(firstDay, w * 7 + d);
+      if (date > today) break;
+      const key = toDateKey(date);
+      column.push({ key, date, seconds: totals.get(key) || 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+};
+
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  if (hours === 0) return `${mins}m`;
+  return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+};
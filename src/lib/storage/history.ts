@@ -0,0 +1,116 @@
+import type { SessionRecord } from '../../types';
+import { isSessionRecord, mergeById } from '../io/validate';
+import type { PersistentStore } from './store';
+
+// Where session history lives. Saves insert or replace records by id.
+export interface HistoryBackend {
+  load: () => Promise<SessionRecord[]>;
+  save: (records: SessionRecord[]) => Promise<void>;
+}
+
+export interface HistoryStore {
+  get: () => SessionRecord[];
+  add: (records: SessionRecord[]) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const DB_NAME = 'zenfocus';
+const DB_VERSION = 1;
+const HISTORY = 'history';
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // IndexedDB versions its own layout: add object stores in new `oldVersion` steps
+  request.onupgradeneeded = (e) => {
+    if (e.oldVersion < 1) request.result.createObjectStore(HISTORY, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// History grows without bound, so it moves out of localStorage's ~5 MB into IndexedDB
+export const createIndexedDBBackend = (legacy: PersistentStore<SessionRecord[]>): HistoryBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => (db ??= openDatabase());
+
+  const save = async (records: SessionRecord[]) => {
+    const tx = (await open()).transaction(HISTORY, 'readwrite');
+    const store = tx.objectStore(HISTORY);
+    records.forEach(record => store.put(record));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  const load = async () => {
+    // Earlier versions kept history in localStorage: carry it over once, then free the space
+    const carried = legacy.get();
+    if (carried.length > 0) {
+      await save(carried);
+      legacy.clear();
+    }
+    const stored = await settle((await open()).transaction(HISTORY).objectStore(HISTORY).getAll());
+    return stored.filter(isSessionRecord);
+  };
+
+  return { load, save };
+};
+
+// Fallback for browsers without IndexedDB (and for tests)
+export const createLocalBackend = (store: PersistentStore<SessionRecord[]>): HistoryBackend => ({
+  load: async () => store.get(),
+  save: async (records) => store.set(prev => mergeById(prev, records)),
+});
+
+// In-memory view of the history that other tabs keep fresh over a BroadcastChannel
+export const createHistoryStore = (backend: HistoryBackend, channelName = 'zenfocus-history'): HistoryStore => {
+  const listeners = new Set<() => void>();
+  let records: SessionRecord[] = [];
+  let channel: BroadcastChannel | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const reload = () => backend.load().then(
+    stored => {
+      // Keep anything added while the load was in flight
+      records = mergeById(stored, records);
+      notify();
+    },
+    error => console.error("Couldn't load session history", error),
+  );
+
+  const add = (incoming: SessionRecord[]) => {
+    records = mergeById(records, incoming);
+    notify();
+    backend.save(incoming).then(
+      () => channel?.postMessage('changed'),
+      error => console.error("Couldn't save session history", error),
+    );
+  };
+
+  const subscribe = (listener: () => void) => {
+    if (listeners.size === 0) {
+      reload();
+      if (typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(channelName);
+        channel.onmessage = reload;
+      }
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        channel?.close();
+        channel = null;
+      }
+    };
+  };
+
+  return { get: () => records, add, subscribe };
+};
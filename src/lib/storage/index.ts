@@ -0,0 +1,9 @@
+export type { Migration, StorageSpec, PersistentStore, Updater } from './store';
+export { createStore, getStore, decode, encode, schemaVersion } from './store';
+export type { HistoryBackend, HistoryStore } from './history';
+export { createHistoryStore, createIndexedDBBackend, createLocalBackend } from './history';
+export {
+  adoptUnversioned, TASKS, PINNED_TASK, TIMER_SETTINGS, AI_SETTINGS, CYCLE_PROGRESS, SOUND_ENABLED, ACTIVE_SESSION, LOCAL_HISTORY,
+  SHORTCUTS, SOUND_SETTINGS, NOTIFICATIONS, AI_QUEUE, DISTRACTIONS, PROJECTS, TASK_VIEW,
+  TEMPLATES, RUNNING_SEQUENCE, LOCALE, THEME, ROOM,
+} from './schema';
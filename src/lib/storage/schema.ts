@@ -0,0 +1,277 @@
+import type {
+  ActiveSession, AISettings, ChimeId, Distraction, FocusTemplate, Project, NotificationSettings, RunningSequence, SessionRecord, SoundMix, SoundSettings,
+  RoomSettings, Task, ThemeSettings, TimerMode, TimerSettings,
+} from '../../types';
+import { DEFAULT_SETTINGS } from '../cycle';
+import { DEFAULT_AI_SETTINGS, PROVIDER_DEFAULTS } from '../ai';
+import {
+  DATE_KEY, HEX_COLOR, isDistraction, isObject, isProject, isRecurrence, isSessionRecord, isSubTask, isTask, isTemplate, isTimerSequence,
+} from '../io/validate';
+import { DEFAULT_TASK_VIEW, TASK_SORTS, type TaskView } from '../filters';
+import { LOCALE_IDS, type LocaleSetting } from '../i18n';
+import { DEFAULT_THEME_SETTINGS, THEME_IDS } from '../theme';
+import { DEFAULT_ROOM_SERVER, ROOM_CODE } from '../room';
+import { CHIMES, DEFAULT_SOUND_SETTINGS, SILENT_MIX } from '../audio';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../notify';
+import { DEFAULT_BINDINGS, SHORTCUT_ACTIONS, type Bindings } from '../shortcuts';
+import type { Migration, StorageSpec } from './store';
+
+// Values saved before the versioned envelope already have the v1 shape
+export const adoptUnversioned: Migration = data => data;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+const optionalNumber = (value: unknown) => typeof value === 'number' ? value : undefined;
+
+// Keep a task whose id and text survived, dropping only its damaged parts
+const repairTask = (value: unknown): Task | null => {
+  if (isTask(value)) return value;
+  if (!isObject(value) || typeof value.id !== 'number' || typeof value.text !== 'string') return null;
+  return {
+    id: value.id,
+    text: value.text,
+    completed: value.completed === true,
+    subtasks: Array.isArray(value.subtasks) ? value.subtasks.filter(isSubTask) : [],
+    isExpanded: value.isExpanded === true,
+    estimatedPomodoros: optionalNumber(value.estimatedPomodoros),
+    completedPomodoros: optionalNumber(value.completedPomodoros),
+    projectId: optionalNumber(value.projectId),
+    tags: Array.isArray(value.tags) ? value.tags.filter(tag => typeof tag === 'string') : undefined,
+    priority: value.priority === 'high' || value.priority === 'medium' || value.priority === 'low' ? value.priority : undefined,
+    dueDate: typeof value.dueDate === 'string' && DATE_KEY.test(value.dueDate) ? value.dueDate : undefined,
+    archivedAt: optionalNumber(value.archivedAt),
+    recurrence: isRecurrence(value.recurrence) ? value.recurrence : undefined,
+  };
+};
+
+export const TASKS: StorageSpec<Task[]> = {
+  key: 'zenfocus-tasks',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.map(repairTask).filter(t => t !== null) : null,
+};
+
+export const PROJECTS: StorageSpec<Project[]> = {
+  key: 'zenfocus-projects',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.filter(isProject) : null,
+};
+
+export const TEMPLATES: StorageSpec<FocusTemplate[]> = {
+  key: 'zenfocus-templates',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.filter(isTemplate) : null,
+};
+
+// A template's timer sequence while it runs; null means the regular cycle
+export const RUNNING_SEQUENCE: StorageSpec<RunningSequence | null> = {
+  key: 'zenfocus-sequence',
+  defaultValue: null,
+  migrations: [adoptUnversioned],
+  repair: data => isObject(data) && typeof data.templateId === 'number' && typeof data.name === 'string' && isTimerSequence(data.sequence)
+    ? data as unknown as RunningSequence
+    : null,
+};
+
+// How "Current Priorities" is filtered and sorted
+export const TASK_VIEW: StorageSpec<TaskView> = {
+  key: 'zenfocus-task-view',
+  defaultValue: DEFAULT_TASK_VIEW,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    return {
+      project: typeof data.project === 'number' || data.project === 'inbox' ? data.project : DEFAULT_TASK_VIEW.project,
+      tag: typeof data.tag === 'string' ? data.tag : null,
+      sort: TASK_SORTS.includes(data.sort as TaskView['sort']) ? data.sort as TaskView['sort'] : DEFAULT_TASK_VIEW.sort,
+    };
+  },
+};
+
+// Interface language; 'auto' follows the browser
+export const LOCALE: StorageSpec<LocaleSetting> = {
+  key: 'zenfocus-locale',
+  defaultValue: 'auto',
+  migrations: [adoptUnversioned],
+  repair: data => data === 'auto' || (LOCALE_IDS as unknown[]).includes(data) ? data as LocaleSetting : null,
+};
+
+// A bad accent only loses that one pick
+export const THEME: StorageSpec<ThemeSettings> = {
+  key: 'zenfocus-theme',
+  defaultValue: DEFAULT_THEME_SETTINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const accents = isObject(data.accents) ? data.accents : {};
+    const modes: TimerMode[] = ['focus', 'short', 'long'];
+    return {
+      theme: data.theme === 'auto' || (THEME_IDS as unknown[]).includes(data.theme) ? data.theme as ThemeSettings['theme'] : 'auto',
+      accents: Object.fromEntries(modes
+        .filter(mode => typeof accents[mode] === 'string' && HEX_COLOR.test(accents[mode]))
+        .map(mode => [mode, accents[mode]])),
+    };
+  },
+};
+
+// Remembering the room means a reload rejoins it
+export const ROOM: StorageSpec<RoomSettings> = {
+  key: 'zenfocus-room',
+  defaultValue: { serverUrl: DEFAULT_ROOM_SERVER, name: '', code: null },
+  migrations: [adoptUnversioned],
+  repair: data => isObject(data) ? {
+    serverUrl: typeof data.serverUrl === 'string' && data.serverUrl ? data.serverUrl : DEFAULT_ROOM_SERVER,
+    name: typeof data.name === 'string' ? data.name : '',
+    code: typeof data.code === 'string' && ROOM_CODE.test(data.code) ? data.code : null,
+  } : null,
+};
+
+export const PINNED_TASK: StorageSpec<number | null> = {
+  key: 'zenfocus-active-task',
+  defaultValue: null,
+  migrations: [adoptUnversioned],
+  repair: data => typeof data === 'number' ? data : null,
+};
+
+export const TIMER_SETTINGS: StorageSpec<TimerSettings> = {
+  key: 'zenfocus-settings',
+  defaultValue: DEFAULT_SETTINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const durations = isObject(data.durations) ? data.durations : {};
+    const pickDuration = (mode: TimerMode) => isPositive(durations[mode]) ? durations[mode] : DEFAULT_SETTINGS.durations[mode];
+    return {
+      durations: { focus: pickDuration('focus'), short: pickDuration('short'), long: pickDuration('long') },
+      longBreakInterval: Number.isInteger(data.longBreakInterval) && isPositive(data.longBreakInterval)
+        ? data.longBreakInterval
+        : DEFAULT_SETTINGS.longBreakInterval,
+      autoStartBreaks: typeof data.autoStartBreaks === 'boolean' ? data.autoStartBreaks : DEFAULT_SETTINGS.autoStartBreaks,
+      autoStartFocus: typeof data.autoStartFocus === 'boolean' ? data.autoStartFocus : DEFAULT_SETTINGS.autoStartFocus,
+    };
+  },
+};
+
+export const AI_SETTINGS: StorageSpec<AISettings> = {
+  key: 'zenfocus-ai',
+  defaultValue: DEFAULT_AI_SETTINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const pick = (field: 'model' | 'endpoint' | 'apiKey') =>
+      typeof data[field] === 'string' ? data[field] : DEFAULT_AI_SETTINGS[field];
+    return {
+      provider: Object.hasOwn(PROVIDER_DEFAULTS, data.provider as string) ? data.provider as AISettings['provider'] : DEFAULT_AI_SETTINGS.provider,
+      model: pick('model'),
+      endpoint: pick('endpoint'),
+      apiKey: pick('apiKey'),
+    };
+  },
+};
+
+// Focus sessions finished since the last long break
+export const CYCLE_PROGRESS: StorageSpec<number> = {
+  key: 'zenfocus-cycle',
+  defaultValue: 0,
+  migrations: [adoptUnversioned],
+  repair: data => Number.isInteger(data) && (data as number) >= 0 ? data as number : null,
+};
+
+export const SOUND_ENABLED: StorageSpec<boolean> = {
+  key: 'zenfocus-sound',
+  defaultValue: true,
+  migrations: [adoptUnversioned],
+  repair: data => typeof data === 'boolean' ? data : null,
+};
+
+export const ACTIVE_SESSION: StorageSpec<ActiveSession | null> = {
+  key: 'zenfocus-session',
+  defaultValue: null,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const valid = (['focus', 'short', 'long'] as unknown[]).includes(data.mode)
+      && typeof data.startedAt === 'number'
+      && typeof data.plannedSeconds === 'number';
+    return valid ? data as unknown as ActiveSession : null;
+  },
+};
+
+// Missing or mistyped entries get their default, so new actions show up bound
+export const SHORTCUTS: StorageSpec<Bindings> = {
+  key: 'zenfocus-shortcuts',
+  defaultValue: DEFAULT_BINDINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const bindings = { ...DEFAULT_BINDINGS };
+    SHORTCUT_ACTIONS.forEach(action => {
+      if (typeof data[action] === 'string' && data[action]) bindings[action] = data[action];
+    });
+    return bindings;
+  },
+};
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+const repairMix = (value: unknown): SoundMix => {
+  const mix = { ...SILENT_MIX };
+  if (isObject(value)) (Object.keys(mix) as (keyof SoundMix)[]).forEach(layer => { mix[layer] = volume(value[layer], 0); });
+  return mix;
+};
+
+export const SOUND_SETTINGS: StorageSpec<SoundSettings> = {
+  key: 'zenfocus-soundscape',
+  defaultValue: DEFAULT_SOUND_SETTINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    const mixes = isObject(data.mixes) ? data.mixes : {};
+    return {
+      mixes: { focus: repairMix(mixes.focus), short: repairMix(mixes.short), long: repairMix(mixes.long) },
+      volume: volume(data.volume, DEFAULT_SOUND_SETTINGS.volume),
+      chime: data.chime === 'none' || Object.hasOwn(CHIMES, data.chime as string) ? data.chime as ChimeId : DEFAULT_SOUND_SETTINGS.chime,
+      chimeVolume: volume(data.chimeVolume, DEFAULT_SOUND_SETTINGS.chimeVolume),
+    };
+  },
+};
+
+export const NOTIFICATIONS: StorageSpec<NotificationSettings> = {
+  key: 'zenfocus-notifications',
+  defaultValue: DEFAULT_NOTIFICATION_SETTINGS,
+  migrations: [adoptUnversioned],
+  repair: data => {
+    if (!isObject(data)) return null;
+    return {
+      enabled: data.enabled === true,
+      warnings: Array.isArray(data.warnings) ? data.warnings.filter(isPositive) : DEFAULT_NOTIFICATION_SETTINGS.warnings,
+      favicon: typeof data.favicon === 'boolean' ? data.favicon : DEFAULT_NOTIFICATION_SETTINGS.favicon,
+    };
+  },
+};
+
+// Task ids waiting for a Smart Breakdown until the AI provider is reachable again
+export const AI_QUEUE: StorageSpec<number[]> = {
+  key: 'zenfocus-ai-queue',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.filter(id => typeof id === 'number') : null,
+};
+
+// Captured distractions not yet reviewed; counts move onto the session record when it's logged
+export const DISTRACTIONS: StorageSpec<Distraction[]> = {
+  key: 'zenfocus-distractions',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.filter(isDistraction) : null,
+};
+
+// Only read when carrying history over to IndexedDB, or where IndexedDB is missing
+export const LOCAL_HISTORY: StorageSpec<SessionRecord[]> = {
+  key: 'zenfocus-history',
+  defaultValue: [],
+  migrations: [adoptUnversioned],
+  repair: data => Array.isArray(data) ? data.filter(isSessionRecord) : null,
+};
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionRecord } from '../../types';
+import { createHistoryStore, createLocalBackend, createStore, decode, type StorageSpec } from './index';
+import { LOCAL_HISTORY, TASKS, TIMER_SETTINGS } from './schema';
+
+// v0 stored a bare number of minutes, v1 an object, v2 added a unit
+const DURATION: StorageSpec<{ amount: number; unit: string }> = {
+  key: 'test-duration',
+  defaultValue: { amount: 25, unit: 'min' },
+  migrations: [
+    data => ({ minutes: data }),
+    data => ({ amount: (data as { minutes: number }).minutes, unit: 'min' }),
+  ],
+  repair: data => {
+    const v = data as { amount?: unknown; unit?: unknown };
+    return typeof v?.amount === 'number' && typeof v.unit === 'string' ? { amount: v.amount, unit: v.unit } : null;
+  },
+};
+
+const record = (id: number): SessionRecord => ({
+  id, mode: 'focus', status: 'completed', startedAt: id - 1500_000, endedAt: id, plannedSeconds: 1500, actualSeconds: 1500,
+});
+
+describe('decode', () => {
+  it('runs every migration from the stored version, treating bare JSON as v0', () => {
+    expect(decode(DURATION, '50')).toEqual({ value: { amount: 50, unit: 'min' }, clean: false });
+    expect(decode(DURATION, '{"version":1,"data":{"minutes":10}}').value).toEqual({ amount: 10, unit: 'min' });
+    expect(decode(DURATION, '{"version":2,"data":{"amount":5,"unit":"h"}}')).toEqual({ value: { amount: 5, unit: 'h' }, clean: true });
+  });
+
+  it('falls back to the default for unreadable data', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(decode(DURATION, '{not json')).toEqual({ value: DURATION.defaultValue, clean: false });
+    expect(decode(DURATION, '{"version":2,"data":"garbage"}').value).toEqual(DURATION.defaultValue);
+  });
+
+  it('salvages what it can from damaged records', () => {
+    const raw = JSON.stringify([
+      { id: 1, text: 'Fine', completed: false },
+      { id: 2, text: 'Bad step', completed: 'yes', subtasks: [{ id: 3, text: 'ok', completed: true }, { text: 'no id' }] },
+      { text: 'no id at all' },
+    ]);
+    expect(decode(TASKS, raw).value).toEqual([
+      { id: 1, text: 'Fine', completed: false },
+      { id: 2, text: 'Bad step', completed: false, subtasks: [{ id: 3, text: 'ok', completed: true }], isExpanded: false },
+    ]);
+    expect(decode(TIMER_SETTINGS, '{"durations":{"focus":-5,"short":3}}').value.durations).toEqual({ focus: 25, short: 3, long: 15 });
+  });
+});
+
+describe('createStore', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('applies updaters to the latest stored value', () => {
+    const store = createStore(DURATION);
+    store.set({ amount: 1, unit: 'min' });
+    // Another tab writes in between
+    window.localStorage.setItem(DURATION.key, '{"version":2,"data":{"amount":10,"unit":"min"}}');
+    store.set(prev => ({ ...prev, amount: prev.amount + 1 }));
+    expect(store.get()).toEqual({ amount: 11, unit: 'min' });
+  });
+
+  it('writes migrated data back once subscribed', () => {
+    window.localStorage.setItem(DURATION.key, '45');
+    const store = createStore(DURATION);
+    const unsubscribe = store.subscribe(() => {});
+    expect(JSON.parse(window.localStorage.getItem(DURATION.key)!)).toEqual({ version: 2, data: { amount: 45, unit: 'min' } });
+    unsubscribe();
+  });
+
+  it('notifies subscribers about changes from other tabs', () => {
+    const store = createStore(DURATION);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    window.localStorage.setItem(DURATION.key, '{"version":2,"data":{"amount":3,"unit":"min"}}');
+    window.dispatchEvent(new StorageEvent('storage', { key: DURATION.key }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated' }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.get().amount).toBe(3);
+    unsubscribe();
+  });
+});
+
+describe('createHistoryStore', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('keeps sessions added while the initial load is in flight', async () => {
+    let resolveLoad: (records: SessionRecord[]) => void = () => {};
+    const backend = {
+      load: () => new Promise<SessionRecord[]>(resolve => { resolveLoad = resolve; }),
+      save: vi.fn(async () => {}),
+    };
+    const history = createHistoryStore(backend, 'test-history');
+    const unsubscribe = history.subscribe(() => {});
+
+    history.add([record(3)]);
+    resolveLoad([record(1), record(2)]);
+    await vi.waitFor(() => expect(history.get().map(r => r.id)).toEqual([1, 2, 3]));
+    expect(backend.save).toHaveBeenCalledWith([record(3)]);
+    unsubscribe();
+  });
+
+  it('falls back to localStorage, merging by id', async () => {
+    window.localStorage.setItem(LOCAL_HISTORY.key, JSON.stringify([record(1), { id: 'broken' }]));
+    const store = createStore(LOCAL_HISTORY);
+    const history = createHistoryStore(createLocalBackend(store), 'test-history');
+    const unsubscribe = history.subscribe(() => {});
+
+    await vi.waitFor(() => expect(history.get()).toHaveLength(1));
+    history.add([{ ...record(1), status: 'abandoned' }, record(2)]);
+    await vi.waitFor(() => expect(store.get().map(r => [r.id, r.status])).toEqual([[1, 'abandoned'], [2, 'completed']]));
+    unsubscribe();
+  });
+});
@@ -0,0 +1,148 @@
+export type Migration = (data: unknown) => unknown;
+export type Updater<T> = T | ((prev: T) => T);
+
+// Describes one localStorage key: what it holds, how to upgrade old saves and
+// how to salvage damaged ones.
+export interface StorageSpec<T> {
+  key: string;
+  defaultValue: T;
+  // migrations[n] upgrades data saved at version n to version n + 1. Values saved
+  // before versioning existed (bare JSON, no envelope) count as version 0.
+  migrations: Migration[];
+  // Return a usable value, keeping whatever can be kept, or null to fall back to the default
+  repair: (data: unknown) => T | null;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+export interface Decoded<T> {
+  value: T;
+  clean: boolean; // false when the stored text differs from what we'd write for `value`
+}
+
+export interface PersistentStore<T> {
+  get: () => T;
+  set: (next: Updater<T>) => void;
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  !!value && typeof value === 'object' && typeof (value as Envelope).version === 'number' && 'data' in value;
+
+export const schemaVersion = (spec: StorageSpec<unknown>) => spec.migrations.length;
+
+export const encode = <T>(spec: StorageSpec<T>, value: T) =>
+  JSON.stringify({ version: schemaVersion(spec), data: value });
+
+export const decode = <T>(spec: StorageSpec<T>, raw: string | null): Decoded<T> => {
+  if (raw === null) return { value: spec.defaultValue, clean: true };
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    let { version, data } = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+    const target = schemaVersion(spec);
+    if (version > target) console.warn(`${spec.key} was saved by a newer version (v${version}); reading it as v${target}`);
+    for (; version < target; version++) data = spec.migrations[version](data);
+
+    const value = spec.repair(data);
+    if (value === null) throw new Error('unrecoverable data');
+    return { value, clean: encode(spec, value) === raw };
+  } catch (error) {
+    console.warn(`Resetting corrupted ${spec.key}`, error);
+    return { value: spec.defaultValue, clean: false };
+  }
+};
+
+const readRaw = (key: string) => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+// localStorage stays the source of truth, so every tab and every hook on the
+// same key sees the same value and updaters always apply to the latest one.
+export const createStore = <T>(spec: StorageSpec<T>): PersistentStore<T> => {
+  const listeners = new Set<() => void>();
+  // Decoding is cached per raw string, so get() is cheap and returns a stable reference
+  let cachedRaw: string | null | undefined;
+  let cached: Decoded<T> = { value: spec.defaultValue, clean: true };
+  // Holds the value in memory when storage refuses writes (quota, private mode)
+  let unsaved: { value: T } | null = null;
+
+  const read = () => {
+    const raw = readRaw(spec.key);
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cached = decode(spec, raw);
+    }
+    return cached;
+  };
+
+  const write = (value: T) => {
+    const raw = encode(spec, value);
+    try {
+      window.localStorage.setItem(spec.key, raw);
+      cachedRaw = raw;
+      cached = { value, clean: true };
+      unsaved = null;
+    } catch (error) {
+      console.error(`Couldn't save ${spec.key}`, error);
+      unsaved = { value };
+    }
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const get = () => unsaved ? unsaved.value : read().value;
+
+  const set = (next: Updater<T>) => {
+    write(next instanceof Function ? next(get()) : next);
+    notify();
+  };
+
+  const clear = () => {
+    try {
+      window.localStorage.removeItem(spec.key);
+    } catch (error) {
+      console.error(error);
+    }
+    unsaved = null;
+    notify();
+  };
+
+  const onStorage = (e: StorageEvent) => {
+    // key is null when another tab cleared all of storage
+    if (e.key === spec.key || e.key === null) notify();
+  };
+
+  const subscribe = (listener: () => void) => {
+    if (listeners.size === 0) window.addEventListener('storage', onStorage);
+    listeners.add(listener);
+    // Persist migrations and repairs once something actually uses the value
+    const current = read();
+    if (!current.clean && !unsaved) write(current.value);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) window.removeEventListener('storage', onStorage);
+    };
+  };
+
+  return { get, set, clear, subscribe };
+};
+
+const stores = new Map<string, PersistentStore<unknown>>();
+
+// One store per key, shared by every component that reads it
+export const getStore = <T>(spec: StorageSpec<T>): PersistentStore<T> => {
+  let store = stores.get(spec.key);
+  if (!store) {
+    store = createStore(spec) as PersistentStore<unknown>;
+    stores.set(spec.key, store);
+  }
+  return store as PersistentStore<T>;
+};
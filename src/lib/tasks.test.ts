@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { sortTasks } from './filters';
+import { archiveCompleted, moveItem, pickActiveTask, prioritizeTasks, promoteSubtask, removeSubtask, restoreTask } from './tasks';
+
+const tasks: Task[] = [
+  {
+    id: 1,
+    text: 'Ship release',
+    completed: false,
+    subtasks: [
+      { id: 11, text: 'Write changelog', completed: false },
+      { id: 12, text: 'Tag build', completed: false, dependsOn: [11] },
+    ],
+  },
+  { id: 2, text: 'Inbox zero', completed: false },
+];
+
+describe('moveItem', () => {
+  it('moves an entry up or down without mutating the input', () => {
+    const list = ['a', 'b', 'c'];
+    expect(moveItem(list, 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(list, 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(list).toEqual(['a', 'b', 'c']);
+  });
+
+  it('clamps targets past either end', () => {
+    expect(moveItem(['a', 'b'], 0, -1)).toEqual(['a', 'b']);
+    expect(moveItem(['a', 'b'], 0, 5)).toEqual(['b', 'a']);
+  });
+});
+
+describe('prioritizeTasks', () => {
+  it('lifts the given tasks to the top in the given order, ignoring unknown ids', () => {
+    const list: Task[] = [...tasks, { id: 3, text: 'Review PR', completed: false }];
+    expect(prioritizeTasks(list, [3, 99, 2]).map(t => t.id)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('pickActiveTask', () => {
+  const planned: Task[] = [
+    { id: 1, text: 'Low', completed: false, priority: 'low' },
+    { id: 2, text: 'High but done', completed: true, priority: 'high' },
+    { id: 3, text: 'High', completed: false, priority: 'high' },
+  ];
+
+  it('works on the first open task of the list as sorted', () => {
+    expect(pickActiveTask(planned, sortTasks(planned, 'priority'), null)?.id).toBe(3);
+    expect(pickActiveTask(planned, sortTasks(planned, 'manual'), null)?.id).toBe(1);
+  });
+
+  it('prefers an open pinned task, even one the list hides', () => {
+    expect(pickActiveTask(planned, [planned[2]], 1)?.id).toBe(1);
+    expect(pickActiveTask(planned, sortTasks(planned, 'priority'), 2)?.id).toBe(3);
+  });
+});
+
+describe('removeSubtask', () => {
+  it('drops dependencies on the removed step', () => {
+    const remaining = removeSubtask(tasks[0].subtasks!, 11);
+    expect(remaining).toEqual([{ id: 12, text: 'Tag build', completed: false, dependsOn: [] }]);
+  });
+});
+
+describe('promoteSubtask', () => {
+  it('turns a step into a task right below its parent', () => {
+    const result = promoteSubtask(tasks, 1, 11, () => 99);
+    expect(result.map(t => t.id)).toEqual([1, 99, 2]);
+    expect(result[1]).toMatchObject({ text: 'Write changelog', completed: false, subtasks: [] });
+    expect(result[0].subtasks).toEqual([{ id: 12, text: 'Tag build', completed: false, dependsOn: [] }]);
+  });
+
+  it('ignores unknown subtasks', () => {
+    expect(promoteSubtask(tasks, 2, 11, () => 99)).toBe(tasks);
+  });
+});
+
+describe('archiveCompleted / restoreTask', () => {
+  const list: Task[] = [
+    { id: 1, text: 'Done', completed: true },
+    { id: 2, text: 'Open', completed: false },
+    { id: 3, text: 'Old', completed: true, archivedAt: 5 },
+  ];
+
+  it('stamps only completed tasks that are still on the list', () => {
+    expect(archiveCompleted(list, 100).map(t => t.archivedAt)).toEqual([100, undefined, 5]);
+  });
+
+  it('brings a task back without touching its progress', () => {
+    expect(restoreTask(list, 3)[2]).toMatchObject({ id: 3, completed: true, archivedAt: undefined });
+  });
+});
@@ -0,0 +1,62 @@
+import type { SubTask, Task } from '../types';
+
+// Move one entry to a new index, leaving the input untouched
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+export const updateTask = (tasks: Task[], id: number, update: (task: Task) => Task) =>
+  tasks.map(t => t.id === id ? update(t) : t);
+
+export const updateSubtasks = (tasks: Task[], taskId: number, update: (subtasks: SubTask[]) => SubTask[]) =>
+  updateTask(tasks, taskId, t => ({ ...t, subtasks: update(t.subtasks || []) }));
+
+// Move the given tasks to the top, in the given order; the rest keep their relative order
+export const prioritizeTasks = (tasks: Task[], ids: number[]) => {
+  const picked = ids.map(id => tasks.find(t => t.id === id)).filter((t): t is Task => t !== undefined);
+  return [...picked, ...tasks.filter(t => !picked.includes(t))];
+};
+
+// A pinned task wins; otherwise the first open task at the top of the list as shown,
+// so the timer never works on something hidden by a filter or sorted further down
+export const pickActiveTask = (tasks: Task[], shown: Task[], pinnedId: number | null) =>
+  tasks.find(t => t.id === pinnedId && !t.completed) ?? shown.find(t => !t.completed);
+
+// Drop references to a removed subtask so "after step N" hints stay accurate
+export const removeSubtask = (subtasks: SubTask[], id: number) =>
+  subtasks
+    .filter(st => st.id !== id)
+    .map(st => st.dependsOn?.includes(id) ? { ...st, dependsOn: st.dependsOn.filter(d => d !== id) } : st);
+
+// Lift a subtask into its own task, placed right below its former parent
+export const promoteSubtask = (tasks: Task[], taskId: number, subtaskId: number, makeId: () => number): Task[] => {
+  const index = tasks.findIndex(t => t.id === taskId);
+  const subtask = tasks[index]?.subtasks?.find(st => st.id === subtaskId);
+  if (!subtask) return tasks;
+
+  const parent = { ...tasks[index], subtasks: removeSubtask(tasks[index].subtasks || [], subtaskId) };
+  const promoted: Task = { id: makeId(), text: subtask.text, completed: subtask.completed, subtasks: [], isExpanded: false };
+  return [...tasks.slice(0, index), parent, promoted, ...tasks.slice(index + 1)];
+};
+
+// Completed tasks leave the list but stay around for stats and restoring
+export const archiveCompleted = (tasks: Task[], now: number) =>
+  tasks.map(t => t.completed && !t.archivedAt ? { ...t, archivedAt: now } : t);
+
+export const restoreTask = (tasks: Task[], id: number) =>
+  updateTask(tasks, id, t => ({ ...t, archivedAt: undefined }));
+
+// Unchecked copies with new ids, keeping "after step N" links pointed at the copies
+export const freshSubtasks = (subtasks: SubTask[], makeId: () => number): SubTask[] => {
+  const ids = new Map(subtasks.map(st => [st.id, makeId()]));
+  return subtasks.map(st => ({
+    ...st,
+    id: ids.get(st.id)!,
+    completed: false,
+    dependsOn: st.dependsOn?.map(d => ids.get(d)).filter((d): d is number => d !== undefined),
+  }));
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { DEFAULT_SETTINGS, nextPhase } from './cycle';
+import { endsSequence, formatSequence, parseSequence, sequenceSettings, taskFromTemplate, templateFromTask } from './templates';
+
+let nextId = 100;
+const makeId = () => nextId++;
+
+describe('parseSequence', () => {
+  it('reads focus/break minutes with an optional round count', () => {
+    expect(parseSequence('50/10 x3')).toEqual({ focus: 50, rest: 10, rounds: 3 });
+    expect(parseSequence(' 90 / 15 ×2 ')).toEqual({ focus: 90, rest: 15, rounds: 2 });
+    expect(parseSequence('25/5')).toEqual({ focus: 25, rest: 5, rounds: 1 });
+    expect(formatSequence({ focus: 50, rest: 10, rounds: 3 })).toBe('50/10 ×3');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSequence('fifty')).toBeNull();
+    expect(parseSequence('0/10 x3')).toBeNull();
+    expect(parseSequence('50/10 x0')).toBeNull();
+    expect(parseSequence('50/0 x3')).toBeNull();
+  });
+});
+
+describe('templates', () => {
+  const task: Task = {
+    id: 1,
+    text: 'Code review',
+    completed: true,
+    tags: ['work'],
+    subtasks: [{ id: 11, text: 'Read diff', completed: true, estimatedMinutes: 15 }],
+  };
+
+  it('creates a fresh, unchecked task each time', () => {
+    const template = templateFromTask(task, 7, { focus: 50, rest: 10, rounds: 3 });
+    const first = taskFromTemplate(template, makeId);
+    const second = taskFromTemplate(template, makeId);
+    expect(first).toMatchObject({ text: 'Code review', completed: false, tags: ['work'], estimatedPomodoros: 3 });
+    expect(first.subtasks).toEqual([{ id: expect.any(Number), text: 'Read diff', completed: false, estimatedMinutes: 15 }]);
+    expect(second.id).not.toBe(first.id);
+    expect(second.subtasks?.[0].id).not.toBe(first.subtasks?.[0].id);
+  });
+
+  it('runs its sequence through the regular cycle and ends after the last break', () => {
+    const sequence = { focus: 50, rest: 10, rounds: 2 };
+    const settings = sequenceSettings(DEFAULT_SETTINGS, sequence);
+    expect(settings.durations).toEqual({ focus: 50, short: 10, long: 10 });
+
+    expect(nextPhase('focus', 0, settings)).toMatchObject({ mode: 'short', completedFocus: 1 });
+    expect(endsSequence('short', 1, sequence)).toBe(false);
+    expect(nextPhase('focus', 1, settings)).toMatchObject({ mode: 'long', completedFocus: 2 });
+    expect(endsSequence('focus', 2, sequence)).toBe(false);
+    expect(endsSequence('long', 2, sequence)).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import type { FocusTemplate, Task, TimerMode, TimerSequence, TimerSettings } from '../types';
+import { freshSubtasks } from './tasks';
+
+export const formatSequence = ({ focus, rest, rounds }: TimerSequence) => `${focus}/${rest} ×${rounds}`;
+
+// Accepts "50/10 x3", "50/10×3" or just "50/10" (one round); null for anything else.
+// Breaks need at least a minute: a 0-second phase can't be started, so the sequence would stall.
+export const parseSequence = (input: string): TimerSequence | null => {
+  const match = input.trim().match(/^(\d+)\s*\/\s*(\d+)(?:\s*[x×*]\s*(\d+))?$/i);
+  if (!match) return null;
+  const [focus, rest, rounds] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 1)];
+  if (focus < 1 || focus > 180 || rest < 1 || rest > 60 || rounds < 1 || rounds > 12) return null;
+  return { focus, rest, rounds };
+};
+
+export const templateFromTask = (task: Task, id: number, sequence?: TimerSequence): FocusTemplate => ({
+  id,
+  name: task.text,
+  text: task.text,
+  subtasks: (task.subtasks || []).map(st => ({ ...st, completed: false })),
+  projectId: task.projectId,
+  tags: task.tags,
+  priority: task.priority,
+  sequence,
+});
+
+// With a sequence the task expects one pomodoro per round
+export const taskFromTemplate = (template: FocusTemplate, makeId: () => number): Task => ({
+  id: makeId(),
+  text: template.text,
+  completed: false,
+  subtasks: freshSubtasks(template.subtasks, makeId),
+  isExpanded: false,
+  projectId: template.projectId,
+  tags: template.tags,
+  priority: template.priority,
+  estimatedPomodoros: template.sequence?.rounds,
+});
+
+// The regular cycle with the template's lengths: every break is the rest, and the
+// last round's break counts as the "long" one
+export const sequenceSettings = (settings: TimerSettings, { focus, rest, rounds }: TimerSequence): TimerSettings => ({
+  ...settings,
+  durations: { focus, short: rest, long: rest },
+  longBreakInterval: rounds,
+});
+
+// The sequence is over once the break after its last round ends
+export const endsSequence = (finished: TimerMode, completedFocus: number, sequence: TimerSequence) =>
+  finished !== 'focus' && completedFocus >= sequence.rounds;
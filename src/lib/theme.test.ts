@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { THEMES, applyTheme, hexToChannels, modeAccents, resolveTheme } from './theme';
+
+describe('resolveTheme', () => {
+  it('uses an explicit choice whatever the system prefers', () => {
+    expect(resolveTheme('light', { dark: true, moreContrast: true })).toBe('light');
+  });
+
+  it('follows the system color scheme, with a contrast request taking precedence', () => {
+    expect(resolveTheme('auto', { dark: true, moreContrast: false })).toBe('dark');
+    expect(resolveTheme('auto', { dark: false, moreContrast: false })).toBe('light');
+    expect(resolveTheme('auto', { dark: false, moreContrast: true })).toBe('contrast');
+  });
+});
+
+describe('modeAccents', () => {
+  it('fills modes without a pick from the theme', () => {
+    expect(modeAccents({ short: '#ff8800' }, 'light')).toEqual({ ...THEMES.light.accents, short: '#ff8800' });
+  });
+});
+
+describe('applyTheme', () => {
+  it('marks the root and exposes accents as rgb channels', () => {
+    const doc = document.implementation.createHTMLDocument();
+    doc.head.innerHTML = '<meta name="theme-color" content="#020617">';
+    applyTheme(doc, 'contrast', modeAccents({ focus: '#34d399' }, 'contrast'));
+
+    expect(doc.documentElement.dataset.theme).toBe('contrast');
+    expect(doc.documentElement.style.getPropertyValue('--accent-focus')).toBe('52 211 153');
+    expect(doc.documentElement.style.getPropertyValue('--accent-long')).toBe(hexToChannels(THEMES.contrast.accents.long));
+    expect(doc.querySelector('meta')?.getAttribute('content')).toBe('#000000');
+  });
+});
@@ -0,0 +1,41 @@
+import type { ThemeId, ThemeSettings, TimerMode } from '../types';
+
+// The palettes live in tailwind.config.js as CSS variables keyed on [data-theme];
+// this is the part JS needs: names, the browser chrome color and default accents
+export const THEMES: Record<ThemeId, { background: string; accents: Record<TimerMode, string> }> = {
+  dark: { background: '#020617', accents: { focus: '#34d399', short: '#22d3ee', long: '#818cf8' } },
+  light: { background: '#f8fafc', accents: { focus: '#059669', short: '#0891b2', long: '#4f46e5' } },
+  contrast: { background: '#000000', accents: { focus: '#6ee7b7', short: '#67e8f9', long: '#a5b4fc' } },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = { theme: 'auto', accents: {} };
+
+export interface SystemAppearance {
+  dark: boolean; // prefers-color-scheme: dark
+  moreContrast: boolean; // prefers-contrast: more
+}
+
+export const resolveTheme = (theme: ThemeSettings['theme'], system: SystemAppearance): ThemeId => {
+  if (theme !== 'auto') return theme;
+  if (system.moreContrast) return 'contrast';
+  return system.dark ? 'dark' : 'light';
+};
+
+// The user's picks win; modes without one use the theme's accent
+export const modeAccents = (accents: ThemeSettings['accents'], theme: ThemeId): Record<TimerMode, string> => ({
+  focus: accents.focus ?? THEMES[theme].accents.focus,
+  short: accents.short ?? THEMES[theme].accents.short,
+  long: accents.long ?? THEMES[theme].accents.long,
+});
+
+// "#34d399" -> "52 211 153", the form the Tailwind colors expect so opacity modifiers work
+export const hexToChannels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+
+export const applyTheme = (doc: Document, theme: ThemeId, accents: Record<TimerMode, string>) => {
+  const root = doc.documentElement;
+  root.dataset.theme = theme;
+  (Object.keys(accents) as TimerMode[]).forEach(mode => root.style.setProperty(`--accent-${mode}`, hexToChannels(accents[mode])));
+  doc.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEMES[theme].background);
+};
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createTimer, finishTimer, getRemainingMs, getSecondsLeft, isExpired, isTimerState, pauseTimer, startTimer,
+} from './timer';
+
+describe('timer state machine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-06T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts idle with the full planned duration', () => {
+    const timer = createTimer('focus', 25 * 60);
+    expect(timer.status).toBe('idle');
+    expect(getSecondsLeft(timer, Date.now())).toBe(25 * 60);
+  });
+
+  it('derives remaining time from the wall clock while running', () => {
+    const timer = startTimer(createTimer('focus', 60), Date.now());
+    vi.advanceTimersByTime(15_500);
+    expect(getRemainingMs(timer, Date.now())).toBe(44_500);
+    expect(getSecondsLeft(timer, Date.now())).toBe(45);
+  });
+
+  it('does not drift when ticks are skipped', () => {
+    const timer = startTimer(createTimer('short', 5 * 60), Date.now());
+    // A throttled background tab might not run anything for minutes
+    vi.setSystemTime(Date.now() + 4 * 60 * 1000);
+    expect(getSecondsLeft(timer, Date.now())).toBe(60);
+  });
+
+  it('freezes the remaining time while paused and resumes from it', () => {
+    let timer = startTimer(createTimer('focus', 60), Date.now());
+    vi.advanceTimersByTime(20_000);
+    timer = pauseTimer(timer, Date.now());
+    expect(timer).toMatchObject({ status: 'paused', endsAt: null, remainingMs: 40_000 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(getSecondsLeft(timer, Date.now())).toBe(40);
+
+    timer = startTimer(timer, Date.now());
+    expect(timer.endsAt).toBe(Date.now() + 40_000);
+  });
+
+  it('expires once the end timestamp has passed', () => {
+    const timer = startTimer(createTimer('long', 10), Date.now());
+    vi.advanceTimersByTime(9_999);
+    expect(isExpired(timer, Date.now())).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(isExpired(timer, Date.now())).toBe(true);
+    expect(getSecondsLeft(timer, Date.now() + 5_000)).toBe(0);
+  });
+
+  it('cannot be restarted once finished', () => {
+    const finished = finishTimer(startTimer(createTimer('focus', 10), Date.now()));
+    expect(startTimer(finished, Date.now())).toBe(finished);
+  });
+
+  it('rejects malformed persisted state', () => {
+    expect(isTimerState(createTimer('focus', 60))).toBe(true);
+    expect(isTimerState(null)).toBe(false);
+    expect(isTimerState({ ...createTimer('focus', 60), mode: 'nap' })).toBe(false);
+    expect(isTimerState({ ...createTimer('focus', 60), status: 'running', endsAt: null })).toBe(false);
+  });
+});
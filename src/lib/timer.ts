@@ -0,0 +1,64 @@
+import type { TimerMode } from '../types';
+
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+// Persisted timer snapshot. While running, the only source of truth is the
+// absolute `endsAt` timestamp, so throttled tabs and reloads can't drift it.
+export interface TimerState {
+  mode: TimerMode;
+  status: TimerStatus;
+  plannedSeconds: number;
+  endsAt: number | null; // epoch ms, set only while running
+  remainingMs: number; // authoritative while idle or paused
+}
+
+export const createTimer = (mode: TimerMode, plannedSeconds: number): TimerState => ({
+  mode,
+  status: 'idle',
+  plannedSeconds,
+  endsAt: null,
+  remainingMs: plannedSeconds * 1000,
+});
+
+export const getRemainingMs = (state: TimerState, now: number) => {
+  if (state.status === 'running' && state.endsAt !== null) return Math.max(0, state.endsAt - now);
+  return state.remainingMs;
+};
+
+// Rounded up so "00:00" only shows once the time is really over
+export const getSecondsLeft = (state: TimerState, now: number) => Math.ceil(getRemainingMs(state, now) / 1000);
+
+export const isExpired = (state: TimerState, now: number) =>
+  state.status === 'running' && state.endsAt !== null && state.endsAt <= now;
+
+export const startTimer = (state: TimerState, now: number): TimerState => {
+  if (state.status === 'running' || state.remainingMs <= 0) return state;
+  return { ...state, status: 'running', endsAt: now + state.remainingMs };
+};
+
+export const pauseTimer = (state: TimerState, now: number): TimerState => {
+  if (state.status !== 'running') return state;
+  return { ...state, status: 'paused', endsAt: null, remainingMs: getRemainingMs(state, now) };
+};
+
+export const finishTimer = (state: TimerState): TimerState => ({
+  ...state,
+  status: 'finished',
+  endsAt: null,
+  remainingMs: 0,
+});
+
+const TIMER_MODES: TimerMode[] = ['focus', 'short', 'long'];
+const TIMER_STATUSES: TimerStatus[] = ['idle', 'running', 'paused', 'finished'];
+
+// Reject anything a stale build or hand-edited storage might have left behind
+export const isTimerState = (value: unknown): value is TimerState => {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return TIMER_MODES.includes(v.mode as TimerMode)
+    && TIMER_STATUSES.includes(v.status as TimerStatus)
+    && typeof v.plannedSeconds === 'number'
+    && typeof v.remainingMs === 'number'
+    && (v.endsAt === null || typeof v.endsAt === 'number')
+    && (v.status !== 'running' || typeof v.endsAt === 'number');
+};
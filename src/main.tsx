@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/pwa'
+
+// Offline support, update prompts and notification actions; see src/sw.js
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,61 @@
+// ZenFocus service worker. Built by the `serviceWorker` plugin in vite.config.ts,
+// which fills in the precache list and a version that changes with every build.
+// In dev both are empty, so the worker only relays notification actions.
+
+const VERSION = '__VERSION__';
+const PRECACHE = self.__PRECACHE__;
+const CACHE = `zenfocus-${VERSION}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name.startsWith('zenfocus-') && name !== CACHE).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting();
+});
+
+// Cache first for our own files, so the app opens instantly and offline.
+// Other origins (AI providers) always go to the network.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (PRECACHE.length === 0 || request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE);
+    // Any in-app URL gets the app shell
+    const cached = await cache.match(request.mode === 'navigate' ? '/index.html' : request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const action = event.action; // '' when the notification body was clicked
+
+  event.waitUntil((async () => {
+    const [client] = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (client) {
+      // Snoozing shouldn't pull the user away from whatever they're doing
+      if (action !== 'snooze') await client.focus();
+      if (action) client.postMessage({ type: 'notification-action', action });
+      return;
+    }
+    if (action === 'snooze') return;
+    const url = new URL(event.notification.data?.url || '/', self.location.origin);
+    if (action) url.searchParams.set('notification-action', action);
+    await self.clients.openWindow(url.href);
+  })());
+});
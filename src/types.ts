@@ -0,0 +1,167 @@
+// --- Types ---
+export interface SubTask {
+  id: number;
+  text: string;
+  completed: boolean;
+  estimatedMinutes?: number;
+  dependsOn?: number[]; // ids of sibling subtasks that should be done first
+}
+
+export interface Task {
+  id: number;
+  text: string;
+  completed: boolean;
+  subtasks?: SubTask[];
+  isExpanded?: boolean;
+  estimatedPomodoros?: number;
+  completedPomodoros?: number; // bumped each time a focus session on this task completes
+  projectId?: number; // no project means the Inbox
+  tags?: string[]; // lowercase, without the leading #
+  priority?: TaskPriority;
+  dueDate?: string; // local calendar day, YYYY-MM-DD
+  archivedAt?: number; // epoch ms; archived tasks are completed and hidden from the list
+  recurrence?: Recurrence; // only the latest task of a series carries it
+}
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+// 'weekly' repeats on its single day in `days`, 'custom' on every day listed there
+export type RecurrenceRule = 'daily' | 'weekdays' | 'weekly' | 'custom';
+
+export interface Recurrence {
+  rule: RecurrenceRule;
+  days: number[]; // 0 = Sunday, as Date.getDay()
+  lastOn: string; // date key of the latest occurrence
+}
+
+// Custom timer run for a template, e.g. 50/10 x3 (minutes)
+export interface TimerSequence {
+  focus: number;
+  rest: number;
+  rounds: number;
+}
+
+// A task with its checklist, and optionally its own timer sequence, started in one click
+export interface FocusTemplate {
+  id: number;
+  name: string;
+  text: string; // title of the task it creates
+  subtasks: SubTask[]; // copied with fresh ids each time
+  projectId?: number;
+  tags?: string[];
+  priority?: TaskPriority;
+  sequence?: TimerSequence; // none: the regular cycle
+}
+
+// A template's sequence on the clock, replacing the regular cycle until its rounds are done
+export interface RunningSequence {
+  templateId: number;
+  name: string;
+  sequence: TimerSequence;
+}
+
+// A named list of tasks
+export interface Project {
+  id: number;
+  name: string;
+  color: string; // hex, used for the list's dot
+}
+
+export type TimerMode = 'focus' | 'short' | 'long';
+
+export type SessionStatus = 'completed' | 'abandoned';
+
+// Internal: our own urges and stray thoughts. External: people, calls, pings.
+export type InterruptionKind = 'internal' | 'external';
+
+export type InterruptionCounts = Record<InterruptionKind, number>;
+
+// Captured instead of acted on, then reviewed once the focus session ends
+export interface Distraction {
+  id: number;
+  text: string;
+  kind: InterruptionKind;
+  capturedAt: number; // epoch ms
+  sessionStartedAt?: number; // the focus session it interrupted, if one was running
+}
+
+// A single timer run, logged when it finishes or is cut short
+export interface SessionRecord {
+  id: number;
+  mode: TimerMode;
+  status: SessionStatus;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  plannedSeconds: number;
+  actualSeconds: number; // time actually counted down (pauses excluded)
+  taskId?: number;
+  taskText?: string;
+  projectId?: number;
+  tags?: string[];
+  interruptions?: InterruptionCounts; // focus sessions only
+}
+
+// The run currently on the clock; becomes a SessionRecord when it ends
+export interface ActiveSession {
+  mode: TimerMode;
+  startedAt: number;
+  plannedSeconds: number;
+  taskId?: number;
+  taskText?: string;
+  projectId?: number;
+  tags?: string[];
+}
+
+// User-tunable Pomodoro cycle, persisted under zenfocus-settings
+export interface TimerSettings {
+  durations: Record<TimerMode, number>; // minutes
+  longBreakInterval: number; // focus sessions per long break
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+}
+
+// Desktop notifications and tab badge, persisted under zenfocus-notifications
+export interface NotificationSettings {
+  enabled: boolean; // only honoured once the browser has granted permission
+  warnings: number[]; // minutes before the end of a session to warn at
+  favicon: boolean; // draw the progress ring into the tab icon
+}
+
+// Focus room connection, persisted under zenfocus-room
+export interface RoomSettings {
+  serverUrl: string;
+  name: string; // shown to the other members
+  code: string | null; // the room to be in; null when not in one
+}
+
+export type ThemeId = 'dark' | 'light' | 'contrast';
+
+// Colors, persisted under zenfocus-theme
+export interface ThemeSettings {
+  theme: ThemeId | 'auto'; // 'auto' follows the system's color scheme and contrast preferences
+  accents: Partial<Record<TimerMode, string>>; // '#rrggbb' picks that replace a mode's built-in accent
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which model answers Smart Breakdown and the Zen Coach, persisted under zenfocus-ai
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  endpoint: string;
+  apiKey: string; // optional for Gemini (falls back to VITE_GEMINI_API_KEY) and local servers
+}
+
+export type SoundLayerId = 'white' | 'pink' | 'brown' | 'rain' | 'binaural';
+export type ChimeId = 'bell' | 'bowl' | 'digital' | 'beep' | 'none';
+
+// Volume of each ambient layer, 0–1
+export type SoundMix = Record<SoundLayerId, number>;
+
+// Ambient soundscape, persisted under zenfocus-soundscape
+export interface SoundSettings {
+  mixes: Record<TimerMode, SoundMix>; // each timer mode has its own mix
+  volume: number; // master volume for the ambient layers, 0–1
+  chime: ChimeId; // played when a session ends
+  chimeVolume: number;
+}
@@ -1,3 +1,49 @@
+import colors from 'tailwindcss/colors';
+import plugin from 'tailwindcss/plugin';
+
+// Palettes the UI uses are read from CSS variables, so a theme only has to swap
+// variable values instead of every class. Each theme picks, per shade, which
+// shade of the stock palette to show.
+const PALETTES = ['slate', 'emerald', 'cyan', 'indigo', 'violet', 'fuchsia', 'rose', 'amber', 'sky'];
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+const channels = (hex) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+const mirror = (shade) => SHADES[SHADES.length - 1 - SHADES.indexOf(shade)];
+const lighter = (shade) => SHADES[Math.max(0, SHADES.indexOf(shade) - 1)];
+
+const THEMES = {
+  dark: {
+    neutral: (shade) => colors.slate[shade],
+    accent: (palette, shade) => colors[palette][shade],
+  },
+  // Backgrounds and text swap ends; mid-tone fills (buttons, bars) stay as they are
+  light: {
+    neutral: (shade) => colors.slate[mirror(shade)],
+    accent: (palette, shade) => colors[palette][shade === 500 || shade === 600 ? shade : mirror(shade)],
+  },
+  // Pure black surfaces, near-white text and brighter accents
+  contrast: {
+    neutral: (shade) => ({
+      50: '#ffffff', 100: '#ffffff', 200: '#ffffff', 300: '#f1f5f9', 400: '#e2e8f0', 500: '#cbd5e1',
+      600: '#94a3b8', 700: '#64748b', 800: '#475569', 900: '#000000', 950: '#000000',
+    })[shade],
+    accent: (palette, shade) => colors[palette][shade >= 300 ? lighter(shade) : shade],
+  },
+};
+
+const variables = ({ neutral, accent }) => Object.fromEntries(PALETTES.flatMap(palette => SHADES.map(shade => [
+  `--color-${palette}-${shade}`,
+  channels(palette === 'slate' ? neutral(shade) : accent(palette, shade)),
+])));
+
+const themes = plugin(({ addBase }) => {
+  addBase({
+    ':root': { ...variables(THEMES.dark), colorScheme: 'dark' },
+    '[data-theme="light"]': { ...variables(THEMES.light), colorScheme: 'light' },
+    '[data-theme="contrast"]': { ...variables(THEMES.contrast), colorScheme: 'dark' },
+  });
+});
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -5,7 +51,20 @@ export default {
     "./src/**/*.{js,ts,jsx,tsx}",
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        ...Object.fromEntries(PALETTES.map(palette => [
+          palette,
+          Object.fromEntries(SHADES.map(shade => [shade, `rgb(var(--color-${palette}-${shade}) / <alpha-value>)`])),
+        ])),
+        // Timer mode accents, set at runtime from the theme and the user's picks
+        mode: {
+          focus: 'rgb(var(--accent-focus) / <alpha-value>)',
+          short: 'rgb(var(--accent-short) / <alpha-value>)',
+          long: 'rgb(var(--accent-long) / <alpha-value>)',
+        },
+      },
+    },
   },
-  plugins: [],
+  plugins: [themes],
 }
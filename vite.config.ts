@@ -1,7 +1,44 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Emits sw.js from src/sw.js with the list of files to precache and a version
+// derived from them. Every deploy therefore ships a byte-different worker, which
+// is what makes browsers notice the update. Dev gets an empty list.
+function serviceWorker(): Plugin {
+  let publicDir = ''
+  const render = (files: string[], version: string) =>
+    readFileSync(new URL('./src/sw.js', import.meta.url), 'utf-8')
+      .replace('self.__PRECACHE__', JSON.stringify(files))
+      .replace('__VERSION__', version)
+
+  return {
+    name: 'zenfocus-service-worker',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    configureServer(server) {
+      server.middlewares.use('/sw.js', (_req, res) => {
+        res.setHeader('Content-Type', 'text/javascript')
+        res.end(render([], 'dev'))
+      })
+    },
+    generateBundle(_options, bundle) {
+      const built = Object.keys(bundle).filter(file => !file.endsWith('.map'))
+      const files = ['/', ...new Set(['index.html', ...built, ...readdirSync(publicDir)])].map(file => file === '/' ? file : `/${file}`)
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: render(files, version) })
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-})
\ No newline at end of file
+  plugins: [react(), serviceWorker()],
+  test: {
+    environment: 'jsdom',
+  },
+})